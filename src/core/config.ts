@@ -41,6 +41,40 @@ export const osmAttribution = OSM_ATTRIBUTION; // Alias
 export const OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
 export const overpassApiUrl = OVERPASS_API_URL; // Alias
 
+/**
+ * Overpass API endpoints in order of preference
+ * The primary endpoint comes first; the rest are public mirrors used for failover
+ */
+export const OVERPASS_ENDPOINTS: readonly string[] = [
+	OVERPASS_API_URL,
+	'https://overpass.private.coffee/api/interpreter',
+	'https://maps.mail.ru/osm/tools/overpass/api/interpreter',
+];
+
+/**
+ * Per-endpoint request timeout in milliseconds
+ */
+export const OVERPASS_REQUEST_TIMEOUT = 30000; // 30 seconds
+
+/**
+ * Endpoint health configuration
+ * A failing endpoint is demoted for baseCooldownMs, doubling per consecutive failure up to maxCooldownMs
+ */
+export const OVERPASS_ENDPOINT_HEALTH = {
+	baseCooldownMs: 30000, // 30 seconds
+	maxCooldownMs: 600000, // 10 minutes
+} as const;
+
+/**
+ * Automatic retry configuration for rate-limited requests
+ * Delays grow exponentially from baseDelayMs (with jitter) up to maxDelayMs
+ */
+export const OVERPASS_RETRY = {
+	baseDelayMs: 5000, // 5 seconds
+	maxDelayMs: 120000, // 2 minutes
+	maxAttempts: 5,
+} as const;
+
 /**
  * Colour mapping for water tap markers based on 'colour' tag
  */
@@ -72,9 +106,67 @@ export const MARKER_STYLE = {
 	fillOpacity: {
 		normal: 0.75,
 		seasonal: 0.35,
+		closed: 0.2, // Closed now according to opening_hours
 	},
 } as const;
 
+/**
+ * Marker clustering configuration
+ */
+export const MARKER_CLUSTERING = {
+	maxZoom: 13, // Markers are clustered at this zoom and below
+	cellSize: 60, // Cluster grid cell size in pixels
+	spiderfyMaxCount: 16, // Larger clusters zoom in on click instead of spreading out
+	spiderfyRadius: 28, // Pixels between a spiderfied marker and the cluster centre (at 8 markers)
+} as const;
+
+/**
+ * A school year and its holidays, as inclusive ISO dates (YYYY-MM-DD)
+ */
+export type SchoolYear = {
+	readonly from: string;
+	readonly to: string;
+	readonly holidays: readonly { readonly from: string; readonly to: string }[];
+};
+
+/**
+ * Holiday calendar used for PH (public holiday) and SH (school holiday) opening_hours rules
+ * Other deployments register their country's calendar and set its code here
+ */
+export const HOLIDAY_CALENDAR = 'LV';
+
+/**
+ * School holidays of the configured calendar, published yearly by the education ministry
+ * SH rules evaluate as unknown on dates outside the listed school years
+ */
+export const SCHOOL_YEARS: readonly SchoolYear[] = [];
+
+/**
+ * Regional defaults for seasonal facilities, which are turned off for the winter
+ * Riga's public taps run roughly from late April to October
+ */
+export const SEASONALITY = {
+	season: 'Apr-Oct', // Months seasonal=yes facilities are on, in opening_hours month syntax
+	seasonalOperators: ['Rīgas ūdens'], // Operators whose facilities are seasonal unless tagged
+	// Note phrases saying a facility is off for the winter (English and Latvian)
+	offSeasonNotes: [
+		/\b(off|closed|shut|disconnected|not working|unavailable)\b[^.;]*\bwinter/i,
+		/\bwinter\b[^.;]*\b(off|closed|shut|disconnected)\b/i,
+		/\b(summer|warm season) only\b/i,
+		/ziemā[^.;]*(nestrādā|atslēgt|slēgt)/i,
+	],
+} as const;
+
+/**
+ * How often markers and filters are re-evaluated against opening hours
+ */
+export const OPENING_HOURS_REFRESH_MS = 60 * 1000;
+
+/**
+ * Minimum zoom at which outlines of way/relation facilities are shown
+ */
+export const OUTLINE_MIN_ZOOM = 17;
+
 /**
  * User location style configuration
  */
@@ -111,6 +203,7 @@ export const LOCATION_HIGH_ACCURACY = true;
 export const LAYER_NAMES = {
 	WATER: 'Drinking Points',
 	TOILET: 'Public Toilets',
+	REFILL: 'Refill Stations',
 } as const;
 
 /**
@@ -118,3 +211,118 @@ export const LAYER_NAMES = {
  * Ensures type safety between UI and analytics
  */
 export type LayerName = (typeof LAYER_NAMES)[keyof typeof LAYER_NAMES];
+
+/**
+ * Facility cache grid configuration
+ * Viewports are split into slippy-map tiles at a fixed zoom; each tile is cached per query type
+ */
+export const FACILITY_GRID_ZOOM = 14; // ~1.3 km cells at Riga's latitude
+export const FACILITY_GRID_MAX_CELLS = 400; // Larger viewports bypass the cell cache
+export const FACILITY_CACHE_TTL = 12 * 60 * 60 * 1000; // 12 hours
+export const FACILITY_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Entries older than 7 days are pruned
+export const FACILITY_CACHE_DB_NAME = 'gribudzert-facility-cache';
+
+/**
+ * Predictive prefetching of grid cells ahead of a pan
+ * Cells next to the viewport in the pan direction are loaded into the cell cache during idle
+ * time, within a request budget so that fast panning cannot flood Overpass
+ */
+export const PREFETCH = {
+	minSpeed: 50, // Pixels per second; slower pans give no useful direction
+	fastSpeed: 1500, // Pixels per second; faster pans prefetch two rings of cells ahead
+	minAlignment: 0.5, // Cosine between the pan direction and a cell's direction from the viewport
+	maxCells: 6, // Cells per prefetch request
+	maxRequests: 6, // Prefetch requests per window
+	windowMs: 60 * 1000,
+	idleTimeout: 2000, // Prefetch after this long even if the browser never becomes idle
+} as const;
+
+/**
+ * Low-zoom overview configuration
+ * At maxZoom and below, facility counts per grid cell replace individual facilities
+ */
+export const OVERVIEW = {
+	maxZoom: 10,
+	cellZoomOffset: 1, // Overview cells are one zoom level finer than the map (~2 tiles wide)
+	maxCells: 64, // Larger viewports use coarser cells
+	cacheMaxKeys: 2048, // Cache cells looked up per load; the rest are counted by Overpass
+	queryTimeout: 60, // Overpass [timeout:] and client timeout of count queries, in seconds
+} as const;
+
+/**
+ * localStorage key of the active facility filters
+ */
+export const FACILITY_FILTERS_STORAGE_KEY = 'gribudzert-facility-filters';
+
+/**
+ * Spatial index bucket size for nearest and radius queries
+ */
+export const SPATIAL_INDEX_ZOOM = 16; // ~330 m buckets at Riga's latitude
+
+/**
+ * Best facility scoring
+ * Each drawback adds a penalty in metres of extra walking to the distance; the facility with
+ * the lowest total is recommended. Facilities likely off for winter, private ones and, when a
+ * wheelchair is needed, inaccessible ones are never recommended
+ */
+export const BEST_FACILITY = {
+	searchRadius: 1500, // Metres around the user to consider
+	penalties: {
+		notDrinkable: 2000,
+		closed: 1000, // Closed now according to opening_hours
+		unknownSeason: 150,
+		customersOnly: 300, // access=customers or permit
+		fee: 200,
+		wheelchairLimited: 200, // When a wheelchair is needed
+		wheelchairUnknown: 400,
+		perYearUnchecked: 25, // Per year since check_date or survey:date
+		undated: 75, // No check_date or survey:date
+	},
+	maxYearsUnchecked: 6, // Older checks count the same
+} as const;
+
+/**
+ * Quick actions jumping to the nearest facility of a kind
+ */
+export const QUICK_ACTIONS = {
+	searchRadius: 3000, // Metres around the user loaded when nothing suitable is loaded yet
+	zoom: 17, // Minimum zoom the map flies to
+} as const;
+
+/**
+ * Facility data source selection
+ * Deployments can serve a curated GeoJSON file or local fixture instead of (or merged with)
+ * live Overpass data; composite sources merge their parts, earlier parts winning on duplicates
+ */
+export type DataSourceConfig =
+	| { readonly type: 'overpass' }
+	| { readonly type: 'geojson'; readonly url: string }
+	| { readonly type: 'snapshot' } // Stored cells only, no network
+	| { readonly type: 'bundled' } // Snapshot built into the app from src/points.xml
+	| { readonly type: 'composite'; readonly sources: readonly DataSourceConfig[] };
+
+export const FACILITY_DATA_SOURCE: DataSourceConfig = { type: 'overpass' };
+
+/**
+ * Service worker cache configuration
+ * Tiles and Overpass responses are kept in capped caches; the oldest entries are evicted first
+ */
+export const OFFLINE_CACHE = {
+	tileMaxEntries: 1000, // ~20 MB of CORS OSM tiles (opaque responses are not cached)
+	overpassMaxEntries: 100,
+	cachedAtHeader: 'X-Gribudzert-Cached-At', // Set on Overpass responses served from the cache
+} as const;
+
+/**
+ * Offline area downloads
+ * OSM's tile usage policy forbids downloading more than 250 tiles at zoom 13 or higher
+ * for offline use, so each area's tile download is capped at that
+ */
+export const OFFLINE_AREAS = {
+	maxTiles: 250,
+	minTileZoom: 13,
+	estimatedTileBytes: 20000, // Average OSM raster tile
+	estimatedCellBytes: 2000, // Average facility data per grid cell and layer
+	tileCacheName: 'gribudzert-offline-tiles', // Not capped, unlike the service worker tile cache
+	storageKey: 'gribudzert-offline-areas',
+} as const;
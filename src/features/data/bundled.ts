@@ -0,0 +1,185 @@
+/**
+ * Bundled facility snapshot
+ * At build time a checked-in Overpass export (JSON or XML) is compacted into a small
+ * module shipped with the app, so markers can be drawn before any network request
+ */
+
+import type { ParseError } from '../../types/errors';
+import type { Element, ElementType, Tags } from '../../types/overpass';
+import type { Result } from '../../types/result';
+import { Err, mapResult } from '../../types/result';
+import { decodeOverpass } from './decoder';
+import { normalizeElements } from './elements';
+
+/**
+ * Element as stored in the snapshot: type, id, position and tags
+ * Outlines are left out to keep the bundle small
+ */
+export type CompactElement = readonly [
+	type: ElementType,
+	id: number,
+	lat: number,
+	lon: number,
+	tags: Tags,
+];
+
+/**
+ * Compact snapshot of an Overpass export
+ */
+export type BundledSnapshot = {
+	readonly osmBase: string | null; // OSM data timestamp of the export
+	readonly elements: readonly CompactElement[];
+};
+
+/**
+ * Export formats the snapshot can be built from
+ */
+export type SnapshotFormat = 'json' | 'xml';
+
+/**
+ * Coordinate precision kept in the snapshot (7 decimals is OSM's own precision)
+ */
+const COORDINATE_FACTOR = 1e7;
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+};
+
+/**
+ * Decode XML character and entity references
+ */
+function decodeXmlText(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+		if (entity.startsWith('#x') || entity.startsWith('#X')) {
+			return String.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+		}
+		if (entity.startsWith('#')) {
+			return String.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+		}
+		return XML_ENTITIES[entity] ?? match;
+	});
+}
+
+/**
+ * Attributes of an XML tag
+ */
+function xmlAttributes(source: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const [, name, value] of source.matchAll(/([\w:]+)="([^"]*)"/g)) {
+		if (name !== undefined && value !== undefined) {
+			attributes[name] = decodeXmlText(value);
+		}
+	}
+	return attributes;
+}
+
+/**
+ * Attributes of every child tag with the given name
+ */
+function childAttributes(body: string, name: string): Record<string, string>[] {
+	return [...body.matchAll(new RegExp(`<${name}\\b([^>]*?)\\/?>`, 'g'))].map((match) =>
+		xmlAttributes(match[1] ?? '')
+	);
+}
+
+/**
+ * Convert an Overpass XML export into the shape of an Overpass JSON response
+ * Only what the app reads is converted: nodes, ways, relations, tags, centres, node refs and members.
+ * Values stay strings where JSON has numbers - the decoder repairs them
+ */
+export function overpassXmlToJson(xml: string): unknown {
+	const elements = [
+		...xml.matchAll(/<(node|way|relation)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g),
+	].map(([, type, attributeSource, body = '']) => {
+		const attributes = xmlAttributes(attributeSource ?? '');
+		const tags = Object.fromEntries(
+			childAttributes(body, 'tag').map((tag) => [tag.k ?? '', tag.v ?? ''])
+		);
+		const center = childAttributes(body, 'center')[0];
+
+		return {
+			type,
+			id: attributes.id,
+			...(attributes.lat !== undefined ? { lat: attributes.lat, lon: attributes.lon } : {}),
+			...(center ? { center: { lat: center.lat, lon: center.lon } } : {}),
+			...(type === 'way' ? { nodes: childAttributes(body, 'nd').map((nd) => nd.ref) } : {}),
+			...(type === 'relation' ? { members: childAttributes(body, 'member') } : {}),
+			...(Object.keys(tags).length > 0 ? { tags } : {}),
+		};
+	});
+
+	const meta = /<meta\b([^>]*?)\/?>/.exec(xml);
+	return {
+		osm3s: { timestamp_osm_base: meta ? (xmlAttributes(meta[1] ?? '').osm_base ?? '') : '' },
+		elements,
+	};
+}
+
+/**
+ * Round a coordinate to the snapshot precision
+ */
+function roundCoordinate(value: number): number {
+	return Math.round(value * COORDINATE_FACTOR) / COORDINATE_FACTOR;
+}
+
+/**
+ * Compact facility elements into a snapshot
+ */
+export function compactElements(
+	elements: readonly Element[],
+	osmBase: string | null
+): BundledSnapshot {
+	return {
+		osmBase,
+		elements: elements.map((element) => [
+			element.type,
+			element.id,
+			roundCoordinate(element.lat),
+			roundCoordinate(element.lon),
+			element.tags,
+		]),
+	};
+}
+
+/**
+ * Build a snapshot from the text of an Overpass export
+ * @param source - File contents
+ * @param format - Export format
+ * @returns Snapshot, or a ParseError if the export is unusable
+ */
+export function buildSnapshot(
+	source: string,
+	format: SnapshotFormat
+): Result<BundledSnapshot, ParseError> {
+	let payload: unknown;
+	if (format === 'xml') {
+		payload = overpassXmlToJson(source);
+	} else {
+		try {
+			payload = JSON.parse(source);
+		} catch {
+			return Err({ type: 'invalid_format', message: 'Snapshot export is not valid JSON' });
+		}
+	}
+
+	const osm3s = (payload as { osm3s?: { timestamp_osm_base?: unknown } } | null)?.osm3s;
+	const osmBase =
+		typeof osm3s?.timestamp_osm_base === 'string' && osm3s.timestamp_osm_base !== ''
+			? osm3s.timestamp_osm_base
+			: null;
+
+	return mapResult(decodeOverpass(payload), (decoded) =>
+		compactElements(normalizeElements(decoded.elements), osmBase)
+	);
+}
+
+/**
+ * Expand a snapshot back into facility elements
+ */
+export function expandSnapshot(snapshot: BundledSnapshot): Element[] {
+	return snapshot.elements.map(([type, id, lat, lon, tags]) => ({ type, id, lat, lon, tags }));
+}
@@ -0,0 +1,296 @@
+/**
+ * Grid-cached facility fetching
+ * Serves fresh cells from the cell cache and only queries Overpass for missing or stale cells,
+ * combining all layers that need data into one request
+ */
+
+import { FACILITY_CACHE_TTL, FACILITY_GRID_MAX_CELLS, FACILITY_GRID_ZOOM } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import type { FetchError } from '../../types/errors';
+import type { Element } from '../../types/overpass';
+import { elementKey } from '../../types/overpass';
+import type { Result } from '../../types/result';
+import { Err, isOk, mapResult, Ok } from '../../types/result';
+import type { CachedCell, CellStore } from './cellCache';
+import { getDefaultCellStore } from './cellCache';
+import { fetchFacilitiesInBBox } from './fetch';
+import type { GridCell } from './grid';
+import {
+	cellForPoint,
+	cellKey,
+	cellsForBounds,
+	countCellsForBounds,
+	enclosingBounds,
+	enclosingCells,
+} from './grid';
+import type { FacilityQuery } from './query';
+import { composeLayerQuery, splitElementsByQuery } from './query';
+
+/**
+ * Result of a cached fetch
+ */
+export type CachedFetchResult = {
+	readonly elements: Element[];
+	readonly endpoint: string | null; // null when served entirely from cache
+	readonly cachedCells: number; // Cells served from cache
+	readonly fetchedCells: number; // Cells fetched from Overpass
+	readonly cachedAt: number | null; // Set when offline data stood in for a failed fetch
+};
+
+/**
+ * Options for cached fetching
+ */
+export type CachedFetchOptions = {
+	readonly store?: CellStore;
+	readonly ttl?: number;
+	readonly now?: number;
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * Merge element lists, keeping the first occurrence of each element
+ */
+export function mergeElements(lists: readonly (readonly Element[])[]): Element[] {
+	const seen: Set<string> = new Set();
+	const merged: Element[] = [];
+
+	for (const list of lists) {
+		for (const element of list) {
+			const key = elementKey(element);
+			if (!seen.has(key)) {
+				seen.add(key);
+				merged.push(element);
+			}
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Group elements by the grid cell containing them
+ */
+function groupByCell(elements: readonly Element[], zoom: number): Map<string, Element[]> {
+	const groups: Map<string, Element[]> = new Map();
+
+	for (const element of elements) {
+		const key = cellKey(cellForPoint(element.lat, element.lon, zoom));
+		const group = groups.get(key);
+		if (group) {
+			group.push(element);
+		} else {
+			groups.set(key, [element]);
+		}
+	}
+
+	return groups;
+}
+
+/**
+ * Result of a cached fetch for several layers
+ */
+export type CachedLayersFetchResult = {
+	readonly elementsByKey: ReadonlyMap<string, Element[]>;
+	readonly endpoint: string | null; // null when served entirely from cache
+	readonly cachedCells: number; // Cells served from cache, summed over layers
+	readonly fetchedCells: number; // Cells fetched from Overpass, summed over layers
+	readonly cachedAt: number | null; // Set when offline data stood in for a failed fetch
+};
+
+/**
+ * Fetch errors after which expired cells are served rather than nothing
+ */
+const OFFLINE_ERRORS: ReadonlySet<FetchError['type']> = new Set(['network', 'timeout']);
+
+/**
+ * Serve expired cells in place of a failed fetch (e.g. while offline)
+ * Only possible when every missing cell has an expired entry
+ * @returns Result with cached elements per layer and the age of the oldest cell, or the fetch error
+ */
+function serveExpired(
+	queries: readonly FacilityQuery[],
+	freshByKey: ReadonlyMap<string, CachedCell[]>,
+	expiredByKey: ReadonlyMap<string, CachedCell[]>,
+	missingByKey: ReadonlyMap<string, GridCell[]>,
+	error: FetchError
+): Result<CachedLayersFetchResult, FetchError> {
+	const covered = queries.every(
+		(query) =>
+			(expiredByKey.get(query.key)?.length ?? 0) === (missingByKey.get(query.key)?.length ?? 0)
+	);
+	if (!covered) {
+		return Err(error);
+	}
+
+	const entries = queries.map((query) => [
+		...(freshByKey.get(query.key) ?? []),
+		...(expiredByKey.get(query.key) ?? []),
+	]);
+	const expired = [...expiredByKey.values()].flat();
+
+	return Ok({
+		elementsByKey: new Map(
+			queries.map((query, i) => [
+				query.key,
+				mergeElements((entries[i] ?? []).map((entry) => entry.elements)),
+			])
+		),
+		endpoint: null,
+		cachedCells: entries.flat().length,
+		fetchedCells: 0,
+		cachedAt: Math.min(...expired.map((entry) => entry.fetchedAt)),
+	});
+}
+
+/**
+ * Fetch several layers in a bounding box through the grid cell cache
+ * Cells missing for any layer are loaded with a single combined Overpass query
+ * covering only the layers that need them; the response is split back per layer
+ * @param queries - Layer queries; each key is also the layer's cache namespace
+ * @param bbox - Area to load
+ * @param options - Store, TTL and clock overrides, cancellation signal
+ * @returns Result with merged elements per layer key, or fetch error
+ */
+export async function fetchLayersCachedInBBox(
+	queries: readonly FacilityQuery[],
+	bbox: BoundingBox,
+	options: CachedFetchOptions = {}
+): Promise<Result<CachedLayersFetchResult, FetchError>> {
+	const store = options.store ?? getDefaultCellStore();
+	const ttl = options.ttl ?? FACILITY_CACHE_TTL;
+	const now = options.now ?? Date.now();
+	const fetchOptions = options.signal ? { signal: options.signal } : {};
+
+	// Very large viewports would create too many cells - query them directly
+	if (countCellsForBounds(bbox, FACILITY_GRID_ZOOM) > FACILITY_GRID_MAX_CELLS) {
+		const result = await fetchFacilitiesInBBox(composeLayerQuery(queries), bbox, fetchOptions);
+		if (!isOk(result)) return result;
+		return Ok({
+			elementsByKey: splitElementsByQuery(result.value.elements, queries),
+			endpoint: result.value.endpoint,
+			cachedCells: 0,
+			fetchedCells: 0,
+			cachedAt: result.value.cachedAt,
+		});
+	}
+
+	const cells = cellsForBounds(bbox, FACILITY_GRID_ZOOM);
+	const keys = cells.map((cell) => cellKey(cell));
+
+	// Look up every layer's cells and collect the ones that need fetching
+	const freshByKey: Map<string, CachedCell[]> = new Map();
+	const expiredByKey: Map<string, CachedCell[]> = new Map();
+	const missingByKey: Map<string, GridCell[]> = new Map();
+	for (const query of queries) {
+		const cached = await store.get(query.key, keys);
+		const fresh: CachedCell[] = [];
+		const expired: CachedCell[] = [];
+		const missing = cells.filter((cell) => {
+			const entry = cached.get(cellKey(cell));
+			if (entry && now - entry.fetchedAt < ttl) {
+				fresh.push(entry);
+				return false;
+			}
+			if (entry) {
+				expired.push(entry);
+			}
+			return true;
+		});
+		freshByKey.set(query.key, fresh);
+		expiredByKey.set(query.key, expired);
+		if (missing.length > 0) {
+			missingByKey.set(query.key, missing);
+		}
+	}
+
+	const cachedCells = [...freshByKey.values()].reduce((sum, fresh) => sum + fresh.length, 0);
+	const allMissing = [...missingByKey.values()].flat();
+	const missingBounds = enclosingBounds(allMissing);
+
+	if (!missingBounds) {
+		return Ok({
+			elementsByKey: new Map(
+				queries.map((query) => [
+					query.key,
+					mergeElements((freshByKey.get(query.key) ?? []).map((entry) => entry.elements)),
+				])
+			),
+			endpoint: null,
+			cachedCells,
+			fetchedCells: 0,
+			cachedAt: null,
+		});
+	}
+
+	// One combined query for the layers with missing cells, over the rectangle enclosing them
+	const fetchQueries = queries.filter((query) => missingByKey.has(query.key));
+	const result = await fetchFacilitiesInBBox(
+		composeLayerQuery(fetchQueries),
+		missingBounds,
+		fetchOptions
+	);
+	if (!isOk(result)) {
+		return OFFLINE_ERRORS.has(result.error.type)
+			? serveExpired(queries, freshByKey, expiredByKey, missingByKey, result.error)
+			: Err(result.error);
+	}
+
+	// Every cell of the enclosing rectangle was fully covered by the query, so refresh them all
+	const fetchedCells = enclosingCells(allMissing);
+	const fetchedKeys = new Set(fetchedCells.map((cell) => cellKey(cell)));
+	const fetchedByKey = splitElementsByQuery(result.value.elements, fetchQueries);
+
+	await store.put(
+		fetchQueries.flatMap((query) => {
+			const groups = groupByCell(fetchedByKey.get(query.key) ?? [], FACILITY_GRID_ZOOM);
+			return fetchedCells.map((cell) => ({
+				queryKey: query.key,
+				cellKey: cellKey(cell),
+				elements: groups.get(cellKey(cell)) ?? [],
+				// Offline responses keep their original age so they are refreshed once back online
+				fetchedAt: result.value.cachedAt ?? now,
+			}));
+		})
+	);
+
+	const elementsByKey: Map<string, Element[]> = new Map();
+	for (const query of queries) {
+		const fetched = fetchedByKey.get(query.key);
+		const fresh = (freshByKey.get(query.key) ?? []).filter(
+			(entry) => !fetched || !fetchedKeys.has(entry.cellKey)
+		);
+		elementsByKey.set(
+			query.key,
+			mergeElements([...fresh.map((entry) => entry.elements), fetched ?? []])
+		);
+	}
+
+	return Ok({
+		elementsByKey,
+		endpoint: result.value.endpoint,
+		cachedCells,
+		fetchedCells: fetchedCells.length * fetchQueries.length,
+		cachedAt: result.value.cachedAt,
+	});
+}
+
+/**
+ * Fetch facilities in a bounding box through the grid cell cache
+ * @param queryKey - Cache namespace for the query type (e.g. 'water')
+ * @param query - Overpass QL query string with [bbox] placeholder
+ * @param bbox - Area to load
+ * @param options - Store, TTL and clock overrides, cancellation signal
+ * @returns Result with merged elements for all covering cells, or fetch error
+ */
+export async function fetchFacilitiesCachedInBBox(
+	queryKey: string,
+	query: string,
+	bbox: BoundingBox,
+	options: CachedFetchOptions = {}
+): Promise<Result<CachedFetchResult, FetchError>> {
+	const result = await fetchLayersCachedInBBox([{ key: queryKey, oql: query }], bbox, options);
+	return mapResult(result, ({ elementsByKey, ...rest }) => ({
+		...rest,
+		elements: elementsByKey.get(queryKey) ?? [],
+	}));
+}
@@ -0,0 +1,268 @@
+/**
+ * Grid cell cache
+ * Persists each cell's Overpass elements per query type in IndexedDB,
+ * with an in-memory fallback when IndexedDB is unavailable
+ */
+
+import { FACILITY_CACHE_DB_NAME, FACILITY_CACHE_MAX_AGE } from '../../core/config';
+import type { Element } from '../../types/overpass';
+import * as logger from '../../utils/logger';
+
+/**
+ * Cached elements for one grid cell and query type
+ */
+export type CachedCell = {
+	readonly queryKey: string; // Query type, e.g. 'water' or 'toilet'
+	readonly cellKey: string; // Grid cell key ("z/x/y")
+	readonly elements: Element[];
+	readonly fetchedAt: number; // Epoch ms
+	readonly pinned?: boolean; // Part of a downloaded offline area - never pruned
+};
+
+/**
+ * Reference to a cached cell
+ */
+export type CellRef = Pick<CachedCell, 'queryKey' | 'cellKey'>;
+
+/**
+ * Storage backend for cached cells
+ * Implementations never reject: failures are logged and treated as cache misses
+ */
+export type CellStore = {
+	readonly get: (queryKey: string, cellKeys: readonly string[]) => Promise<Map<string, CachedCell>>;
+	/** Store cells; an existing pin is kept when a pinned cell is refreshed */
+	readonly put: (cells: readonly CachedCell[]) => Promise<void>;
+	/** Pin or unpin existing cells */
+	readonly setPinned: (refs: readonly CellRef[], pinned: boolean) => Promise<void>;
+	readonly clear: () => Promise<void>;
+};
+
+const OBJECT_STORE = 'cells';
+const DB_VERSION = 1;
+
+/**
+ * Storage id for a cell record
+ */
+function recordId(queryKey: string, cellKey: string): string {
+	return `${queryKey}:${cellKey}`;
+}
+
+/**
+ * Carry the pin of an existing record over to its replacement
+ */
+function withPin(cell: CachedCell, existing: CachedCell | undefined): CachedCell {
+	return existing?.pinned ? { ...cell, pinned: true } : cell;
+}
+
+/**
+ * Create an in-memory cell store (used in tests and as IndexedDB fallback)
+ */
+export function createMemoryCellStore(): CellStore {
+	const records: Map<string, CachedCell> = new Map();
+
+	return {
+		get: async (queryKey, cellKeys) => {
+			const found: Map<string, CachedCell> = new Map();
+			for (const key of cellKeys) {
+				const record = records.get(recordId(queryKey, key));
+				if (record) {
+					found.set(key, record);
+				}
+			}
+			return found;
+		},
+		put: async (cells) => {
+			for (const cell of cells) {
+				const id = recordId(cell.queryKey, cell.cellKey);
+				records.set(id, withPin(cell, records.get(id)));
+			}
+		},
+		setPinned: async (refs, pinned) => {
+			for (const ref of refs) {
+				const id = recordId(ref.queryKey, ref.cellKey);
+				const record = records.get(id);
+				if (record) {
+					records.set(id, { ...record, pinned });
+				}
+			}
+		},
+		clear: async () => {
+			records.clear();
+		},
+	};
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Resolve when a transaction completes
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+}
+
+/**
+ * Open the cache database, creating the object store on first use
+ */
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+	const request = indexedDB.open(dbName, DB_VERSION);
+	request.onupgradeneeded = () => {
+		const db = request.result;
+		if (!db.objectStoreNames.contains(OBJECT_STORE)) {
+			const store = db.createObjectStore(OBJECT_STORE, { keyPath: 'id' });
+			store.createIndex('fetchedAt', 'fetchedAt');
+		}
+	};
+	return promisifyRequest(request);
+}
+
+/**
+ * Delete unpinned records older than the maximum cache age
+ */
+async function pruneExpired(db: IDBDatabase, now: number): Promise<void> {
+	const tx = db.transaction(OBJECT_STORE, 'readwrite');
+	const index = tx.objectStore(OBJECT_STORE).index('fetchedAt');
+	const request = index.openCursor(IDBKeyRange.upperBound(now - FACILITY_CACHE_MAX_AGE));
+
+	request.onsuccess = () => {
+		const cursor = request.result;
+		if (cursor) {
+			if (!(cursor.value as CachedCell).pinned) {
+				cursor.delete();
+			}
+			cursor.continue();
+		}
+	};
+
+	await transactionDone(tx);
+}
+
+/**
+ * Create an IndexedDB-backed cell store
+ * Falls back to an in-memory store when IndexedDB is unavailable or cannot be opened
+ * @param dbName - Database name
+ */
+export function createIndexedDbCellStore(dbName: string = FACILITY_CACHE_DB_NAME): CellStore {
+	if (typeof indexedDB === 'undefined') {
+		logger.info('IndexedDB unavailable, facility cache is in-memory only');
+		return createMemoryCellStore();
+	}
+
+	const fallback = createMemoryCellStore();
+	const dbPromise: Promise<IDBDatabase | null> = openDatabase(dbName)
+		.then(async (db) => {
+			await pruneExpired(db, Date.now()).catch((err) => {
+				logger.warn('Failed to prune facility cache:', err);
+			});
+			return db;
+		})
+		.catch((err) => {
+			logger.warn('Failed to open facility cache, using in-memory cache:', err);
+			return null;
+		});
+
+	return {
+		get: async (queryKey, cellKeys) => {
+			const db = await dbPromise;
+			if (!db) return fallback.get(queryKey, cellKeys);
+
+			try {
+				const store = db.transaction(OBJECT_STORE, 'readonly').objectStore(OBJECT_STORE);
+				const records = await Promise.all(
+					cellKeys.map(
+						(key) =>
+							promisifyRequest(store.get(recordId(queryKey, key))) as Promise<
+								CachedCell | undefined
+							>
+					)
+				);
+
+				const found: Map<string, CachedCell> = new Map();
+				for (const record of records) {
+					if (record) {
+						found.set(record.cellKey, record);
+					}
+				}
+				return found;
+			} catch (err) {
+				logger.warn('Failed to read facility cache:', err);
+				return new Map();
+			}
+		},
+		put: async (cells) => {
+			const db = await dbPromise;
+			if (!db) return fallback.put(cells);
+
+			try {
+				const tx = db.transaction(OBJECT_STORE, 'readwrite');
+				const store = tx.objectStore(OBJECT_STORE);
+				for (const cell of cells) {
+					const id = recordId(cell.queryKey, cell.cellKey);
+					const request = store.get(id);
+					request.onsuccess = () => {
+						store.put({ ...withPin(cell, request.result as CachedCell | undefined), id });
+					};
+				}
+				await transactionDone(tx);
+			} catch (err) {
+				logger.warn('Failed to write facility cache:', err);
+			}
+		},
+		setPinned: async (refs, pinned) => {
+			const db = await dbPromise;
+			if (!db) return fallback.setPinned(refs, pinned);
+
+			try {
+				const tx = db.transaction(OBJECT_STORE, 'readwrite');
+				const store = tx.objectStore(OBJECT_STORE);
+				for (const ref of refs) {
+					const request = store.get(recordId(ref.queryKey, ref.cellKey));
+					request.onsuccess = () => {
+						if (request.result) {
+							store.put({ ...request.result, pinned });
+						}
+					};
+				}
+				await transactionDone(tx);
+			} catch (err) {
+				logger.warn('Failed to update facility cache pins:', err);
+			}
+		},
+		clear: async () => {
+			const db = await dbPromise;
+			if (!db) return fallback.clear();
+
+			try {
+				const tx = db.transaction(OBJECT_STORE, 'readwrite');
+				tx.objectStore(OBJECT_STORE).clear();
+				await transactionDone(tx);
+			} catch (err) {
+				logger.warn('Failed to clear facility cache:', err);
+			}
+		},
+	};
+}
+
+let defaultStore: CellStore | null = null;
+
+/**
+ * Get the shared application cell store (created on first use)
+ */
+export function getDefaultCellStore(): CellStore {
+	if (!defaultStore) {
+		defaultStore = createIndexedDbCellStore();
+	}
+	return defaultStore;
+}
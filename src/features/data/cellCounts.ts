@@ -0,0 +1,174 @@
+/**
+ * Facility counts per grid cell
+ * Cells are counted from the cell cache where every covered cache cell is stored, and otherwise
+ * with a single Overpass query holding one "out count" per cell and layer
+ */
+
+import { FACILITY_GRID_ZOOM, OVERVIEW } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import type { FetchError, ParseError } from '../../types/errors';
+import { elementKey } from '../../types/overpass';
+import type { Result } from '../../types/result';
+import { Err, isOk, Ok } from '../../types/result';
+import type { CellStore } from './cellCache';
+import { fetchOverpass } from './fetch';
+import type { GridCell } from './grid';
+import { bboxContains, cellBounds, cellKey } from './grid';
+import { extractQueryParts } from './query';
+import type { CountTarget } from './sources/types';
+
+/**
+ * Options for counting
+ */
+export type CellCountOptions = {
+	readonly store: CellStore;
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * Overpass bbox filter (south,west,north,east)
+ */
+function toOverpassBBox(bbox: BoundingBox): string {
+	return `${bbox.south},${bbox.west},${bbox.north},${bbox.east}`;
+}
+
+/**
+ * Compose one query counting a layer in a cell for each target
+ * The response holds one count element per target, in target order
+ */
+export function composeCountQuery(targets: readonly CountTarget[]): string {
+	const lines = [`[out:json][timeout:${OVERVIEW.queryTimeout}];`];
+	for (const { cell, query } of targets) {
+		const bbox = toOverpassBBox(cellBounds(cell));
+		lines.push(
+			'(',
+			...extractQueryParts(query.oql).map((part) => `  ${part.replace(/\[bbox\]/g, bbox)}`),
+			');',
+			'out count;'
+		);
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Read the totals of an "out count" response, in response order
+ */
+export function decodeCountResponse(text: string, expected: number): Result<number[], ParseError> {
+	let payload: unknown;
+	try {
+		payload = JSON.parse(text);
+	} catch {
+		return Err({ type: 'invalid_format', message: 'Overpass response is not valid JSON' });
+	}
+
+	const elements =
+		typeof payload === 'object' && payload !== null && 'elements' in payload
+			? payload.elements
+			: null;
+	if (!Array.isArray(elements)) {
+		return Err({
+			type: 'missing_required_field',
+			field: 'elements',
+			message: 'Overpass response has no elements array',
+		});
+	}
+
+	const totals = elements
+		.filter((element) => element?.type === 'count')
+		.map((element) => Number(element.tags?.total));
+	if (totals.length !== expected || totals.some((total) => !Number.isFinite(total))) {
+		return Err({
+			type: 'invalid_format',
+			message: `Expected ${expected} counts, got ${totals.length}`,
+		});
+	}
+	return Ok(totals);
+}
+
+/**
+ * Cache cells covered by an overview cell, or null if they exceed the lookup budget
+ */
+function cacheCellKeys(cell: GridCell): string[] | null {
+	const depth = FACILITY_GRID_ZOOM - cell.z;
+	if (depth < 0 || 4 ** depth > OVERVIEW.cacheMaxKeys) {
+		return null;
+	}
+
+	const size = 2 ** depth;
+	const keys: string[] = [];
+	for (let y = cell.y * size; y < (cell.y + 1) * size; y++) {
+		for (let x = cell.x * size; x < (cell.x + 1) * size; x++) {
+			keys.push(cellKey({ x, y, z: FACILITY_GRID_ZOOM }));
+		}
+	}
+	return keys;
+}
+
+/**
+ * Count a layer from the cell cache, or null unless every covered cache cell is stored
+ */
+async function countFromCache(
+	store: CellStore,
+	target: CountTarget,
+	keys: readonly string[]
+): Promise<number | null> {
+	const cached = await store.get(target.query.key, keys);
+	if (cached.size < keys.length) return null;
+
+	// Elements on a cache cell edge are stored in both cells
+	const bbox = cellBounds(target.cell);
+	const seen: Set<string> = new Set();
+	for (const entry of cached.values()) {
+		for (const element of entry.elements) {
+			if (bboxContains(bbox, element.lat, element.lon)) seen.add(elementKey(element));
+		}
+	}
+	return seen.size;
+}
+
+/**
+ * Count each target from the cell cache, or from Overpass when the cache can't answer
+ * @returns Counts in target order, or the fetch error of the count query
+ */
+export async function countCells(
+	targets: readonly CountTarget[],
+	options: CellCountOptions
+): Promise<Result<number[], FetchError>> {
+	const counts: Array<number | null> = [];
+	// Cache lookups left, so wide viewports can't read thousands of cells
+	let cacheKeysLeft: number = OVERVIEW.cacheMaxKeys;
+
+	for (const target of targets) {
+		const keys = cacheCellKeys(target.cell);
+		let count: number | null = null;
+		if (keys && keys.length <= cacheKeysLeft) {
+			cacheKeysLeft -= keys.length;
+			count = await countFromCache(options.store, target, keys);
+		}
+		counts.push(count);
+	}
+
+	// Everything the cache can't answer is counted in one request. It may run for the whole server
+	// timeout, and re-sending it to another mirror after a client timeout would only repeat that
+	const missing = targets.filter((_, i) => counts[i] === null);
+	if (missing.length > 0) {
+		const fetched = await fetchOverpass(
+			composeCountQuery(missing),
+			async (text) => decodeCountResponse(text, missing.length),
+			{
+				timeout: OVERVIEW.queryTimeout * 1000,
+				failoverOnTimeout: false,
+				...(options.signal ? { signal: options.signal } : {}),
+			}
+		);
+		if (!isOk(fetched)) return fetched;
+
+		const totals = fetched.value.value;
+		let next = 0;
+		for (const [i, count] of counts.entries()) {
+			if (count === null) counts[i] = totals[next++] ?? 0;
+		}
+	}
+
+	return Ok(counts.map((count) => count ?? 0));
+}
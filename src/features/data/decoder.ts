@@ -0,0 +1,329 @@
+/**
+ * Overpass response decoder
+ * Validates the untrusted JSON payload into typed raw elements.
+ * Malformed payloads fail with a ParseError; malformed elements are repaired
+ * where the intent is unambiguous and dropped otherwise, each with a warning
+ */
+
+import type { ParseError } from '../../types/errors';
+import type {
+	ElementType,
+	LatLon,
+	RawElement,
+	RawMember,
+	RawNode,
+	RawRelation,
+	RawWay,
+	Tags,
+} from '../../types/overpass';
+import type { Result } from '../../types/result';
+import { Err, Ok } from '../../types/result';
+
+/**
+ * Problem found in a single element
+ */
+export type DecodeWarning = {
+	readonly action: 'dropped' | 'repaired';
+	readonly element: string; // e.g. "node/123", or "#4" when the id is unusable
+	readonly error: ParseError;
+};
+
+/**
+ * Decoded Overpass payload
+ */
+export type DecodedOverpass = {
+	readonly elements: RawElement[];
+	readonly warnings: readonly DecodeWarning[];
+};
+
+/**
+ * Warning totals per action and error type, for logging
+ */
+export type DecodeSummary = {
+	readonly dropped: number;
+	readonly repaired: number;
+	readonly byType: Readonly<Partial<Record<ParseError['type'], number>>>;
+};
+
+type JsonObject = Readonly<Record<string, unknown>>;
+
+const ELEMENT_TYPES: ReadonlySet<string> = new Set<ElementType>(['node', 'way', 'relation']);
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a number, accepting numeric strings
+ * @returns The number and whether it had to be converted, or null if unusable
+ */
+function readNumber(value: unknown): { value: number; repaired: boolean } | null {
+	if (typeof value === 'number') {
+		return Number.isFinite(value) ? { value, repaired: false } : null;
+	}
+	if (typeof value === 'string' && value.trim() !== '') {
+		const parsed = Number(value);
+		return Number.isFinite(parsed) ? { value: parsed, repaired: true } : null;
+	}
+	return null;
+}
+
+/**
+ * Check coordinates are within WGS84 range
+ */
+function isValidPosition(lat: number, lon: number): boolean {
+	return lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
+}
+
+/**
+ * Element decoder context - collects warnings for one element
+ */
+type ElementContext = {
+	readonly label: string;
+	readonly warn: (action: DecodeWarning['action'], error: ParseError) => void;
+};
+
+/**
+ * Read a coordinate pair, repairing numeric strings
+ * @returns Position, or null when missing or out of range
+ */
+function decodePosition(source: JsonObject, ctx: ElementContext): LatLon | null {
+	const lat = readNumber(source.lat);
+	const lon = readNumber(source.lon);
+	if (!lat || !lon || !isValidPosition(lat.value, lon.value)) {
+		return null;
+	}
+	if (lat.repaired || lon.repaired) {
+		ctx.warn('repaired', {
+			type: 'invalid_coordinates',
+			message: `${ctx.label}: coordinates given as strings`,
+		});
+	}
+	return { lat: lat.value, lon: lon.value };
+}
+
+/**
+ * Read tags, stringifying numbers and booleans and dropping other values
+ */
+function decodeTags(value: unknown, ctx: ElementContext): Tags | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!isObject(value)) {
+		ctx.warn('repaired', {
+			type: 'invalid_format',
+			message: `${ctx.label}: tags is not an object`,
+		});
+		return undefined;
+	}
+
+	const tags: Record<string, string> = {};
+	let repaired = false;
+	for (const [key, tagValue] of Object.entries(value)) {
+		if (typeof tagValue === 'string') {
+			tags[key] = tagValue;
+		} else if (typeof tagValue === 'number' || typeof tagValue === 'boolean') {
+			tags[key] = String(tagValue);
+			repaired = true;
+		} else {
+			repaired = true;
+		}
+	}
+
+	if (repaired) {
+		ctx.warn('repaired', {
+			type: 'invalid_format',
+			message: `${ctx.label}: non-string tag values`,
+		});
+	}
+	return tags;
+}
+
+/**
+ * Read the `out center` point of a way or relation; an invalid centre is
+ * dropped so the normaliser can fall back to the outline
+ */
+function decodeCenter(value: unknown, ctx: ElementContext): LatLon | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	const center = isObject(value) ? decodePosition(value, ctx) : null;
+	if (!center) {
+		ctx.warn('repaired', {
+			type: 'invalid_coordinates',
+			message: `${ctx.label}: invalid centre ignored`,
+		});
+		return undefined;
+	}
+	return center;
+}
+
+function decodeNode(source: JsonObject, id: number, ctx: ElementContext): RawNode | null {
+	const position = decodePosition(source, ctx);
+	if (!position) {
+		ctx.warn('dropped', { type: 'invalid_coordinates', message: `${ctx.label}: invalid position` });
+		return null;
+	}
+
+	const tags = decodeTags(source.tags, ctx);
+	const node = { type: 'node', id, lat: position.lat, lon: position.lon } as const;
+	return tags ? { ...node, tags } : node;
+}
+
+function decodeWay(source: JsonObject, id: number, ctx: ElementContext): RawWay {
+	const refs = Array.isArray(source.nodes) ? source.nodes : [];
+	const nodes = refs.filter((ref): ref is number => Number.isInteger(ref));
+	if (
+		source.nodes !== undefined &&
+		(!Array.isArray(source.nodes) || nodes.length !== refs.length)
+	) {
+		ctx.warn('repaired', { type: 'invalid_format', message: `${ctx.label}: invalid node refs` });
+	}
+
+	const center = decodeCenter(source.center, ctx);
+	const tags = decodeTags(source.tags, ctx);
+	return {
+		type: 'way',
+		id,
+		nodes,
+		...(center ? { center } : {}),
+		...(tags ? { tags } : {}),
+	};
+}
+
+function decodeMember(value: unknown): RawMember | null {
+	if (!isObject(value)) return null;
+	const { type, ref, role } = value;
+	if (typeof type !== 'string' || !ELEMENT_TYPES.has(type) || !Number.isInteger(ref)) {
+		return null;
+	}
+	return {
+		type: type as ElementType,
+		ref: ref as number,
+		role: typeof role === 'string' ? role : '',
+	};
+}
+
+function decodeRelation(source: JsonObject, id: number, ctx: ElementContext): RawRelation {
+	const raw = Array.isArray(source.members) ? source.members : [];
+	const members = raw.flatMap((member) => {
+		const decoded = decodeMember(member);
+		return decoded ? [decoded] : [];
+	});
+	if (
+		source.members !== undefined &&
+		(!Array.isArray(source.members) || members.length !== raw.length)
+	) {
+		ctx.warn('repaired', { type: 'invalid_format', message: `${ctx.label}: invalid members` });
+	}
+
+	const center = decodeCenter(source.center, ctx);
+	const tags = decodeTags(source.tags, ctx);
+	return {
+		type: 'relation',
+		id,
+		members,
+		...(center ? { center } : {}),
+		...(tags ? { tags } : {}),
+	};
+}
+
+/**
+ * Decode a single element
+ * @param value - Untrusted element
+ * @param index - Position in the response, used to label elements without a usable id
+ * @param warnings - Collected warnings
+ * @returns Raw element, or null if it had to be dropped
+ */
+function decodeElement(
+	value: unknown,
+	index: number,
+	warnings: DecodeWarning[]
+): RawElement | null {
+	const drop = (error: ParseError): null => {
+		warnings.push({ action: 'dropped', element: `#${index}`, error });
+		return null;
+	};
+
+	if (!isObject(value)) {
+		return drop({ type: 'invalid_format', message: `#${index}: not an object` });
+	}
+
+	const { type } = value;
+	if (typeof type !== 'string' || !ELEMENT_TYPES.has(type)) {
+		return drop({
+			type: 'missing_required_field',
+			field: 'type',
+			message: `#${index}: missing or unknown element type`,
+		});
+	}
+
+	const id = readNumber(value.id);
+	if (!id || !Number.isInteger(id.value)) {
+		return drop({
+			type: 'missing_required_field',
+			field: 'id',
+			message: `#${index}: missing or invalid id`,
+		});
+	}
+
+	const label = `${type}/${id.value}`;
+	const ctx: ElementContext = {
+		label,
+		warn: (action, error) => warnings.push({ action, element: label, error }),
+	};
+
+	switch (type as ElementType) {
+		case 'node':
+			return decodeNode(value, id.value, ctx);
+		case 'way':
+			return decodeWay(value, id.value, ctx);
+		case 'relation':
+			return decodeRelation(value, id.value, ctx);
+	}
+}
+
+/**
+ * Decode an Overpass JSON payload
+ * @param payload - Parsed JSON body of an Overpass response
+ * @returns Well-formed raw elements with warnings, or a ParseError if the payload is unusable
+ */
+export function decodeOverpass(payload: unknown): Result<DecodedOverpass, ParseError> {
+	if (!isObject(payload)) {
+		return Err({ type: 'invalid_format', message: 'Overpass response is not a JSON object' });
+	}
+
+	if (!Array.isArray(payload.elements)) {
+		// Overpass explains failed queries in `remark`
+		const remark = typeof payload.remark === 'string' ? `: ${payload.remark}` : '';
+		return Err({
+			type: 'missing_required_field',
+			field: 'elements',
+			message: `Overpass response has no elements${remark}`,
+		});
+	}
+
+	const warnings: DecodeWarning[] = [];
+	const elements = payload.elements.flatMap((value, index) => {
+		const element = decodeElement(value, index, warnings);
+		return element ? [element] : [];
+	});
+
+	return Ok({ elements, warnings });
+}
+
+/**
+ * Summarise decode warnings
+ */
+export function summarizeWarnings(warnings: readonly DecodeWarning[]): DecodeSummary {
+	const byType: Partial<Record<ParseError['type'], number>> = {};
+	for (const warning of warnings) {
+		byType[warning.error.type] = (byType[warning.error.type] ?? 0) + 1;
+	}
+
+	return {
+		dropped: warnings.filter((w) => w.action === 'dropped').length,
+		repaired: warnings.filter((w) => w.action === 'repaired').length,
+		byType,
+	};
+}
@@ -0,0 +1,131 @@
+/**
+ * Element normalisation
+ * Turns raw Overpass output (nodes, ways, relations and their skeleton geometry)
+ * into facility elements placed at a single point
+ */
+
+import type {
+	Element,
+	LatLon,
+	RawElement,
+	RawNode,
+	RawRelation,
+	RawWay,
+	Tags,
+} from '../../types/overpass';
+
+/**
+ * Relation member roles that form the outline of an area
+ */
+const OUTLINE_ROLES: ReadonlySet<string> = new Set(['outer', '']);
+
+/**
+ * Check if raw tags describe a facility (skeleton geometry carries no tags)
+ */
+function hasTags(tags: Tags | undefined): tags is Tags {
+	return tags !== undefined && Object.keys(tags).length > 0;
+}
+
+/**
+ * Resolve a way's node references to coordinates, skipping nodes not in the response
+ */
+function resolveWayGeometry(way: RawWay, nodes: ReadonlyMap<number, RawNode>): LatLon[] {
+	return (way.nodes ?? []).flatMap((ref) => {
+		const node = nodes.get(ref);
+		return node ? [{ lat: node.lat, lon: node.lon }] : [];
+	});
+}
+
+/**
+ * Resolve a relation's outer member ways to outline rings
+ */
+function resolveRelationGeometry(
+	relation: RawRelation,
+	nodes: ReadonlyMap<number, RawNode>,
+	ways: ReadonlyMap<number, RawWay>
+): LatLon[][] {
+	return (relation.members ?? []).flatMap((member) => {
+		if (member.type !== 'way' || !OUTLINE_ROLES.has(member.role)) return [];
+		const way = ways.get(member.ref);
+		if (!way) return [];
+		const ring = resolveWayGeometry(way, nodes);
+		return ring.length > 1 ? [ring] : [];
+	});
+}
+
+/**
+ * Centre of the bounding box of a set of rings
+ * @returns Centre point, or null when there are no coordinates
+ */
+export function outlineCenter(rings: readonly (readonly LatLon[])[]): LatLon | null {
+	const points = rings.flat();
+	if (points.length === 0) {
+		return null;
+	}
+
+	const lats = points.map((p) => p.lat);
+	const lons = points.map((p) => p.lon);
+	return {
+		lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+		lon: (Math.min(...lons) + Math.max(...lons)) / 2,
+	};
+}
+
+/**
+ * Build a facility element for a way or relation from its centre and outline
+ */
+function areaElement(raw: RawWay | RawRelation, tags: Tags, outline: LatLon[][]): Element | null {
+	const center = raw.center ?? outlineCenter(outline);
+	if (!center) {
+		return null;
+	}
+
+	const base = { type: raw.type, id: raw.id, lat: center.lat, lon: center.lon, tags };
+	return outline.length > 0 ? { ...base, outline } : base;
+}
+
+/**
+ * Normalise raw Overpass elements into facility elements
+ * - Nodes keep their position
+ * - Ways and relations are placed at their `out center` point (or outline centre)
+ *   and carry outline rings resolved from the skeleton output of `>; out skel qt`
+ * - Tagless skeleton nodes and ways are used for geometry only and dropped
+ * @param raw - Elements from the Overpass response
+ * @returns Facility elements in response order
+ */
+export function normalizeElements(raw: readonly RawElement[]): Element[] {
+	const nodes: Map<number, RawNode> = new Map();
+	const ways: Map<number, RawWay> = new Map();
+
+	for (const element of raw) {
+		if (element.type === 'node') nodes.set(element.id, element);
+		if (element.type === 'way') ways.set(element.id, element);
+	}
+
+	return raw.flatMap((element): Element[] => {
+		const { tags } = element;
+		if (!hasTags(tags)) return [];
+
+		if (element.type === 'node') {
+			return [{ type: 'node', id: element.id, lat: element.lat, lon: element.lon, tags }];
+		}
+
+		let outline: LatLon[][];
+		if (element.type === 'way') {
+			const ring = resolveWayGeometry(element, nodes);
+			outline = ring.length > 1 ? [ring] : [];
+		} else {
+			outline = resolveRelationGeometry(element, nodes, ways);
+		}
+
+		const area = areaElement(element, tags, outline);
+		return area ? [area] : [];
+	});
+}
+
+/**
+ * Build the OpenStreetMap page URL for an element
+ */
+export function osmElementUrl(element: Pick<Element, 'type' | 'id'>): string {
+	return `https://www.openstreetmap.org/${element.type}/${element.id}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Overpass endpoint health tracking
+ * Keeps a per-endpoint failure record so unhealthy mirrors are tried last
+ */
+
+import { OVERPASS_ENDPOINT_HEALTH } from '../../core/config';
+
+/**
+ * Health record for a single Overpass endpoint
+ */
+export type EndpointHealth = {
+	readonly url: string;
+	readonly consecutiveFailures: number;
+	readonly demotedUntil: number; // Epoch ms, 0 when healthy
+	readonly lastFailureReason: string | null;
+};
+
+const healthRecords: Map<string, EndpointHealth> = new Map();
+
+/**
+ * Get the health record for an endpoint (healthy default if never seen)
+ */
+export function getEndpointHealth(url: string): EndpointHealth {
+	return (
+		healthRecords.get(url) ?? {
+			url,
+			consecutiveFailures: 0,
+			demotedUntil: 0,
+			lastFailureReason: null,
+		}
+	);
+}
+
+/**
+ * Check if an endpoint is currently demoted
+ */
+export function isEndpointDemoted(url: string, now: number = Date.now()): boolean {
+	return getEndpointHealth(url).demotedUntil > now;
+}
+
+/**
+ * Order endpoints for the next request
+ * Healthy endpoints keep their configured order; demoted ones follow,
+ * soonest-to-recover first, so a request is still attempted when all are demoted
+ * @param endpoints - Configured endpoints in order of preference
+ * @param now - Current time in epoch ms
+ * @returns Endpoints in the order they should be tried
+ */
+export function getEndpointOrder(endpoints: readonly string[], now: number = Date.now()): string[] {
+	const healthy = endpoints.filter((url) => !isEndpointDemoted(url, now));
+	const demoted = endpoints
+		.filter((url) => isEndpointDemoted(url, now))
+		.sort((a, b) => getEndpointHealth(a).demotedUntil - getEndpointHealth(b).demotedUntil);
+
+	return [...healthy, ...demoted];
+}
+
+/**
+ * Record a successful response from an endpoint
+ */
+export function markEndpointSuccess(url: string): void {
+	healthRecords.delete(url);
+}
+
+/**
+ * Record a failed request and demote the endpoint with exponential cooldown
+ * @param url - Endpoint that failed
+ * @param reason - Short description of the failure (for logging)
+ * @param now - Current time in epoch ms
+ * @returns Updated health record
+ */
+export function markEndpointFailure(
+	url: string,
+	reason: string,
+	now: number = Date.now()
+): EndpointHealth {
+	const previous = getEndpointHealth(url);
+	const consecutiveFailures = previous.consecutiveFailures + 1;
+	const cooldown = Math.min(
+		OVERPASS_ENDPOINT_HEALTH.baseCooldownMs * 2 ** (consecutiveFailures - 1),
+		OVERPASS_ENDPOINT_HEALTH.maxCooldownMs
+	);
+
+	const record: EndpointHealth = {
+		url,
+		consecutiveFailures,
+		demotedUntil: now + cooldown,
+		lastFailureReason: reason,
+	};
+	healthRecords.set(url, record);
+
+	return record;
+}
+
+/**
+ * Forget all health records
+ */
+export function resetEndpointHealth(): void {
+	healthRecords.clear();
+}
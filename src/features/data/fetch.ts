@@ -1,117 +1,285 @@
 /**
  * Data fetching functionality
- * Generic facility data fetching from Overpass API
+ * Generic facility data fetching from Overpass API with mirror failover
  */
 
 import type * as L from 'leaflet';
-import { OVERPASS_API_URL } from '../../core/config';
-import type { FetchError } from '../../types/errors';
-import type { Element, Overpass } from '../../types/overpass';
+import { OFFLINE_CACHE, OVERPASS_ENDPOINTS, OVERPASS_REQUEST_TIMEOUT } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import type { FetchError, ParseError } from '../../types/errors';
+import type { Element } from '../../types/overpass';
 import type { Result } from '../../types/result';
-import { Err, Ok } from '../../types/result';
+import { Err, isOk, mapResult, Ok } from '../../types/result';
+import * as logger from '../../utils/logger';
+import { getEndpointOrder, markEndpointFailure, markEndpointSuccess } from './endpoints';
+import { toBoundingBox } from './grid';
+import type { DecodedResponse } from './pipeline';
+import { getDefaultPipeline } from './pipelineClient';
+import { fetchSlotWait, parseRetryAfter, RATE_LIMIT_STATUSES } from './rateLimit';
 
 /**
- * Fetch facilities from Overpass API
- * @param query - Overpass QL query string
- * @returns Result with elements or fetch error
+ * Successful fetch result with the endpoint that served the data
  */
-export async function fetchFacilities(query: string): Promise<Result<Element[], FetchError>> {
-	try {
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
+export type FacilityFetchResult = {
+	readonly elements: Element[];
+	readonly endpoint: string;
+	readonly cachedAt: number | null; // Set when the service worker answered from its offline cache
+};
+
+/**
+ * Successful Overpass response decoded by the caller's decoder
+ */
+export type OverpassResponse<T> = {
+	readonly value: T;
+	readonly endpoint: string;
+	readonly cachedAt: number | null; // Set when the service worker answered from its offline cache
+};
+
+/**
+ * Decoder for the text of an Overpass response
+ */
+export type OverpassDecoder<T> = (text: string) => Promise<Result<T, ParseError>>;
+
+/**
+ * Options for Overpass fetching
+ */
+export type OverpassFetchOptions = {
+	readonly endpoints?: readonly string[]; // Endpoints to try, in order of preference
+	readonly signal?: AbortSignal; // External cancellation (e.g. a newer request superseding this one)
+	readonly timeout?: number; // Client timeout per endpoint in ms (default OVERPASS_REQUEST_TIMEOUT)
+	readonly failoverOnTimeout?: boolean; // Try the next mirror after a timeout (default true)
+};
+
+/**
+ * Error returned when a request is cancelled through its external signal
+ */
+const ABORTED_ERROR: FetchError = { type: 'aborted', message: 'Request was cancelled' };
+
+/**
+ * Failure of a single endpoint attempt
+ * failover is true when another mirror may succeed (network, timeout, overload)
+ */
+type AttemptFailure = {
+	readonly error: FetchError;
+	readonly failover: boolean;
+};
+
+/**
+ * HTTP statuses that indicate an unavailable endpoint (rate-limit statuses are handled separately)
+ */
+const FAILOVER_STATUSES: ReadonlySet<number> = new Set([502, 503]);
+
+/**
+ * Read the time a service worker cached the response, if it came from the offline cache
+ */
+function readCachedAt(response: Response): number | null {
+	const value = Number(response.headers.get(OFFLINE_CACHE.cachedAtHeader));
+	return value > 0 ? value : null;
+}
 
-		const response = await fetch(OVERPASS_API_URL, {
+/**
+ * POST a query to a single Overpass endpoint
+ */
+async function postToEndpoint<T>(
+	endpoint: string,
+	query: string,
+	decode: OverpassDecoder<T>,
+	options: OverpassFetchOptions
+): Promise<Result<Omit<OverpassResponse<T>, 'endpoint'>, AttemptFailure>> {
+	const { signal, timeout = OVERPASS_REQUEST_TIMEOUT, failoverOnTimeout = true } = options;
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), timeout);
+	const abortFromCaller = () => controller.abort();
+	signal?.addEventListener('abort', abortFromCaller);
+
+	try {
+		const response = await fetch(endpoint, {
 			method: 'POST',
 			body: `data=${encodeURIComponent(query)}`,
 			signal: controller.signal,
 		});
 
-		clearTimeout(timeoutId);
+		if (RATE_LIMIT_STATUSES.has(response.status)) {
+			return Err({
+				error: {
+					type: 'rate_limited',
+					message: `Rate limited (HTTP ${response.status})`,
+					retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+				},
+				failover: true,
+			});
+		}
 
 		if (!response.ok) {
 			return Err({
-				type: 'network',
-				message: `HTTP error! status: ${response.status}`,
+				error: { type: 'network', message: `HTTP error! status: ${response.status}` },
+				failover: FAILOVER_STATUSES.has(response.status),
 			});
 		}
 
-		const data: Overpass = await response.json();
-		return Ok(data.elements);
+		const decoded = await decode(await response.text());
+		if (!isOk(decoded)) {
+			return Err({
+				error: { type: 'parse', message: decoded.error.message, cause: decoded.error },
+				failover: true,
+			});
+		}
+		return Ok({ value: decoded.value, cachedAt: readCachedAt(response) });
 	} catch (err) {
+		if (signal?.aborted) {
+			return Err({ error: ABORTED_ERROR, failover: false });
+		}
 		if (err instanceof Error) {
 			if (err.name === 'AbortError') {
 				return Err({
-					type: 'timeout',
-					message: 'Request timed out after 30 seconds',
+					error: {
+						type: 'timeout',
+						message: `Request timed out after ${timeout / 1000} seconds`,
+					},
+					failover: failoverOnTimeout,
 				});
 			}
-			return Err({
-				type: 'network',
-				message: err.message,
-			});
+			return Err({ error: { type: 'network', message: err.message }, failover: true });
 		}
 		return Err({
-			type: 'network',
-			message: 'Unknown error occurred during fetch',
+			error: { type: 'network', message: 'Unknown error occurred during fetch' },
+			failover: true,
 		});
+	} finally {
+		clearTimeout(timeoutId);
+		signal?.removeEventListener('abort', abortFromCaller);
 	}
 }
 
 /**
- * Fetch facilities within specific map bounds
- * @param query - Overpass QL query string with [bbox] placeholder
- * @param bounds - Leaflet LatLngBounds for the visible map area
- * @returns Result with elements or fetch error
+ * Run an Overpass query and decode the response
+ * Tries endpoints in health order and fails over to the next mirror on
+ * network error, timeout, overload status or an undecodable response. When every
+ * mirror fails and any was rate limited, the error carries the wait until a query slot frees up
+ * @param query - Overpass QL query string
+ * @param decode - Decoder for the response text
+ * @param options - Endpoints, cancellation signal and client timeout
+ * @returns Result with the decoded value and serving endpoint, or fetch error
  */
-export async function fetchFacilitiesInBounds(
+export async function fetchOverpass<T>(
 	query: string,
-	bounds: L.LatLngBounds
-): Promise<Result<Element[], FetchError>> {
-	// Convert Leaflet bounds to Overpass format (south,west,north,east)
-	const bbox = `${bounds.getSouth()},${bounds.getWest()},${bounds.getNorth()},${bounds.getEast()}`;
+	decode: OverpassDecoder<T>,
+	options: OverpassFetchOptions = {}
+): Promise<Result<OverpassResponse<T>, FetchError>> {
+	const { endpoints = OVERPASS_ENDPOINTS, signal } = options;
+	let lastError: FetchError = {
+		type: 'network',
+		message: 'No Overpass endpoints configured',
+	};
+	const rateLimitedEndpoints: string[] = [];
+	const retryHints: number[] = [];
 
-	// Inject bbox into query - replace [bbox] placeholder
-	const modifiedQuery = query.replace(/\[bbox\]/g, bbox);
+	for (const endpoint of getEndpointOrder(endpoints)) {
+		if (signal?.aborted) {
+			return Err(ABORTED_ERROR);
+		}
 
-	try {
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
+		const result = await postToEndpoint(endpoint, query, decode, options);
 
-		const response = await fetch(OVERPASS_API_URL, {
-			method: 'POST',
-			body: `data=${encodeURIComponent(modifiedQuery)}`,
-			signal: controller.signal,
-		});
+		if (isOk(result)) {
+			markEndpointSuccess(endpoint);
+			logger.info(`Overpass data served by ${endpoint}`);
+			return Ok({ ...result.value, endpoint });
+		}
 
-		clearTimeout(timeoutId);
+		lastError = result.error.error;
 
-		if (!response.ok) {
-			return Err({
-				type: 'network',
-				message: `HTTP error! status: ${response.status}`,
-			});
+		// Client errors (e.g. a bad query) would fail on every mirror, cancellation ends the request,
+		// and heavy queries that time out without failover would only load the next mirror
+		if (!result.error.failover) {
+			return Err(lastError);
 		}
 
-		const data: Overpass = await response.json();
-		return Ok(data.elements);
-	} catch (err) {
-		if (err instanceof Error) {
-			if (err.name === 'AbortError') {
-				return Err({
-					type: 'timeout',
-					message: 'Request timed out after 30 seconds',
-				});
-			}
-			return Err({
-				type: 'network',
-				message: err.message,
-			});
+		if (lastError.type === 'rate_limited') {
+			rateLimitedEndpoints.push(endpoint);
+			if (lastError.retryAfterMs !== null) retryHints.push(lastError.retryAfterMs);
 		}
+
+		markEndpointFailure(endpoint, lastError.message);
+		logger.warn(`Overpass endpoint ${endpoint} failed:`, lastError.message);
+	}
+
+	// Out of slots somewhere - report how long until the earliest one frees up
+	const [firstRateLimited] = rateLimitedEndpoints;
+	if (firstRateLimited !== undefined) {
+		const retryAfterMs =
+			retryHints.length > 0
+				? Math.min(...retryHints)
+				: await fetchSlotWait(firstRateLimited, signal);
 		return Err({
-			type: 'network',
-			message: 'Unknown error occurred during fetch',
+			type: 'rate_limited',
+			message: 'All Overpass servers are busy',
+			retryAfterMs,
 		});
 	}
+
+	return Err(lastError);
+}
+
+/**
+ * Fetch facilities from Overpass API, with mirror failover (see fetchOverpass)
+ * @param query - Overpass QL query string
+ * @param options - Endpoints and cancellation signal
+ * @returns Result with elements and serving endpoint, or fetch error
+ */
+export async function fetchFacilities(
+	query: string,
+	options: OverpassFetchOptions = {}
+): Promise<Result<FacilityFetchResult, FetchError>> {
+	// Parsing and decoding run off the main thread where workers are available
+	const pipeline = getDefaultPipeline();
+	const result = await fetchOverpass<DecodedResponse>(query, pipeline.decode, options);
+
+	return mapResult(result, ({ value: { elements, summary }, endpoint, cachedAt }) => {
+		if (summary.dropped > 0 || summary.repaired > 0) {
+			logger.warn(
+				`Overpass response: dropped ${summary.dropped}, repaired ${summary.repaired} elements`,
+				summary.byType
+			);
+		}
+		return { elements, endpoint, cachedAt };
+	});
+}
+
+/**
+ * Fetch facilities within a bounding box
+ * @param query - Overpass QL query string with [bbox] placeholder
+ * @param bbox - Bounding box to query
+ * @param options - Endpoints and cancellation signal
+ * @returns Result with elements and serving endpoint, or fetch error
+ */
+export async function fetchFacilitiesInBBox(
+	query: string,
+	bbox: BoundingBox,
+	options: OverpassFetchOptions = {}
+): Promise<Result<FacilityFetchResult, FetchError>> {
+	// Overpass bbox format is south,west,north,east
+	const overpassBBox = `${bbox.south},${bbox.west},${bbox.north},${bbox.east}`;
+
+	// Inject bbox into query - replace [bbox] placeholder
+	const modifiedQuery = query.replace(/\[bbox\]/g, overpassBBox);
+
+	return fetchFacilities(modifiedQuery, options);
+}
+
+/**
+ * Fetch facilities within specific map bounds
+ * @param query - Overpass QL query string with [bbox] placeholder
+ * @param bounds - Leaflet LatLngBounds for the visible map area
+ * @param options - Endpoints and cancellation signal
+ * @returns Result with elements and serving endpoint, or fetch error
+ */
+export async function fetchFacilitiesInBounds(
+	query: string,
+	bounds: L.LatLngBounds,
+	options: OverpassFetchOptions = {}
+): Promise<Result<FacilityFetchResult, FetchError>> {
+	return fetchFacilitiesInBBox(query, toBoundingBox(bounds), options);
 }
 
 // Backward compatibility aliases for existing water point code
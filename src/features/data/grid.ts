@@ -0,0 +1,175 @@
+/**
+ * Fixed slippy-map tile grid
+ * Splits bounding boxes into cells used as cache and prefetch units
+ */
+
+import type * as L from 'leaflet';
+import type { BoundingBox } from '../../types/domain';
+
+/**
+ * Maximum latitude representable in Web Mercator tiles
+ */
+const MAX_MERCATOR_LAT = 85.05112878;
+
+/**
+ * A single grid cell (slippy-map tile coordinates)
+ */
+export type GridCell = {
+	readonly x: number;
+	readonly y: number;
+	readonly z: number;
+};
+
+/**
+ * Stable string key for a cell ("z/x/y")
+ */
+export function cellKey(cell: GridCell): string {
+	return `${cell.z}/${cell.x}/${cell.y}`;
+}
+
+/**
+ * Convert Leaflet bounds to a plain bounding box
+ */
+export function toBoundingBox(bounds: L.LatLngBounds): BoundingBox {
+	return {
+		south: bounds.getSouth(),
+		west: bounds.getWest(),
+		north: bounds.getNorth(),
+		east: bounds.getEast(),
+	};
+}
+
+/**
+ * Clamp a value into [min, max]
+ */
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Tile column for a longitude
+ */
+function lonToTileX(lon: number, zoom: number): number {
+	const n = 2 ** zoom;
+	return clamp(Math.floor(((lon + 180) / 360) * n), 0, n - 1);
+}
+
+/**
+ * Tile row for a latitude
+ */
+function latToTileY(lat: number, zoom: number): number {
+	const n = 2 ** zoom;
+	const latRad = (clamp(lat, -MAX_MERCATOR_LAT, MAX_MERCATOR_LAT) * Math.PI) / 180;
+	const y = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n;
+	return clamp(Math.floor(y), 0, n - 1);
+}
+
+/**
+ * Longitude of a tile column's west edge
+ */
+function tileXToLon(x: number, zoom: number): number {
+	return (x / 2 ** zoom) * 360 - 180;
+}
+
+/**
+ * Latitude of a tile row's north edge
+ */
+function tileYToLat(y: number, zoom: number): number {
+	const n = Math.PI - (2 * Math.PI * y) / 2 ** zoom;
+	return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+/**
+ * Get the cell containing a point
+ */
+export function cellForPoint(lat: number, lon: number, zoom: number): GridCell {
+	return { x: lonToTileX(lon, zoom), y: latToTileY(lat, zoom), z: zoom };
+}
+
+/**
+ * Get the bounding box of a cell
+ */
+export function cellBounds(cell: GridCell): BoundingBox {
+	return {
+		south: tileYToLat(cell.y + 1, cell.z),
+		west: tileXToLon(cell.x, cell.z),
+		north: tileYToLat(cell.y, cell.z),
+		east: tileXToLon(cell.x + 1, cell.z),
+	};
+}
+
+/**
+ * Check whether a point lies in a bounding box (edges included)
+ */
+export function bboxContains(bbox: BoundingBox, lat: number, lon: number): boolean {
+	return lat >= bbox.south && lat <= bbox.north && lon >= bbox.west && lon <= bbox.east;
+}
+
+/**
+ * Count the cells covering a bounding box without materialising them
+ */
+export function countCellsForBounds(bbox: BoundingBox, zoom: number): number {
+	const columns = lonToTileX(bbox.east, zoom) - lonToTileX(bbox.west, zoom) + 1;
+	const rows = latToTileY(bbox.south, zoom) - latToTileY(bbox.north, zoom) + 1;
+	return columns * rows;
+}
+
+/**
+ * Get all cells intersecting a bounding box, row by row from the north-west corner
+ */
+export function cellsForBounds(bbox: BoundingBox, zoom: number): GridCell[] {
+	const minX = lonToTileX(bbox.west, zoom);
+	const maxX = lonToTileX(bbox.east, zoom);
+	const minY = latToTileY(bbox.north, zoom);
+	const maxY = latToTileY(bbox.south, zoom);
+
+	const cells: GridCell[] = [];
+	for (let y = minY; y <= maxY; y++) {
+		for (let x = minX; x <= maxX; x++) {
+			cells.push({ x, y, z: zoom });
+		}
+	}
+	return cells;
+}
+
+/**
+ * Get the smallest bounding box enclosing all given cells
+ * @returns Enclosing box, or null for an empty list
+ */
+export function enclosingBounds(cells: readonly GridCell[]): BoundingBox | null {
+	const [first, ...rest] = cells;
+	if (!first) {
+		return null;
+	}
+
+	return rest.reduce<BoundingBox>((acc, cell) => {
+		const b = cellBounds(cell);
+		return {
+			south: Math.min(acc.south, b.south),
+			west: Math.min(acc.west, b.west),
+			north: Math.max(acc.north, b.north),
+			east: Math.max(acc.east, b.east),
+		};
+	}, cellBounds(first));
+}
+
+/**
+ * Get every cell of the rectangle spanned by the given cells
+ * Equivalent to the cells of enclosingBounds, without edge rounding
+ */
+export function enclosingCells(cells: readonly GridCell[]): GridCell[] {
+	const [first] = cells;
+	if (!first) {
+		return [];
+	}
+
+	const xs = cells.map((cell) => cell.x);
+	const ys = cells.map((cell) => cell.y);
+	const result: GridCell[] = [];
+	for (let y = Math.min(...ys); y <= Math.max(...ys); y++) {
+		for (let x = Math.min(...xs); x <= Math.max(...xs); x++) {
+			result.push({ x, y, z: first.z });
+		}
+	}
+	return result;
+}
@@ -0,0 +1,131 @@
+/**
+ * Low-zoom facility overview
+ * Below the overview zoom, individual facilities are replaced by counts per grid cell,
+ * taken from the same data source as the facilities
+ */
+
+import { FACILITY_CACHE_TTL, OVERVIEW } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import type { FetchError } from '../../types/errors';
+import type { Result } from '../../types/result';
+import { isOk, Ok } from '../../types/result';
+import type { GridCell } from './grid';
+import { cellBounds, cellKey, cellsForBounds, countCellsForBounds } from './grid';
+import type { FacilityQuery } from './query';
+import { countSourceCells } from './sources/counts';
+import type { CountTarget, FacilityDataSource } from './sources/types';
+
+/**
+ * Facility counts of one overview cell
+ */
+export type OverviewCell = {
+	readonly cell: GridCell;
+	readonly bbox: BoundingBox;
+	readonly counts: Readonly<Record<string, number>>; // By layer key
+};
+
+/**
+ * Options for the overview loader
+ */
+export type OverviewLoaderOptions = {
+	readonly source: FacilityDataSource; // Source the facilities are shown from
+	readonly ttl?: number; // Lifetime of remembered counts
+	readonly now?: () => number;
+};
+
+/**
+ * Overview loader instance
+ */
+export type OverviewLoader = {
+	/**
+	 * Count the facilities of each layer per overview cell of a viewport
+	 * @param queries - Layer queries to count
+	 * @param bbox - Viewport
+	 * @param mapZoom - Current map zoom, which sets the cell size
+	 */
+	readonly load: (
+		queries: readonly FacilityQuery[],
+		bbox: BoundingBox,
+		mapZoom: number,
+		options?: { readonly signal?: AbortSignal }
+	) => Promise<Result<OverviewCell[], FetchError>>;
+};
+
+/**
+ * Count remembered from an earlier load
+ */
+type RememberedCount = {
+	readonly count: number;
+	readonly fetchedAt: number;
+};
+
+/**
+ * Cell zoom for a map zoom: cells of about twice the tile size, coarser for large viewports
+ */
+export function overviewCellZoom(bbox: BoundingBox, mapZoom: number): number {
+	let zoom = Math.max(0, Math.round(mapZoom) + OVERVIEW.cellZoomOffset);
+	while (zoom > 0 && countCellsForBounds(bbox, zoom) > OVERVIEW.maxCells) {
+		zoom--;
+	}
+	return zoom;
+}
+
+/**
+ * Create an overview loader
+ * Counts are remembered in memory for the TTL
+ */
+export function createOverviewLoader(options: OverviewLoaderOptions): OverviewLoader {
+	const ttl = options.ttl ?? FACILITY_CACHE_TTL;
+	const now = options.now ?? Date.now;
+	const remembered: Map<string, RememberedCount> = new Map();
+
+	const rememberedKey = (queryKey: string, cell: GridCell): string =>
+		`${queryKey}:${cellKey(cell)}`;
+
+	const load: OverviewLoader['load'] = async (queries, bbox, mapZoom, loadOptions = {}) => {
+		const cells = cellsForBounds(bbox, overviewCellZoom(bbox, mapZoom));
+		const counts: Map<string, number> = new Map();
+		const missing: CountTarget[] = [];
+
+		for (const cell of cells) {
+			for (const query of queries) {
+				const key = rememberedKey(query.key, cell);
+				const known = remembered.get(key);
+				if (known && now() - known.fetchedAt < ttl) {
+					counts.set(key, known.count);
+				} else {
+					missing.push({ cell, query });
+				}
+			}
+		}
+
+		// Everything not known yet is counted in one call to the source
+		if (missing.length > 0) {
+			const counted = await countSourceCells(
+				options.source,
+				missing,
+				loadOptions.signal ? { signal: loadOptions.signal } : {}
+			);
+			if (!isOk(counted)) return counted;
+
+			const fetchedAt = now();
+			missing.forEach(({ cell, query }, i) => {
+				const count = counted.value[i] ?? 0;
+				counts.set(rememberedKey(query.key, cell), count);
+				remembered.set(rememberedKey(query.key, cell), { count, fetchedAt });
+			});
+		}
+
+		return Ok(
+			cells.map((cell) => ({
+				cell,
+				bbox: cellBounds(cell),
+				counts: Object.fromEntries(
+					queries.map((query) => [query.key, counts.get(rememberedKey(query.key, cell)) ?? 0])
+				),
+			}))
+		);
+	};
+
+	return { load };
+}
@@ -0,0 +1,141 @@
+/**
+ * Facility processing pipeline
+ * The CPU-heavy steps between an Overpass response and rendered markers: JSON parsing,
+ * decoding, normalisation and distance ranking. Runs in a Web Worker (see pipeline.worker.ts)
+ * or on the main thread, both through handlePipelineRequest
+ */
+
+import type { ParseError } from '../../types/errors';
+import type { Element, LatLon } from '../../types/overpass';
+import { elementKey } from '../../types/overpass';
+import type { Result } from '../../types/result';
+import { Err, mapResult } from '../../types/result';
+import { haversineDistance } from '../../utils/geometry';
+import { isLikelyAvailable } from '../hours/seasonality';
+import type { DecodeSummary } from './decoder';
+import { decodeOverpass, summarizeWarnings } from './decoder';
+import { normalizeElements } from './elements';
+
+/**
+ * Decoded and normalised Overpass response
+ */
+export type DecodedResponse = {
+	readonly elements: Element[];
+	readonly summary: DecodeSummary;
+};
+
+/**
+ * Facilities ranked by distance from a reference point
+ */
+export type RankedFacilities = {
+	readonly elements: Element[]; // Nearest first, with distanceFromUser and isNearest set
+	readonly nearest: Element | null;
+};
+
+/**
+ * Messages sent to the pipeline
+ */
+export type PipelineRequest =
+	| { readonly id: number; readonly type: 'decode'; readonly text: string }
+	| {
+			readonly id: number;
+			readonly type: 'rank';
+			readonly elements: readonly Element[];
+			readonly reference: LatLon | null;
+	  };
+
+/**
+ * Messages sent back by the pipeline, answering the request with the same id
+ */
+export type PipelineResponse =
+	| {
+			readonly id: number;
+			readonly type: 'decode';
+			readonly result: Result<DecodedResponse, ParseError>;
+	  }
+	| { readonly id: number; readonly type: 'rank'; readonly result: RankedFacilities };
+
+/**
+ * Parse, decode and normalise the text of an Overpass JSON response
+ */
+export function decodeResponse(text: string): Result<DecodedResponse, ParseError> {
+	let payload: unknown;
+	try {
+		payload = JSON.parse(text);
+	} catch {
+		// Overloaded mirrors sometimes answer 200 with an HTML error page
+		return Err({ type: 'invalid_format', message: 'Overpass response is not valid JSON' });
+	}
+
+	return mapResult(decodeOverpass(payload), (decoded) => ({
+		elements: normalizeElements(decoded.elements),
+		summary: summarizeWarnings(decoded.warnings),
+	}));
+}
+
+/**
+ * Rank facilities by distance from a reference point, computing each distance once
+ * @param elements - Facilities to rank
+ * @param reference - Point to measure from, or null to leave the elements unranked
+ */
+export function rankFacilities(
+	elements: readonly Element[],
+	reference: LatLon | null
+): RankedFacilities {
+	if (!reference || elements.length === 0) {
+		return { elements: [...elements], nearest: null };
+	}
+
+	const ranked = elements
+		.map((element) => ({
+			...element,
+			distanceFromUser: haversineDistance(reference.lat, reference.lon, element.lat, element.lon),
+			isNearest: false,
+		}))
+		.sort((a, b) => a.distanceFromUser - b.distanceFromUser);
+
+	// Facilities likely off for winter are never highlighted as nearest
+	const nearestIndex = ranked.findIndex((element) => isLikelyAvailable(element));
+	const first = ranked[nearestIndex];
+	if (!first) {
+		return { elements: ranked, nearest: null };
+	}
+
+	const nearest = { ...first, isNearest: true };
+	return { elements: [nearest, ...ranked.filter((_, i) => i !== nearestIndex)], nearest };
+}
+
+/**
+ * Highlight a known nearest facility, e.g. one found by the spatial index outside the ranked area
+ * The facility is added to the ranked list when it isn't in it already
+ * @param ranked - Facilities ranked from the same reference point
+ * @param nearest - Nearest facility and its distance from the reference point
+ */
+export function withNearest(
+	ranked: RankedFacilities,
+	nearest: Element,
+	distance: number
+): RankedFacilities {
+	const key = elementKey(nearest);
+	const elements = ranked.elements
+		.filter((element) => elementKey(element) !== key)
+		.map((element) => (element.isNearest ? { ...element, isNearest: false } : element));
+	const highlighted = { ...nearest, distanceFromUser: distance, isNearest: true };
+	return { elements: [highlighted, ...elements], nearest: highlighted };
+}
+
+/**
+ * Answer a pipeline request
+ */
+export function handlePipelineRequest(request: PipelineRequest): PipelineResponse {
+	switch (request.type) {
+		case 'decode':
+			return { id: request.id, type: 'decode', result: decodeResponse(request.text) };
+		case 'rank':
+			return {
+				id: request.id,
+				type: 'rank',
+				result: rankFacilities(request.elements, request.reference),
+			};
+	}
+}
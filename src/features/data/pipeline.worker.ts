@@ -0,0 +1,21 @@
+/**
+ * Facility pipeline worker entry point
+ * Bundled by Vite from `new Worker(new URL('./pipeline.worker.ts', import.meta.url))`
+ */
+
+import type { PipelineRequest, PipelineResponse } from './pipeline';
+import { handlePipelineRequest } from './pipeline';
+
+/**
+ * Minimal dedicated worker scope (the DOM lib types describe the window instead)
+ */
+type WorkerScope = {
+	onmessage: ((event: MessageEvent<PipelineRequest>) => void) | null;
+	postMessage: (message: PipelineResponse) => void;
+};
+
+const scope = globalThis as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+	scope.postMessage(handlePipelineRequest(event.data));
+};
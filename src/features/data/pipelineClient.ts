@@ -0,0 +1,137 @@
+/**
+ * Facility pipeline client
+ * Sends pipeline work to a Web Worker, falling back to the main thread when workers are
+ * unavailable or the worker fails
+ */
+
+import type { ParseError } from '../../types/errors';
+import type { Element, LatLon } from '../../types/overpass';
+import type { Result } from '../../types/result';
+import * as logger from '../../utils/logger';
+import type {
+	DecodedResponse,
+	PipelineRequest,
+	PipelineResponse,
+	RankedFacilities,
+} from './pipeline';
+import { handlePipelineRequest } from './pipeline';
+
+/**
+ * Pipeline instance
+ */
+export type FacilityPipeline = {
+	/** Parse, decode and normalise an Overpass JSON response */
+	readonly decode: (text: string) => Promise<Result<DecodedResponse, ParseError>>;
+	/** Rank facilities by distance from a reference point */
+	readonly rank: (
+		elements: readonly Element[],
+		reference: LatLon | null
+	) => Promise<RankedFacilities>;
+	/** Stop the worker; later calls run on the main thread */
+	readonly dispose: () => void;
+};
+
+/**
+ * Request awaiting its worker response
+ */
+type PendingRequest = {
+	readonly request: PipelineRequest;
+	readonly resolve: (response: PipelineResponse) => void;
+};
+
+/**
+ * Request body without its id
+ */
+type RequestBody<R = PipelineRequest> = R extends PipelineRequest ? Omit<R, 'id'> : never;
+
+/**
+ * Create the pipeline worker, or null when workers are unavailable
+ */
+function createDefaultWorker(): Worker | null {
+	if (typeof Worker === 'undefined') {
+		return null;
+	}
+	return new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Create a pipeline client
+ * @param createWorker - Worker factory (default: the bundled pipeline worker)
+ */
+export function createPipeline(
+	createWorker: () => Worker | null = createDefaultWorker
+): FacilityPipeline {
+	const pending: Map<number, PendingRequest> = new Map();
+	let nextId = 1;
+	let worker: Worker | null = null;
+
+	const stopWorker = (): void => {
+		worker?.terminate();
+		worker = null;
+		// Finish requests the worker will never answer on the main thread
+		for (const { request, resolve } of pending.values()) {
+			resolve(handlePipelineRequest(request));
+		}
+		pending.clear();
+	};
+
+	try {
+		worker = createWorker();
+	} catch (err) {
+		logger.warn('Failed to start pipeline worker, processing on the main thread:', err);
+	}
+
+	if (worker) {
+		worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+			const entry = pending.get(event.data.id);
+			if (entry) {
+				pending.delete(event.data.id);
+				entry.resolve(event.data);
+			}
+		};
+		worker.onerror = (event) => {
+			event.preventDefault();
+			logger.warn('Pipeline worker failed, processing on the main thread:', event.message);
+			stopWorker();
+		};
+	}
+
+	const send = (body: RequestBody): Promise<PipelineResponse> => {
+		const request = { ...body, id: nextId++ } as PipelineRequest;
+		if (!worker) {
+			return Promise.resolve(handlePipelineRequest(request));
+		}
+
+		const active = worker;
+		return new Promise((resolve) => {
+			pending.set(request.id, { request, resolve });
+			active.postMessage(request);
+		});
+	};
+
+	return {
+		decode: async (text) => {
+			const response = await send({ type: 'decode', text });
+			if (response.type !== 'decode') throw new Error('Unexpected pipeline response');
+			return response.result;
+		},
+		rank: async (elements, reference) => {
+			const response = await send({ type: 'rank', elements, reference });
+			if (response.type !== 'rank') throw new Error('Unexpected pipeline response');
+			return response.result;
+		},
+		dispose: stopWorker,
+	};
+}
+
+let defaultPipeline: FacilityPipeline | null = null;
+
+/**
+ * Get the shared application pipeline (created on first use)
+ */
+export function getDefaultPipeline(): FacilityPipeline {
+	if (!defaultPipeline) {
+		defaultPipeline = createPipeline();
+	}
+	return defaultPipeline;
+}
@@ -0,0 +1,189 @@
+/**
+ * Predictive prefetching
+ * While the user pans, grid cells just beyond the viewport in the pan direction are loaded
+ * during idle time, so facilities are already there when the map edge comes into view.
+ * Prefetches run one at a time and within a request budget
+ */
+
+import { FACILITY_CACHE_TTL, FACILITY_GRID_ZOOM, PREFETCH } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import * as logger from '../../utils/logger';
+import type { PanMotion } from '../navigation/navigation';
+import type { GridCell } from './grid';
+import { cellKey, cellsForBounds } from './grid';
+
+/**
+ * Load cells into the cache
+ * @returns Whether the cells were loaded; failed cells may be prefetched again later
+ */
+export type PrefetchTask = (cells: readonly GridCell[], signal: AbortSignal) => Promise<boolean>;
+
+/**
+ * Options for the prefetcher
+ */
+export type PrefetcherOptions = {
+	readonly prefetch: PrefetchTask;
+	/** Checked when a prefetch is due; a busy app postpones it to the next idle period */
+	readonly isIdle?: () => boolean;
+	/** Run a callback when the browser is idle; returns a function cancelling it */
+	readonly requestIdle?: (callback: () => void) => () => void;
+	readonly now?: () => number;
+	readonly ttl?: number; // How long prefetched cells are not prefetched again
+};
+
+/**
+ * Prefetcher instance
+ */
+export type Prefetcher = {
+	/** Prefetch ahead of a pan at the next idle time, replacing any prefetch not started yet */
+	readonly schedule: (bbox: BoundingBox, motion: PanMotion) => void;
+	/** Drop the scheduled prefetch and abort the running one */
+	readonly cancel: () => void;
+};
+
+/**
+ * Grid cells next to a viewport in the pan direction, closest and best aligned first
+ * Fast pans look two rings of cells ahead, others one
+ */
+export function cellsAhead(
+	bbox: BoundingBox,
+	motion: PanMotion,
+	maxCells: number = PREFETCH.maxCells
+): GridCell[] {
+	if (motion.speed < PREFETCH.minSpeed) {
+		return [];
+	}
+
+	const visible = cellsForBounds(bbox, FACILITY_GRID_ZOOM);
+	const xs = visible.map((cell) => cell.x);
+	const ys = visible.map((cell) => cell.y);
+	const minX = Math.min(...xs);
+	const maxX = Math.max(...xs);
+	const minY = Math.min(...ys);
+	const maxY = Math.max(...ys);
+	const depth = motion.speed >= PREFETCH.fastSpeed ? 2 : 1;
+	const size = 2 ** FACILITY_GRID_ZOOM;
+
+	const candidates: { cell: GridCell; ring: number; alignment: number }[] = [];
+	for (let y = minY - depth; y <= maxY + depth; y++) {
+		for (let x = minX - depth; x <= maxX + depth; x++) {
+			if (x < 0 || y < 0 || x >= size || y >= size) continue;
+
+			// Offset from the viewport's cell range; tile rows grow southwards like screen y
+			const offsetX = x < minX ? x - minX : x > maxX ? x - maxX : 0;
+			const offsetY = y < minY ? y - minY : y > maxY ? y - maxY : 0;
+			if (offsetX === 0 && offsetY === 0) continue;
+
+			const alignment = (offsetX * motion.dx + offsetY * motion.dy) / Math.hypot(offsetX, offsetY);
+			if (alignment < PREFETCH.minAlignment) continue;
+
+			candidates.push({
+				cell: { x, y, z: FACILITY_GRID_ZOOM },
+				ring: Math.max(Math.abs(offsetX), Math.abs(offsetY)),
+				alignment,
+			});
+		}
+	}
+
+	return candidates
+		.sort((a, b) => a.ring - b.ring || b.alignment - a.alignment)
+		.slice(0, maxCells)
+		.map(({ cell }) => cell);
+}
+
+/**
+ * Run a callback when the browser is idle, or after a short delay without requestIdleCallback
+ */
+function requestIdle(callback: () => void): () => void {
+	if (typeof requestIdleCallback === 'function') {
+		const id = requestIdleCallback(callback, { timeout: PREFETCH.idleTimeout });
+		return () => cancelIdleCallback(id);
+	}
+	const timer = setTimeout(callback, 200);
+	return () => clearTimeout(timer);
+}
+
+/**
+ * Create a prefetcher
+ */
+export function createPrefetcher(options: PrefetcherOptions): Prefetcher {
+	const now = options.now ?? Date.now;
+	const ttl = options.ttl ?? FACILITY_CACHE_TTL;
+	const idle = options.requestIdle ?? requestIdle;
+
+	const prefetchedAt: Map<string, number> = new Map();
+	let requestTimes: number[] = [];
+	let cancelPending: (() => void) | null = null;
+	let running: AbortController | null = null;
+
+	const hasBudget = (): boolean => {
+		const windowStart = now() - PREFETCH.windowMs;
+		requestTimes = requestTimes.filter((time) => time > windowStart);
+		return requestTimes.length < PREFETCH.maxRequests;
+	};
+
+	const isFresh = (cell: GridCell): boolean => {
+		const at = prefetchedAt.get(cellKey(cell));
+		return at !== undefined && now() - at < ttl;
+	};
+
+	const run = async (cells: readonly GridCell[]): Promise<void> => {
+		const controller = new AbortController();
+		running = controller;
+		requestTimes.push(now());
+		for (const cell of cells) {
+			prefetchedAt.set(cellKey(cell), now());
+		}
+
+		let loaded = false;
+		try {
+			loaded = await options.prefetch(cells, controller.signal);
+		} catch (error) {
+			logger.warn('Prefetch failed:', error);
+		} finally {
+			if (running === controller) running = null;
+		}
+
+		if (!loaded || controller.signal.aborted) {
+			for (const cell of cells) {
+				prefetchedAt.delete(cellKey(cell));
+			}
+		}
+	};
+
+	const schedule: Prefetcher['schedule'] = (bbox, motion) => {
+		cancelPending?.();
+
+		const due = (): void => {
+			cancelPending = null;
+			// Wait for the running prefetch and for loads the user is waiting on
+			if (running || !(options.isIdle?.() ?? true)) {
+				cancelPending = idle(due);
+				return;
+			}
+
+			const cells = cellsAhead(bbox, motion, Number.POSITIVE_INFINITY)
+				.filter((cell) => !isFresh(cell))
+				.slice(0, PREFETCH.maxCells);
+			if (cells.length === 0) return;
+
+			if (!hasBudget()) {
+				logger.info('Prefetch budget used up, skipping');
+				return;
+			}
+			void run(cells);
+		};
+
+		cancelPending = idle(due);
+	};
+
+	return {
+		schedule,
+		cancel: () => {
+			cancelPending?.();
+			cancelPending = null;
+			running?.abort();
+			running = null;
+		},
+	};
+}
@@ -0,0 +1,127 @@
+/**
+ * Overpass query composition
+ * Unions the query parts of several layers into one request and
+ * splits the response back to each layer by its tag filters
+ */
+
+import type { Element } from '../../types/overpass';
+
+/**
+ * A layer's Overpass query
+ */
+export type FacilityQuery = {
+	readonly key: string; // Layer / cache namespace, e.g. 'water'
+	readonly oql: string; // Overpass QL with [bbox] placeholder
+};
+
+/**
+ * Tag condition from a query statement; value null means "tag present"
+ */
+export type TagCondition = {
+	readonly key: string;
+	readonly value: string | null;
+};
+
+/**
+ * Statement lines inside the union block, e.g. node["amenity"="toilets"]([bbox]);
+ */
+const STATEMENT_PATTERN = /^\s*(node|way|relation|nwr)\[.*;\s*$/;
+
+/**
+ * Tag conditions within a statement: ["key"="value"] or ["key"]
+ */
+const CONDITION_PATTERN = /\["([^"]+)"(?:="([^"]*)")?\]/g;
+
+/**
+ * Extract the union statements from an Overpass QL query
+ * @param oql - Query in the form used by src/oql/*.overpassql
+ * @returns Statement lines, trimmed, in source order
+ */
+export function extractQueryParts(oql: string): string[] {
+	return oql
+		.split('\n')
+		.filter((line) => STATEMENT_PATTERN.test(line))
+		.map((line) => line.trim());
+}
+
+/**
+ * Compose one query from union statements
+ * @param parts - Statements returned by extractQueryParts
+ * @returns Overpass QL query with [bbox] placeholders preserved
+ */
+export function composeQuery(parts: readonly string[]): string {
+	return [
+		'[out:json][timeout:25];',
+		'(',
+		...parts.map((part) => `  ${part}`),
+		');',
+		'out body center;',
+		'>;',
+		'out skel qt;',
+	].join('\n');
+}
+
+/**
+ * Compose a single query covering several layers, without duplicate statements
+ */
+export function composeLayerQuery(queries: readonly FacilityQuery[]): string {
+	const parts = queries.flatMap((query) => extractQueryParts(query.oql));
+	return composeQuery([...new Set(parts)]);
+}
+
+/**
+ * Extract tag conditions per statement
+ * @returns One condition list per statement; an element matches a statement when all its conditions hold
+ */
+export function extractTagFilters(oql: string): TagCondition[][] {
+	return extractQueryParts(oql).map((part) =>
+		[...part.matchAll(CONDITION_PATTERN)].map((match) => ({
+			key: match[1] ?? '',
+			value: match[2] ?? null,
+		}))
+	);
+}
+
+/**
+ * Check if an element matches any statement's tag conditions
+ * A query without extractable statements matches every element
+ */
+export function elementMatchesFilters(
+	element: Element,
+	filters: readonly (readonly TagCondition[])[]
+): boolean {
+	if (filters.length === 0) {
+		return true;
+	}
+
+	const tags: Readonly<Record<string, string | undefined>> = element.tags ?? {};
+	return filters.some((conditions) =>
+		conditions.every((condition) => {
+			const value = tags[condition.key];
+			return condition.value === null ? value !== undefined : value === condition.value;
+		})
+	);
+}
+
+/**
+ * Split a combined response back to each layer by its tag filters
+ * Elements matching no layer (e.g. tagless skeleton nodes) are dropped;
+ * elements matching several layers appear in each of them
+ * @returns Elements per layer key
+ */
+export function splitElementsByQuery(
+	elements: readonly Element[],
+	queries: readonly FacilityQuery[]
+): Map<string, Element[]> {
+	const split: Map<string, Element[]> = new Map();
+
+	for (const query of queries) {
+		const filters = extractTagFilters(query.oql);
+		split.set(
+			query.key,
+			elements.filter((element) => elementMatchesFilters(element, filters))
+		);
+	}
+
+	return split;
+}
@@ -0,0 +1,176 @@
+/**
+ * Overpass rate-limit handling
+ * Overpass gives each client IP a few query slots and answers 429/504 when they
+ * run out. The wait until a slot frees up comes from the Retry-After header
+ * or from the endpoint's /api/status page
+ */
+
+import { OVERPASS_RETRY } from '../../core/config';
+
+/**
+ * HTTP statuses Overpass uses when the client is out of slots or the server is saturated
+ */
+export const RATE_LIMIT_STATUSES: ReadonlySet<number> = new Set([429, 504]);
+
+/**
+ * Parse a Retry-After header value
+ * @param value - Delay in seconds or an HTTP date
+ * @param now - Current time in epoch ms
+ * @returns Wait in ms, or null if absent or unparseable
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+	if (!value) {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	if (/^\d+$/.test(trimmed)) {
+		return Number(trimmed) * 1000;
+	}
+
+	const date = Date.parse(trimmed);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Parse the plain-text /api/status page
+ * Lines look like "2 slots available now." or
+ * "Slot available after: 2025-01-01T10:00:12Z, in 12 seconds."
+ * @returns Wait in ms until the next free slot, or null if the page has no slot information
+ */
+export function parseSlotStatus(text: string): number | null {
+	if (/\d+ slots? available now/.test(text)) {
+		return 0;
+	}
+
+	const waits = [...text.matchAll(/Slot available after: .*?, in (-?\d+) seconds?\./g)].map(
+		(match) => Math.max(0, Number(match[1])) * 1000
+	);
+	return waits.length > 0 ? Math.min(...waits) : null;
+}
+
+/**
+ * Status page URL for an interpreter endpoint
+ * @returns URL, or null if the endpoint doesn't follow the /api/interpreter layout
+ */
+export function statusUrl(endpoint: string): string | null {
+	return endpoint.endsWith('/interpreter') ? endpoint.replace(/\/interpreter$/, '/status') : null;
+}
+
+/**
+ * Ask an endpoint when its next slot frees up
+ * Mirrors without a status page, or any failure, yield null
+ * @param endpoint - Interpreter endpoint URL
+ * @param signal - Optional cancellation signal
+ * @returns Wait in ms, or null if unknown
+ */
+export async function fetchSlotWait(
+	endpoint: string,
+	signal?: AbortSignal
+): Promise<number | null> {
+	const url = statusUrl(endpoint);
+	if (!url) {
+		return null;
+	}
+
+	try {
+		const response = await fetch(url, signal ? { signal } : {});
+		return response.ok ? parseSlotStatus(await response.text()) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Exponential backoff delay with jitter
+ * Half of the delay is fixed and half random, so retries spread out
+ * without ever firing immediately
+ * @param attempt - Retry number, starting at 0
+ * @param random - Random source in [0, 1)
+ * @returns Delay in ms, capped at OVERPASS_RETRY.maxDelayMs
+ */
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+	const capped = Math.min(OVERPASS_RETRY.baseDelayMs * 2 ** attempt, OVERPASS_RETRY.maxDelayMs);
+	return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+/**
+ * Delay before the next retry, honouring the server's wait hint
+ * @param attempt - Retry number, starting at 0
+ * @param retryAfterMs - Wait reported by the server, if any
+ */
+export function retryDelay(
+	attempt: number,
+	retryAfterMs: number | null,
+	random: () => number = Math.random
+): number {
+	return Math.max(retryAfterMs ?? 0, backoffDelay(attempt, random));
+}
+
+/**
+ * A scheduled retry
+ */
+export type ScheduledRetry = {
+	readonly attempt: number; // Retry number, starting at 0
+	readonly delayMs: number;
+	readonly at: number; // Epoch ms when the retry runs
+};
+
+/**
+ * Retry scheduler instance - at most one retry is pending at a time
+ */
+export type RetryScheduler = {
+	/**
+	 * Schedule a retry, replacing any pending one
+	 * @param retryAfterMs - Wait reported by the server, if any
+	 * @param task - Retry to run
+	 * @returns The scheduled retry, or null when OVERPASS_RETRY.maxAttempts is used up
+	 */
+	readonly schedule: (retryAfterMs: number | null, task: () => void) => ScheduledRetry | null;
+	/** Cancel the pending retry, keeping the attempt count */
+	readonly cancel: () => void;
+	/** Cancel the pending retry and start counting attempts from zero (after a success) */
+	readonly reset: () => void;
+	/** Check if a retry is pending */
+	readonly isPending: () => boolean;
+};
+
+/**
+ * Create a retry scheduler with exponential backoff
+ * @param random - Random source for jitter
+ */
+export function createRetryScheduler(random: () => number = Math.random): RetryScheduler {
+	let attempt = 0;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	const cancel = (): void => {
+		if (timer !== null) {
+			clearTimeout(timer);
+			timer = null;
+		}
+	};
+
+	return {
+		schedule: (retryAfterMs, task) => {
+			cancel();
+			if (attempt >= OVERPASS_RETRY.maxAttempts) {
+				return null;
+			}
+
+			const delayMs = retryDelay(attempt, retryAfterMs, random);
+			const scheduled: ScheduledRetry = { attempt, delayMs, at: Date.now() + delayMs };
+			attempt += 1;
+			timer = setTimeout(() => {
+				timer = null;
+				task();
+			}, delayMs);
+			return scheduled;
+		},
+		cancel,
+		reset: () => {
+			cancel();
+			attempt = 0;
+		},
+		isPending: () => timer !== null,
+	};
+}
@@ -0,0 +1,126 @@
+/**
+ * Request manager for facility fetches
+ * Keeps at most one in-flight request per channel (e.g. per layer):
+ * a newer request aborts the older one, identical requests share one fetch,
+ * and results that arrive after being superseded are discarded
+ */
+
+/**
+ * Outcome of a managed request
+ */
+export type RequestOutcome<T> =
+	| { readonly kind: 'completed'; readonly value: T }
+	| { readonly kind: 'superseded' };
+
+/**
+ * Options for the request manager
+ */
+export type RequestManagerOptions = {
+	/** Called when the manager goes from idle to busy (true) or back (false) */
+	readonly onActivityChange?: (active: boolean) => void;
+};
+
+/**
+ * Request manager instance
+ */
+export type RequestManager<T> = {
+	/**
+	 * Run a task on a channel
+	 * @param channel - Channel name; requests on the same channel supersede each other
+	 * @param key - Request identity; a running request with the same key is reused
+	 * @param task - Task to run, receiving the signal that aborts it when superseded
+	 */
+	readonly run: (
+		channel: string,
+		key: string,
+		task: (signal: AbortSignal) => Promise<T>
+	) => Promise<RequestOutcome<T>>;
+	/** Abort the in-flight request on a channel */
+	readonly abort: (channel: string) => void;
+	/** Abort all in-flight requests */
+	readonly abortAll: () => void;
+	/** Check if any request is in flight */
+	readonly isBusy: () => boolean;
+};
+
+/**
+ * In-flight request state for one channel
+ */
+type InFlight<T> = {
+	readonly key: string;
+	readonly controller: AbortController;
+	readonly promise: Promise<T>;
+};
+
+/**
+ * Create a request manager
+ */
+export function createRequestManager<T>(options: RequestManagerOptions = {}): RequestManager<T> {
+	const inFlight: Map<string, InFlight<T>> = new Map();
+
+	const setInFlight = (channel: string, entry: InFlight<T> | null): void => {
+		const wasBusy = inFlight.size > 0;
+		if (entry) {
+			inFlight.set(channel, entry);
+		} else {
+			inFlight.delete(channel);
+		}
+		const isBusy = inFlight.size > 0;
+		if (wasBusy !== isBusy) {
+			options.onActivityChange?.(isBusy);
+		}
+	};
+
+	const abort = (channel: string): void => {
+		const current = inFlight.get(channel);
+		if (current) {
+			current.controller.abort();
+			setInFlight(channel, null);
+		}
+	};
+
+	const run = async (
+		channel: string,
+		key: string,
+		task: (signal: AbortSignal) => Promise<T>
+	): Promise<RequestOutcome<T>> => {
+		const current = inFlight.get(channel);
+		let entry: InFlight<T>;
+
+		if (current && current.key === key) {
+			// Identical request already running - share it
+			entry = current;
+		} else {
+			if (current) {
+				current.controller.abort();
+			}
+			const controller = new AbortController();
+			entry = { key, controller, promise: task(controller.signal) };
+			setInFlight(channel, entry);
+		}
+
+		// Superseded or cancelled requests have an aborted signal - discard their late results
+		try {
+			const value = await entry.promise;
+			if (entry.controller.signal.aborted) {
+				return { kind: 'superseded' };
+			}
+			return { kind: 'completed', value };
+		} finally {
+			if (inFlight.get(channel) === entry) {
+				setInFlight(channel, null);
+			}
+		}
+	};
+
+	return {
+		run,
+		abort,
+		abortAll: () => {
+			for (const channel of [...inFlight.keys()]) {
+				abort(channel);
+			}
+		},
+		isBusy: () => inFlight.size > 0,
+	};
+}
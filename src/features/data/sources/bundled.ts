@@ -0,0 +1,33 @@
+/**
+ * Bundled snapshot data source
+ * Answers instantly from the snapshot built into the app, dated by the export's OSM timestamp
+ */
+
+import { Ok } from '../../../types/result';
+import type { BundledSnapshot } from '../bundled';
+import { expandSnapshot } from '../bundled';
+import { bboxContains } from '../grid';
+import { splitElementsByQuery } from '../query';
+import type { FacilityDataSource } from './types';
+
+/**
+ * Create a data source serving a bundled snapshot
+ */
+export function createBundledSource(snapshot: BundledSnapshot): FacilityDataSource {
+	const elements = expandSnapshot(snapshot);
+	const parsedBase = snapshot.osmBase ? Date.parse(snapshot.osmBase) : Number.NaN;
+	const cachedAt = Number.isNaN(parsedBase) ? null : parsedBase;
+
+	return {
+		name: 'bundled',
+		queryBounds: async (queries, bbox) =>
+			Ok({
+				elementsByKey: splitElementsByQuery(
+					elements.filter((element) => bboxContains(bbox, element.lat, element.lon)),
+					queries
+				),
+				endpoint: null,
+				cachedAt,
+			}),
+	};
+}
@@ -0,0 +1,98 @@
+/**
+ * Composite data source
+ * Queries several sources at once and merges their elements
+ */
+
+import type { FetchError } from '../../../types/errors';
+import type { Element } from '../../../types/overpass';
+import type { Result } from '../../../types/result';
+import { Err, isOk, mapResult, Ok } from '../../../types/result';
+import * as logger from '../../../utils/logger';
+import { mergeElements } from '../cachedFetch';
+import type { FacilityQuery } from '../query';
+import { countSourceCells } from './counts';
+import type { FacilityDataSource, SourceResult } from './types';
+
+/**
+ * Results of the sources that succeeded
+ * Fails when none did, or with the cancellation if any source was cancelled
+ */
+function collectSucceeded<T>(
+	sources: readonly FacilityDataSource[],
+	results: readonly Result<T, FetchError>[]
+): Result<T[], FetchError> {
+	const succeeded: T[] = [];
+	const errors: FetchError[] = [];
+	for (const [index, result] of results.entries()) {
+		if (isOk(result)) {
+			succeeded.push(result.value);
+		} else {
+			errors.push(result.error);
+			logger.warn(`Facility source ${sources[index]?.name} failed:`, result.error.message);
+		}
+	}
+
+	const aborted = errors.find((error) => error.type === 'aborted');
+	if (aborted || succeeded.length === 0) {
+		return Err(
+			aborted ?? errors[0] ?? { type: 'network', message: 'No facility sources configured' }
+		);
+	}
+	return Ok(succeeded);
+}
+
+/**
+ * Create a data source merging several sources
+ * - Sources are queried in parallel; on duplicates the earlier source wins
+ * - Failed sources are skipped as long as one succeeds
+ * - The result is dated by its oldest cached part
+ * - Sources overlap, so a cell is counted as its largest count rather than the sum
+ * @param sources - Sources in order of precedence
+ */
+export function createCompositeSource(sources: readonly FacilityDataSource[]): FacilityDataSource {
+	return {
+		name: `composite(${sources.map((source) => source.name).join(', ')})`,
+		queryBounds: async (queries, bbox, options = {}) => {
+			const results = await Promise.all(
+				sources.map((source) => source.queryBounds(queries, bbox, options))
+			);
+			return mapResult(collectSucceeded(sources, results), (succeeded) =>
+				mergeResults(queries, succeeded)
+			);
+		},
+		countCells: async (targets, options = {}) => {
+			const results = await Promise.all(
+				sources.map((source) => countSourceCells(source, targets, options))
+			);
+			return mapResult(collectSucceeded(sources, results), (succeeded) =>
+				targets.map((_, i) => Math.max(...succeeded.map((counts) => counts[i] ?? 0)))
+			);
+		},
+	};
+}
+
+/**
+ * Merge successful results per layer
+ */
+function mergeResults(
+	queries: readonly FacilityQuery[],
+	results: readonly SourceResult[]
+): SourceResult {
+	const elementsByKey: Map<string, Element[]> = new Map();
+	for (const query of queries) {
+		elementsByKey.set(
+			query.key,
+			mergeElements(results.map((result) => result.elementsByKey.get(query.key) ?? []))
+		);
+	}
+
+	const cachedAts = results.flatMap((result) =>
+		result.cachedAt === null ? [] : [result.cachedAt]
+	);
+
+	return {
+		elementsByKey,
+		endpoint: results.find((result) => result.endpoint !== null)?.endpoint ?? null,
+		cachedAt: cachedAts.length > 0 ? Math.min(...cachedAts) : null,
+	};
+}
@@ -0,0 +1,68 @@
+/**
+ * Facility counts per grid cell from any data source
+ * Sources that count themselves are asked directly; the others are queried cell by cell and
+ * the elements they return are counted
+ */
+
+import type { FetchError } from '../../../types/errors';
+import type { Result } from '../../../types/result';
+import { Err, isOk, Ok } from '../../../types/result';
+import { bboxContains, cellBounds, cellKey } from '../grid';
+import type { CountTarget, FacilityDataSource, SourceQueryOptions } from './types';
+
+/**
+ * Count targets by listing their elements, with one query per cell
+ */
+async function countFromBounds(
+	source: FacilityDataSource,
+	targets: readonly CountTarget[],
+	options: SourceQueryOptions
+): Promise<Result<number[], FetchError>> {
+	const byCell: Map<string, CountTarget[]> = new Map();
+	for (const target of targets) {
+		const key = cellKey(target.cell);
+		byCell.set(key, [...(byCell.get(key) ?? []), target]);
+	}
+
+	const counts: Map<CountTarget, number> = new Map();
+	for (const cellTargets of byCell.values()) {
+		if (options.signal?.aborted) {
+			return Err({ type: 'aborted', message: 'Request was cancelled' });
+		}
+
+		const [first] = cellTargets;
+		if (!first) continue;
+		const bbox = cellBounds(first.cell);
+		const result = await source.queryBounds(
+			cellTargets.map((target) => target.query),
+			bbox,
+			options
+		);
+		if (!isOk(result)) return result;
+
+		// Sources backed by the cell cache answer with whole cache cells around the box
+		for (const target of cellTargets) {
+			const elements = result.value.elementsByKey.get(target.query.key) ?? [];
+			counts.set(
+				target,
+				elements.filter((element) => bboxContains(bbox, element.lat, element.lon)).length
+			);
+		}
+	}
+
+	return Ok(targets.map((target) => counts.get(target) ?? 0));
+}
+
+/**
+ * Count the elements of each target in a source
+ * @returns Counts in target order, or the source's fetch error
+ */
+export function countSourceCells(
+	source: FacilityDataSource,
+	targets: readonly CountTarget[],
+	options: SourceQueryOptions = {}
+): Promise<Result<number[], FetchError>> {
+	return source.countCells
+		? source.countCells(targets, options)
+		: countFromBounds(source, targets, options);
+}
@@ -0,0 +1,35 @@
+/**
+ * Facility data source factory
+ * Builds the configured source so callers never depend on a concrete backend
+ */
+
+import snapshot from 'virtual:facility-snapshot';
+import type { DataSourceConfig } from '../../../core/config';
+import { FACILITY_DATA_SOURCE } from '../../../core/config';
+import { createBundledSource } from './bundled';
+import { createCompositeSource } from './composite';
+import { createGeoJsonSource } from './geojson';
+import { createOverpassSource } from './overpass';
+import { createSnapshotSource } from './snapshot';
+import type { FacilityDataSource } from './types';
+
+/**
+ * Create a data source from its configuration
+ * @param config - Source configuration (default: FACILITY_DATA_SOURCE)
+ */
+export function createDataSource(
+	config: DataSourceConfig = FACILITY_DATA_SOURCE
+): FacilityDataSource {
+	switch (config.type) {
+		case 'overpass':
+			return createOverpassSource();
+		case 'geojson':
+			return createGeoJsonSource({ url: config.url });
+		case 'snapshot':
+			return createSnapshotSource();
+		case 'bundled':
+			return createBundledSource(snapshot);
+		case 'composite':
+			return createCompositeSource(config.sources.map((source) => createDataSource(source)));
+	}
+}
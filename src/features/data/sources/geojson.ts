@@ -0,0 +1,217 @@
+/**
+ * GeoJSON data source
+ * Serves a static FeatureCollection (e.g. a curated dataset or an osmtogeojson export),
+ * loaded once and filtered per query by bounds and layer tags
+ */
+
+import type { FetchError, ParseError } from '../../../types/errors';
+import type { Element, ElementType, LatLon, Tags } from '../../../types/overpass';
+import type { Result } from '../../../types/result';
+import { Err, isOk, Ok } from '../../../types/result';
+import * as logger from '../../../utils/logger';
+import { outlineCenter } from '../elements';
+import { bboxContains } from '../grid';
+import { splitElementsByQuery } from '../query';
+import type { FacilityDataSource } from './types';
+
+/**
+ * Options for the GeoJSON source
+ */
+export type GeoJsonSourceOptions = {
+	readonly url: string;
+};
+
+type JsonObject = Readonly<Record<string, unknown>>;
+
+const ELEMENT_TYPES: ReadonlySet<string> = new Set<ElementType>(['node', 'way', 'relation']);
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a GeoJSON position ([lon, lat])
+ */
+function toLatLon(position: unknown): LatLon | null {
+	if (!Array.isArray(position)) return null;
+	const [lon, lat] = position;
+	if (typeof lat !== 'number' || typeof lon !== 'number') return null;
+	return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null;
+}
+
+/**
+ * Read a ring of positions, dropping the whole ring if any position is invalid
+ */
+function toRing(positions: unknown): LatLon[] | null {
+	if (!Array.isArray(positions)) return null;
+	const ring = positions.map(toLatLon);
+	return ring.every((point) => point !== null) ? (ring as LatLon[]) : null;
+}
+
+/**
+ * Outline rings of a line or (multi)polygon geometry
+ * Only outer rings of polygons are kept, matching Overpass relation outlines
+ */
+function geometryRings(geometry: JsonObject): LatLon[][] | null {
+	const { type, coordinates } = geometry;
+	if (!Array.isArray(coordinates)) return null;
+
+	let rings: unknown[];
+	if (type === 'LineString') {
+		rings = [coordinates];
+	} else if (type === 'MultiLineString') {
+		rings = coordinates;
+	} else if (type === 'Polygon') {
+		rings = coordinates.slice(0, 1);
+	} else if (type === 'MultiPolygon') {
+		rings = coordinates.map((polygon) => (Array.isArray(polygon) ? polygon[0] : null));
+	} else {
+		return null;
+	}
+
+	const decoded = rings.map(toRing);
+	return decoded.every((ring) => ring !== null) ? (decoded as LatLon[][]) : null;
+}
+
+/**
+ * OSM type and id from a feature id such as "node/123" (or "@id" property), defaulting to node
+ */
+function featureIdentity(feature: JsonObject): { type: ElementType; id: number } | null {
+	const properties = isObject(feature.properties) ? feature.properties : {};
+	const raw = feature.id ?? properties['@id'] ?? properties.id;
+
+	if (typeof raw === 'number' && Number.isInteger(raw)) {
+		return { type: 'node', id: raw };
+	}
+	if (typeof raw !== 'string') return null;
+
+	const match = /^(?:(node|way|relation)\/)?(\d+)$/.exec(raw);
+	if (!match?.[2]) return null;
+	const type = match[1] && ELEMENT_TYPES.has(match[1]) ? (match[1] as ElementType) : 'node';
+	return { type, id: Number(match[2]) };
+}
+
+/**
+ * Feature properties as OSM tags, skipping metadata ("@id", "id") and non-scalar values
+ */
+function featureTags(properties: unknown): Tags {
+	const tags: Record<string, string> = {};
+	if (!isObject(properties)) return tags;
+
+	for (const [key, value] of Object.entries(properties)) {
+		if (key.startsWith('@') || key === 'id') continue;
+		if (typeof value === 'string') {
+			tags[key] = value;
+		} else if (typeof value === 'number' || typeof value === 'boolean') {
+			tags[key] = String(value);
+		}
+	}
+	return tags;
+}
+
+/**
+ * Decode one feature, or null when it is unusable
+ */
+function decodeFeature(feature: unknown): Element | null {
+	if (!isObject(feature) || !isObject(feature.geometry)) return null;
+
+	const identity = featureIdentity(feature);
+	if (!identity) return null;
+
+	const tags = featureTags(feature.properties);
+	const { geometry } = feature;
+
+	if (geometry.type === 'Point') {
+		const point = toLatLon(geometry.coordinates);
+		return point ? { ...identity, ...point, tags } : null;
+	}
+
+	const outline = geometryRings(geometry);
+	const center = outline ? outlineCenter(outline) : null;
+	return outline && center ? { ...identity, ...center, tags, outline } : null;
+}
+
+/**
+ * Decode a GeoJSON FeatureCollection into facility elements
+ * Unusable features (no id, unsupported or invalid geometry) are dropped with a warning
+ */
+export function decodeGeoJson(payload: unknown): Result<Element[], ParseError> {
+	if (!isObject(payload) || payload.type !== 'FeatureCollection') {
+		return Err({ type: 'invalid_format', message: 'Expected a GeoJSON FeatureCollection' });
+	}
+	if (!Array.isArray(payload.features)) {
+		return Err({
+			type: 'missing_required_field',
+			field: 'features',
+			message: 'FeatureCollection has no features array',
+		});
+	}
+
+	const elements = payload.features.map(decodeFeature);
+	const dropped = elements.filter((element) => element === null).length;
+	if (dropped > 0) {
+		logger.warn(`Dropped ${dropped} unusable GeoJSON features`);
+	}
+
+	return Ok(elements.filter((element): element is Element => element !== null));
+}
+
+/**
+ * Download and decode the GeoJSON file
+ */
+async function loadGeoJson(url: string): Promise<Result<Element[], FetchError>> {
+	let payload: unknown;
+	try {
+		const response = await fetch(url);
+		if (!response.ok) {
+			return Err({ type: 'network', message: `HTTP ${response.status} loading ${url}` });
+		}
+		payload = await response.json();
+	} catch (err) {
+		if (err instanceof SyntaxError) {
+			return Err({ type: 'parse', message: `Invalid JSON in ${url}` });
+		}
+		return Err({
+			type: 'network',
+			message: err instanceof Error ? err.message : `Failed to load ${url}`,
+		});
+	}
+
+	const decoded = decodeGeoJson(payload);
+	return isOk(decoded)
+		? decoded
+		: Err({ type: 'parse', message: decoded.error.message, cause: decoded.error });
+}
+
+/**
+ * Create a data source serving a static GeoJSON file
+ * The file is downloaded on the first query; a failed download is retried on the next one
+ */
+export function createGeoJsonSource(options: GeoJsonSourceOptions): FacilityDataSource {
+	let loading: Promise<Result<Element[], FetchError>> | null = null;
+
+	return {
+		name: `geojson(${options.url})`,
+		queryBounds: async (queries, bbox, queryOptions = {}) => {
+			loading ??= loadGeoJson(options.url);
+			const loaded = await loading;
+
+			if (queryOptions.signal?.aborted) {
+				return Err({ type: 'aborted', message: 'Request was cancelled' });
+			}
+			if (!isOk(loaded)) {
+				loading = null;
+				return loaded;
+			}
+
+			return Ok({
+				elementsByKey: splitElementsByQuery(
+					loaded.value.filter((element) => bboxContains(bbox, element.lat, element.lon)),
+					queries
+				),
+				endpoint: options.url,
+				cachedAt: null,
+			});
+		},
+	};
+}
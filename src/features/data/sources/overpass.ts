@@ -0,0 +1,34 @@
+/**
+ * Overpass data source
+ * Live OSM data through the grid cell cache, counted with "out count" queries
+ */
+
+import { fetchLayersCachedInBBox } from '../cachedFetch';
+import type { CellStore } from '../cellCache';
+import { getDefaultCellStore } from '../cellCache';
+import { countCells } from '../cellCounts';
+import type { FacilityDataSource } from './types';
+
+/**
+ * Options for the Overpass source
+ */
+export type OverpassSourceOptions = {
+	readonly store?: CellStore;
+	readonly ttl?: number;
+};
+
+/**
+ * Create a data source querying Overpass through the cell cache
+ */
+export function createOverpassSource(options: OverpassSourceOptions = {}): FacilityDataSource {
+	return {
+		name: 'overpass',
+		queryBounds: (queries, bbox, queryOptions = {}) =>
+			fetchLayersCachedInBBox(queries, bbox, { ...options, ...queryOptions }),
+		countCells: (targets, queryOptions = {}) =>
+			countCells(targets, {
+				store: options.store ?? getDefaultCellStore(),
+				...(queryOptions.signal ? { signal: queryOptions.signal } : {}),
+			}),
+	};
+}
@@ -0,0 +1,54 @@
+/**
+ * Snapshot data source
+ * Answers from the facility cells stored in IndexedDB, whatever their age, without network access
+ */
+
+import { FACILITY_GRID_MAX_CELLS, FACILITY_GRID_ZOOM } from '../../../core/config';
+import type { Element } from '../../../types/overpass';
+import { Ok } from '../../../types/result';
+import { mergeElements } from '../cachedFetch';
+import type { CellStore } from '../cellCache';
+import { getDefaultCellStore } from '../cellCache';
+import { cellKey, cellsForBounds, countCellsForBounds } from '../grid';
+import type { FacilityDataSource } from './types';
+
+/**
+ * Options for the snapshot source
+ */
+export type SnapshotSourceOptions = {
+	readonly store?: CellStore;
+};
+
+/**
+ * Create a data source reading stored cells only
+ * Cells that were never stored are simply empty; the result is dated by its oldest cell
+ */
+export function createSnapshotSource(options: SnapshotSourceOptions = {}): FacilityDataSource {
+	return {
+		name: 'snapshot',
+		queryBounds: async (queries, bbox) => {
+			if (countCellsForBounds(bbox, FACILITY_GRID_ZOOM) > FACILITY_GRID_MAX_CELLS) {
+				return Ok({
+					elementsByKey: new Map(queries.map((query) => [query.key, []])),
+					endpoint: null,
+					cachedAt: null,
+				});
+			}
+
+			const store = options.store ?? getDefaultCellStore();
+			const keys = cellsForBounds(bbox, FACILITY_GRID_ZOOM).map((cell) => cellKey(cell));
+			const elementsByKey: Map<string, Element[]> = new Map();
+			let cachedAt: number | null = null;
+
+			for (const query of queries) {
+				const cells = [...(await store.get(query.key, keys)).values()];
+				elementsByKey.set(query.key, mergeElements(cells.map((cell) => cell.elements)));
+				for (const cell of cells) {
+					cachedAt = cachedAt === null ? cell.fetchedAt : Math.min(cachedAt, cell.fetchedAt);
+				}
+			}
+
+			return Ok({ elementsByKey, endpoint: null, cachedAt });
+		},
+	};
+}
@@ -0,0 +1,54 @@
+/**
+ * Facility data source interface
+ * Every source answers the same question: which elements of each layer lie in an area.
+ * Sources that can count without listing elements also answer how many lie in each grid cell
+ */
+
+import type { BoundingBox } from '../../../types/domain';
+import type { FetchError } from '../../../types/errors';
+import type { Element } from '../../../types/overpass';
+import type { Result } from '../../../types/result';
+import type { GridCell } from '../grid';
+import type { FacilityQuery } from '../query';
+
+/**
+ * Elements found by a source, per layer key
+ */
+export type SourceResult = {
+	readonly elementsByKey: ReadonlyMap<string, Element[]>;
+	readonly endpoint: string | null; // Serving endpoint or file, null when answered locally
+	readonly cachedAt: number | null; // Set when the data is older than a live response
+};
+
+/**
+ * Options for a source query
+ */
+export type SourceQueryOptions = {
+	readonly signal?: AbortSignal;
+	readonly ttl?: number; // Max age of cached data to reuse, 0 to refetch (if the source caches)
+};
+
+/**
+ * A layer to count in a grid cell
+ */
+export type CountTarget = {
+	readonly cell: GridCell;
+	readonly query: FacilityQuery;
+};
+
+/**
+ * Provider of facility elements
+ */
+export type FacilityDataSource = {
+	readonly name: string; // For logging
+	readonly queryBounds: (
+		queries: readonly FacilityQuery[],
+		bbox: BoundingBox,
+		options?: SourceQueryOptions
+	) => Promise<Result<SourceResult, FetchError>>;
+	/** Count each target, in target order; without it, counts are taken from queryBounds */
+	readonly countCells?: (
+		targets: readonly CountTarget[],
+		options?: SourceQueryOptions
+	) => Promise<Result<number[], FetchError>>;
+};
@@ -0,0 +1,220 @@
+/**
+ * Spatial index over loaded facilities
+ * Items are bucketed into slippy-map tiles at a fixed zoom, so areas can be replaced
+ * incrementally as grid cells load. Nearest-neighbour search widens ring by ring
+ * around the query point and stops once no unvisited tile can hold a closer item
+ */
+
+import { SPATIAL_INDEX_ZOOM } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import type { LatLon } from '../../types/overpass';
+import { haversineDistance } from '../../utils/geometry';
+import type { GridCell } from './grid';
+import { bboxContains, cellBounds, cellForPoint, cellKey, cellsForBounds } from './grid';
+
+/**
+ * Item found by a distance query
+ */
+export type Neighbour<T> = {
+	readonly item: T;
+	readonly distance: number; // Metres
+};
+
+/**
+ * Item predicate applied before distance ranking (e.g. "wheelchair accessible")
+ */
+export type ItemFilter<T> = (item: T) => boolean;
+
+/**
+ * Options for a spatial index
+ */
+export type SpatialIndexOptions<T> = {
+	readonly getKey: (item: T) => string; // Stable identity; inserting a known key replaces it
+	readonly getPosition: (item: T) => LatLon;
+	readonly zoom?: number; // Bucket tile zoom
+};
+
+/**
+ * Spatial index instance
+ */
+export type SpatialIndex<T> = {
+	readonly size: () => number;
+	/** Add items, replacing items with the same key */
+	readonly insert: (items: readonly T[]) => void;
+	/** Remove items by key */
+	readonly remove: (keys: readonly string[]) => void;
+	/** Make an area hold exactly the given items (items loaded for it) */
+	readonly replaceInBounds: (bbox: BoundingBox, items: readonly T[]) => void;
+	readonly clear: () => void;
+	/** The k nearest items, nearest first */
+	readonly nearest: (point: LatLon, k?: number, filter?: ItemFilter<T>) => Neighbour<T>[];
+	/** Items within a radius in metres, nearest first */
+	readonly withinRadius: (point: LatLon, radius: number, filter?: ItemFilter<T>) => Neighbour<T>[];
+	/** Items inside a bounding box */
+	readonly withinBounds: (bbox: BoundingBox, filter?: ItemFilter<T>) => T[];
+};
+
+/**
+ * Items of one tile
+ */
+type Bucket<T> = {
+	readonly cell: GridCell;
+	readonly items: Map<string, T>;
+};
+
+/**
+ * Metres per degree of latitude
+ */
+const METRES_PER_DEGREE = 111_320;
+
+/**
+ * Shortest distance from a point inside a box to the box's edge
+ * Measured along the point's meridian and parallel, slightly reduced to stay a lower bound
+ */
+function distanceToEdge(point: LatLon, box: BoundingBox): number {
+	return (
+		0.99 *
+		Math.min(
+			haversineDistance(point.lat, point.lon, box.north, point.lon),
+			haversineDistance(point.lat, point.lon, box.south, point.lon),
+			haversineDistance(point.lat, point.lon, point.lat, box.west),
+			haversineDistance(point.lat, point.lon, point.lat, box.east)
+		)
+	);
+}
+
+/**
+ * Bounding box of a circle, for collecting candidate tiles
+ */
+function radiusBounds(point: LatLon, radius: number): BoundingBox {
+	const dLat = radius / METRES_PER_DEGREE;
+	const dLon = radius / (METRES_PER_DEGREE * Math.max(Math.cos((point.lat * Math.PI) / 180), 0.01));
+	return {
+		south: point.lat - dLat,
+		west: point.lon - dLon,
+		north: point.lat + dLat,
+		east: point.lon + dLon,
+	};
+}
+
+/**
+ * Create an empty spatial index
+ */
+export function createSpatialIndex<T>(options: SpatialIndexOptions<T>): SpatialIndex<T> {
+	const { getKey, getPosition } = options;
+	const zoom = options.zoom ?? SPATIAL_INDEX_ZOOM;
+	const buckets: Map<string, Bucket<T>> = new Map();
+	const bucketOf: Map<string, string> = new Map(); // Item key -> bucket key
+
+	const remove = (keys: readonly string[]): void => {
+		for (const key of keys) {
+			const bucketKey = bucketOf.get(key);
+			if (bucketKey === undefined) continue;
+
+			const bucket = buckets.get(bucketKey);
+			bucket?.items.delete(key);
+			if (bucket?.items.size === 0) buckets.delete(bucketKey);
+			bucketOf.delete(key);
+		}
+	};
+
+	const insert = (items: readonly T[]): void => {
+		remove(items.map(getKey));
+		for (const item of items) {
+			const { lat, lon } = getPosition(item);
+			const cell = cellForPoint(lat, lon, zoom);
+			const bucketKey = cellKey(cell);
+			const bucket = buckets.get(bucketKey) ?? { cell, items: new Map() };
+			bucket.items.set(getKey(item), item);
+			buckets.set(bucketKey, bucket);
+			bucketOf.set(getKey(item), bucketKey);
+		}
+	};
+
+	/**
+	 * Buckets intersecting a box - by tile lookup, or by scanning when the box spans more tiles
+	 */
+	const bucketsInBounds = (bbox: BoundingBox): Bucket<T>[] => {
+		const cells = cellsForBounds(bbox, zoom);
+		if (cells.length > buckets.size) {
+			return [...buckets.values()];
+		}
+		return cells.flatMap((cell) => buckets.get(cellKey(cell)) ?? []);
+	};
+
+	const withinBounds = (bbox: BoundingBox, filter?: ItemFilter<T>): T[] =>
+		bucketsInBounds(bbox).flatMap((bucket) =>
+			[...bucket.items.values()].filter((item) => {
+				const { lat, lon } = getPosition(item);
+				return bboxContains(bbox, lat, lon) && (!filter || filter(item));
+			})
+		);
+
+	const measure = (point: LatLon, items: Iterable<T>, filter?: ItemFilter<T>): Neighbour<T>[] => {
+		const found: Neighbour<T>[] = [];
+		for (const item of items) {
+			if (filter && !filter(item)) continue;
+			const { lat, lon } = getPosition(item);
+			found.push({ item, distance: haversineDistance(point.lat, point.lon, lat, lon) });
+		}
+		return found;
+	};
+
+	const nearest = (point: LatLon, k = 1, filter?: ItemFilter<T>): Neighbour<T>[] => {
+		if (buckets.size === 0 || k <= 0) return [];
+
+		const origin = cellForPoint(point.lat, point.lon, zoom);
+		const cells = [...buckets.values()].map((bucket) => bucket.cell);
+		const maxRing = Math.max(
+			...cells.map((cell) => Math.max(Math.abs(cell.x - origin.x), Math.abs(cell.y - origin.y)))
+		);
+
+		const found: Neighbour<T>[] = [];
+		for (let ring = 0; ring <= maxRing; ring++) {
+			for (let x = origin.x - ring; x <= origin.x + ring; x++) {
+				for (let y = origin.y - ring; y <= origin.y + ring; y++) {
+					// Only the ring's outline; inner tiles were visited already
+					if (Math.abs(x - origin.x) !== ring && Math.abs(y - origin.y) !== ring) continue;
+					const bucket = buckets.get(cellKey({ x, y, z: zoom }));
+					if (bucket) found.push(...measure(point, bucket.items.values(), filter));
+				}
+			}
+
+			if (found.length >= k) {
+				found.sort((a, b) => a.distance - b.distance);
+				const visited: BoundingBox = {
+					north: cellBounds({ x: origin.x, y: origin.y - ring, z: zoom }).north,
+					south: cellBounds({ x: origin.x, y: origin.y + ring, z: zoom }).south,
+					west: cellBounds({ x: origin.x - ring, y: origin.y, z: zoom }).west,
+					east: cellBounds({ x: origin.x + ring, y: origin.y, z: zoom }).east,
+				};
+				const kth = found[k - 1];
+				if (kth && kth.distance <= distanceToEdge(point, visited)) break;
+			}
+		}
+
+		return found.sort((a, b) => a.distance - b.distance).slice(0, k);
+	};
+
+	const withinRadius = (point: LatLon, radius: number, filter?: ItemFilter<T>): Neighbour<T>[] =>
+		measure(point, withinBounds(radiusBounds(point, radius)), filter)
+			.filter((neighbour) => neighbour.distance <= radius)
+			.sort((a, b) => a.distance - b.distance);
+
+	return {
+		size: () => bucketOf.size,
+		insert,
+		remove,
+		replaceInBounds: (bbox, items) => {
+			remove(withinBounds(bbox).map(getKey));
+			insert(items);
+		},
+		clear: () => {
+			buckets.clear();
+			bucketOf.clear();
+		},
+		nearest,
+		withinRadius,
+		withinBounds,
+	};
+}
@@ -5,7 +5,9 @@
 
 import type {
 	ChangingTable,
+	Facility,
 	FeeStatus,
+	RefillFacility,
 	ToiletAccessibility,
 	ToiletDetails,
 	ToiletFacility,
@@ -24,6 +26,9 @@ export function elementToWaterFacility(element: Element): WaterFacility {
 		element,
 		drinkable: isDrinkable(element),
 		sourceType: getWaterSourceType(element),
+		bottleRefill: isYes(element.tags.bottle),
+		dogFriendly: isYes(element.tags.dog),
+		wheelchair: parseWheelchairTag(element.tags.wheelchair),
 	};
 }
 
@@ -39,6 +44,21 @@ export function elementToToiletFacility(element: Element): ToiletFacility {
 	};
 }
 
+/**
+ * Transform Overpass element to RefillFacility
+ */
+export function elementToRefillFacility(element: Element): RefillFacility {
+	const access = (element.tags.access || '').toLowerCase();
+	return {
+		kind: 'refill',
+		element,
+		venue: element.tags.name || null,
+		customersOnly: access === 'customers' || access === 'permit',
+		fee: parseFeeTag(element.tags.fee),
+		wheelchair: parseWheelchairTag(element.tags.wheelchair),
+	};
+}
+
 /**
  * Check if water source is drinkable
  */
@@ -92,6 +112,13 @@ function extractToiletDetails(element: Element): ToiletDetails {
 	};
 }
 
+/**
+ * Check for an explicit "yes" tag value
+ */
+function isYes(value: string | undefined): boolean {
+	return value?.toLowerCase() === 'yes';
+}
+
 /**
  * Parse wheelchair tag with fallback to unknown
  */
@@ -143,51 +170,8 @@ export function isAccessible(facility: ToiletFacility): boolean {
 }
 
 /**
- * Find nearest toilet from a list of toilets to a given location
- */
-export function findNearestToilet(
-	toilets: ToiletFacility[],
-	userLocation: { lat: number; lon: number }
-): ToiletFacility | null {
-	if (toilets.length === 0) return null;
-
-	let nearest: ToiletFacility | null = null;
-	let minDistance = Number.POSITIVE_INFINITY;
-
-	for (const toilet of toilets) {
-		const distance = calculateDistance(
-			userLocation.lat,
-			userLocation.lon,
-			toilet.element.lat,
-			toilet.element.lon
-		);
-
-		if (distance < minDistance) {
-			minDistance = distance;
-			nearest = toilet;
-		}
-	}
-
-	return nearest;
-}
-
-/**
- * Calculate distance between two points using Haversine formula
- */
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-	const R = 6371; // Earth's radius in kilometers
-	const dLat = toRad(lat2 - lat1);
-	const dLon = toRad(lon2 - lon1);
-	const a =
-		Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-		Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
-	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-	return R * c;
-}
-
-/**
- * Convert degrees to radians
+ * Wheelchair access of any facility
  */
-function toRad(degrees: number): number {
-	return degrees * (Math.PI / 180);
+export function wheelchairOf(facility: Facility): WheelchairAccess {
+	return facility.kind === 'toilet' ? facility.accessibility.wheelchair : facility.wheelchair;
 }
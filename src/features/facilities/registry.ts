@@ -0,0 +1,174 @@
+/**
+ * Facility type registry
+ * Each facility kind is declared once: its query, transformer, marker style, popup and analytics.
+ * The layer control, loaders, filters, clusters and popups are generated from these definitions,
+ * so adding a kind needs a definition here rather than wiring across the app
+ */
+
+import type { FacilityType } from '../../analytics/types';
+import type { LayerName } from '../../core/config';
+import { LAYER_NAMES } from '../../core/config';
+import drinkingWater from '../../oql/drinking_water.overpassql?raw';
+import publicToilets from '../../oql/public_toilets.overpassql?raw';
+import refillStations from '../../oql/refill_stations.overpassql?raw';
+import type { Facility, FacilityKind } from '../../types/facilities';
+import type { Element } from '../../types/overpass';
+import type { FacilityQuery } from '../data/query';
+import {
+	elementToRefillFacility,
+	elementToToiletFacility,
+	elementToWaterFacility,
+} from '../data/transformers';
+import type { PopupSection } from '../markers/popupSections';
+import {
+	actionsSection,
+	changingTableSection,
+	distanceSection,
+	feeSection,
+	getWaterSourceLabel,
+	nearestSection,
+	openingHoursSection,
+	recommendationSection,
+	refillConditionsSection,
+	refillTitleSection,
+	seasonalSection,
+	tagSection,
+	toiletAccessibilitySection,
+	toiletTitleSection,
+	unisexSection,
+	waterTitleSection,
+} from '../markers/popupSections';
+import type { MarkerStyler } from '../markers/reconcile';
+import {
+	FacilityColors,
+	getRefillMarkerStyle,
+	getToiletMarkerStyle,
+	getWaterMarkerStyle,
+} from '../markers/styling';
+
+/**
+ * Declaration of a facility kind
+ */
+export type FacilityDefinition = {
+	readonly kind: FacilityKind;
+	readonly query: FacilityQuery; // Query key equals the kind
+	readonly layerName: LayerName; // Layer control label
+	readonly nouns: readonly [string, string]; // Singular and plural, e.g. "toilet", "toilets"
+	readonly dataLabel: string; // Name of the data in error messages
+	readonly emptyMessage: string; // Shown when an area has none
+	readonly color: string; // Cluster badge colour
+	readonly shownByDefault: boolean;
+	readonly rankFromMapCentre: boolean; // Ranked from the map centre when the user isn't located
+	readonly toFacility: (element: Element) => Facility;
+	readonly getStyle: MarkerStyler;
+	readonly popupSections: readonly PopupSection[];
+	readonly navigationLabel: string; // Destination label prefix for navigation apps
+	readonly analyticsKind: FacilityType;
+};
+
+/**
+ * Definitions by kind
+ */
+const DEFINITIONS: Record<FacilityKind, FacilityDefinition> = {
+	water: {
+		kind: 'water',
+		query: { key: 'water', oql: drinkingWater },
+		layerName: LAYER_NAMES.WATER,
+		nouns: ['water point', 'water points'],
+		dataLabel: 'water points',
+		emptyMessage:
+			'No water points found in this area. Try zooming out or panning to a different location.',
+		color: FacilityColors.water.default,
+		shownByDefault: true,
+		rankFromMapCentre: true,
+		toFacility: elementToWaterFacility,
+		getStyle: getWaterMarkerStyle,
+		popupSections: [
+			waterTitleSection,
+			distanceSection,
+			nearestSection('water point'),
+			recommendationSection,
+			tagSection('operator', 'Operator'),
+			tagSection('note', 'Note'),
+			tagSection('seasonal', 'Seasonal'),
+			seasonalSection,
+			openingHoursSection(),
+			tagSection('bottle', 'Bottle refill'),
+			tagSection('wheelchair', 'Wheelchair'),
+			actionsSection((element) => getWaterSourceLabel(element).label.toLowerCase()),
+		],
+		navigationLabel: 'water_tap',
+		analyticsKind: 'water',
+	},
+	toilet: {
+		kind: 'toilet',
+		query: { key: 'toilet', oql: publicToilets },
+		layerName: LAYER_NAMES.TOILET,
+		nouns: ['toilet', 'toilets'],
+		dataLabel: 'toilet data',
+		emptyMessage: 'No public toilets found in this area.',
+		color: FacilityColors.toilet.default,
+		shownByDefault: false,
+		rankFromMapCentre: false,
+		toFacility: elementToToiletFacility,
+		getStyle: getToiletMarkerStyle,
+		popupSections: [
+			toiletTitleSection,
+			distanceSection,
+			nearestSection('toilet'),
+			recommendationSection,
+			toiletAccessibilitySection,
+			changingTableSection,
+			feeSection,
+			openingHoursSection('Hours not specified'),
+			seasonalSection,
+			unisexSection,
+			tagSection('operator', 'Operator'),
+			tagSection('note', 'Note'),
+			actionsSection(() => 'toilet'),
+		],
+		navigationLabel: 'toilet',
+		analyticsKind: 'toilet',
+	},
+	refill: {
+		kind: 'refill',
+		query: { key: 'refill', oql: refillStations },
+		layerName: LAYER_NAMES.REFILL,
+		nouns: ['refill station', 'refill stations'],
+		dataLabel: 'refill stations',
+		emptyMessage: 'No refill stations found in this area.',
+		color: FacilityColors.refill.default,
+		shownByDefault: false,
+		rankFromMapCentre: true,
+		toFacility: elementToRefillFacility,
+		getStyle: getRefillMarkerStyle,
+		popupSections: [
+			refillTitleSection,
+			distanceSection,
+			nearestSection('refill station'),
+			recommendationSection,
+			refillConditionsSection,
+			feeSection,
+			openingHoursSection('Hours not specified'),
+			seasonalSection,
+			tagSection('drinking_water:refill:network', 'Refill scheme'),
+			tagSection('wheelchair', 'Wheelchair'),
+			tagSection('note', 'Note'),
+			actionsSection(() => 'refill station'),
+		],
+		navigationLabel: 'refill_station',
+		analyticsKind: 'refill',
+	},
+};
+
+/**
+ * All definitions, in layer control order
+ */
+export const FACILITY_DEFINITIONS: readonly FacilityDefinition[] = Object.values(DEFINITIONS);
+
+/**
+ * Definition of a kind
+ */
+export function facilityDefinition(kind: FacilityKind): FacilityDefinition {
+	return DEFINITIONS[kind];
+}
@@ -0,0 +1,186 @@
+/**
+ * Facility attribute filters
+ * Each filter applies to some facility kinds; facilities of other kinds pass it unchanged.
+ * Active filters combine with AND and are remembered in localStorage
+ */
+
+import { FACILITY_FILTERS_STORAGE_KEY } from '../../core/config';
+import type { Facility, FacilityKind } from '../../types/facilities';
+import type { Element } from '../../types/overpass';
+import { wheelchairOf } from '../data/transformers';
+import { facilityDefinition } from '../facilities/registry';
+import { isClosedAt } from '../hours/openingHours';
+import { isLikelyAvailable } from '../hours/seasonality';
+
+/**
+ * Filter identifiers
+ */
+export type FilterId =
+	| 'drinkable'
+	| 'bottle'
+	| 'dog'
+	| 'wheelchair'
+	| 'changing_table'
+	| 'free'
+	| 'unisex'
+	| 'open_now'
+	| 'in_season';
+
+/**
+ * A facility filter
+ */
+export type FacilityFilter = {
+	readonly id: FilterId;
+	readonly label: string;
+	readonly kinds: readonly FacilityKind[]; // Kinds the filter applies to
+	readonly matches: (facility: Facility) => boolean;
+};
+
+/**
+ * Available filters, in panel order
+ */
+export const FACILITY_FILTERS: readonly FacilityFilter[] = [
+	{
+		id: 'drinkable',
+		label: 'Drinkable only',
+		kinds: ['water'],
+		matches: (facility) => facility.kind === 'water' && facility.drinkable,
+	},
+	{
+		// Every refill station refills bottles
+		id: 'bottle',
+		label: 'Bottle refill',
+		kinds: ['water', 'refill'],
+		matches: (facility) =>
+			facility.kind === 'refill' || (facility.kind === 'water' && facility.bottleRefill),
+	},
+	{
+		id: 'dog',
+		label: 'Dog-friendly',
+		kinds: ['water'],
+		matches: (facility) => facility.kind === 'water' && facility.dogFriendly,
+	},
+	{
+		id: 'wheelchair',
+		label: 'Wheelchair accessible',
+		kinds: ['water', 'toilet', 'refill'],
+		matches: (facility) => wheelchairOf(facility) === 'yes',
+	},
+	{
+		id: 'changing_table',
+		label: 'Changing table',
+		kinds: ['toilet'],
+		matches: (facility) =>
+			facility.kind === 'toilet' && facility.accessibility.changingTable === 'yes',
+	},
+	{
+		// Toilets only when tagged fee=no; refills are free unless tagged otherwise
+		id: 'free',
+		label: 'Free',
+		kinds: ['toilet', 'refill'],
+		matches: (facility) =>
+			(facility.kind === 'toilet' && facility.details.fee === 'no') ||
+			(facility.kind === 'refill' && facility.fee !== 'yes'),
+	},
+	{
+		id: 'unisex',
+		label: 'Unisex',
+		kinds: ['toilet'],
+		matches: (facility) => facility.kind === 'toilet' && facility.details.unisex === true,
+	},
+	{
+		// Hides facilities their opening hours say are closed; missing or unreadable hours pass
+		id: 'open_now',
+		label: 'Open now',
+		kinds: ['water', 'toilet', 'refill'],
+		matches: (facility) => !isClosedAt(facility.element),
+	},
+	{
+		// Hides seasonal facilities likely off for winter; unknown seasons pass
+		id: 'in_season',
+		label: 'In season',
+		kinds: ['water', 'toilet', 'refill'],
+		matches: (facility) => isLikelyAvailable(facility.element),
+	},
+];
+
+const FILTER_IDS: ReadonlySet<string> = new Set(FACILITY_FILTERS.map((filter) => filter.id));
+
+/**
+ * Transform an element of a layer into its facility
+ */
+export function toFacility(kind: FacilityKind, element: Element): Facility {
+	return facilityDefinition(kind).toFacility(element);
+}
+
+/**
+ * Check a facility against the active filters that apply to its kind
+ */
+export function passesFilters(facility: Facility, active: ReadonlySet<FilterId>): boolean {
+	return FACILITY_FILTERS.every(
+		(filter) =>
+			!active.has(filter.id) || !filter.kinds.includes(facility.kind) || filter.matches(facility)
+	);
+}
+
+/**
+ * Keep the elements of a layer that pass the active filters
+ */
+export function filterElements(
+	kind: FacilityKind,
+	elements: readonly Element[],
+	active: ReadonlySet<FilterId>
+): Element[] {
+	if (active.size === 0) return [...elements];
+	return elements.filter((element) => passesFilters(toFacility(kind, element), active));
+}
+
+/**
+ * Facilities each filter would leave when enabled together with the other active filters
+ * Only facilities of the kinds a filter applies to are counted
+ */
+export function countMatches(
+	facilities: readonly Facility[],
+	active: ReadonlySet<FilterId>
+): Record<FilterId, number> {
+	const counts = Object.fromEntries(FACILITY_FILTERS.map((filter) => [filter.id, 0])) as Record<
+		FilterId,
+		number
+	>;
+
+	for (const filter of FACILITY_FILTERS) {
+		const withFilter: ReadonlySet<FilterId> = new Set([...active, filter.id]);
+		for (const facility of facilities) {
+			if (filter.kinds.includes(facility.kind) && passesFilters(facility, withFilter)) {
+				counts[filter.id]++;
+			}
+		}
+	}
+	return counts;
+}
+
+/**
+ * Read the saved active filters, ignoring unknown or unreadable entries
+ */
+export function loadActiveFilters(
+	storage: Storage | undefined = typeof localStorage === 'undefined' ? undefined : localStorage
+): Set<FilterId> {
+	try {
+		const saved = JSON.parse(storage?.getItem(FACILITY_FILTERS_STORAGE_KEY) ?? '[]');
+		return new Set(
+			Array.isArray(saved) ? saved.filter((id): id is FilterId => FILTER_IDS.has(id)) : []
+		);
+	} catch {
+		return new Set();
+	}
+}
+
+/**
+ * Save the active filters
+ */
+export function saveActiveFilters(
+	active: ReadonlySet<FilterId>,
+	storage: Storage | undefined = typeof localStorage === 'undefined' ? undefined : localStorage
+): void {
+	storage?.setItem(FACILITY_FILTERS_STORAGE_KEY, JSON.stringify([...active]));
+}
@@ -0,0 +1,176 @@
+/**
+ * Holiday calendars for PH (public holiday) and SH (school holiday) opening_hours rules
+ * Latvia's calendar is built in; other deployments register their own by country code
+ */
+
+import type { SchoolYear } from '../../core/config';
+import { HOLIDAY_CALENDAR, SCHOOL_YEARS } from '../../core/config';
+import * as logger from '../../utils/logger';
+
+/**
+ * Holiday calendar of a country
+ * Answers null for dates it has no data for, so rules depending on them can be reported as unknown
+ */
+export type HolidayCalendar = {
+	readonly code: string;
+	readonly isPublicHoliday: (date: Date) => boolean | null;
+	readonly isSchoolHoliday: (date: Date) => boolean | null;
+};
+
+/**
+ * Options for creating a holiday calendar
+ */
+export type HolidayCalendarOptions = {
+	readonly code: string;
+	/** Public holidays of a year; omitted when the country's holidays are unknown */
+	readonly publicHolidays?: (year: number) => readonly Date[];
+	readonly schoolYears?: readonly SchoolYear[];
+};
+
+/**
+ * Local calendar date key (YYYY-MM-DD)
+ */
+export function dateKey(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Easter Sunday of a year (Gregorian calendar, anonymous algorithm)
+ */
+export function easterSunday(year: number): Date {
+	const a = year % 19;
+	const b = Math.floor(year / 100);
+	const c = year % 100;
+	const d = Math.floor(b / 4);
+	const e = b % 4;
+	const f = Math.floor((b + 8) / 25);
+	const g = Math.floor((b - f + 1) / 3);
+	const h = (19 * a + b - d - g + 15) % 30;
+	const i = Math.floor(c / 4);
+	const k = c % 4;
+	const l = (32 + 2 * e + 2 * i - h - k) % 7;
+	const m = Math.floor((a + 11 * h + 22 * l) / 451);
+	const month = Math.floor((h + l - 7 * m + 114) / 31);
+	const day = ((h + l - 7 * m + 114) % 31) + 1;
+	return new Date(year, month - 1, day);
+}
+
+/**
+ * Date a number of days after another
+ */
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * The date itself, or the following Monday if it falls on a weekend
+ */
+function nextWorkday(date: Date): Date {
+	const weekday = date.getDay();
+	return weekday === 6 ? addDays(date, 2) : weekday === 0 ? addDays(date, 1) : date;
+}
+
+/**
+ * Latvian public holidays (svētku dienas) of a year
+ * When 4 May or 18 November falls on a weekend, the following Monday is a holiday as well
+ */
+export function latvianPublicHolidays(year: number): Date[] {
+	const easter = easterSunday(year);
+	const may4 = new Date(year, 4, 4);
+	const nov18 = new Date(year, 10, 18);
+	const firstOfMay = new Date(year, 4, 1);
+	const mothersDay = addDays(firstOfMay, ((7 - firstOfMay.getDay()) % 7) + 7); // Second Sunday
+
+	return [
+		new Date(year, 0, 1), // New Year's Day
+		addDays(easter, -2), // Good Friday
+		easter,
+		addDays(easter, 1), // Easter Monday
+		new Date(year, 4, 1), // Labour Day, Convocation of the Constituent Assembly
+		may4, // Restoration of Independence
+		nextWorkday(may4),
+		mothersDay,
+		addDays(easter, 49), // Whitsunday
+		new Date(year, 5, 23), // Midsummer Eve
+		new Date(year, 5, 24), // Midsummer Day
+		nov18, // Proclamation of the Republic
+		nextWorkday(nov18),
+		new Date(year, 11, 24), // Christmas Eve
+		new Date(year, 11, 25),
+		new Date(year, 11, 26),
+		new Date(year, 11, 31), // New Year's Eve
+	];
+}
+
+/**
+ * Create a holiday calendar
+ */
+export function createHolidayCalendar(options: HolidayCalendarOptions): HolidayCalendar {
+	const publicHolidaysByYear: Map<number, ReadonlySet<string>> = new Map();
+	const schoolYears = options.schoolYears ?? [];
+
+	const isPublicHoliday = (date: Date): boolean | null => {
+		if (!options.publicHolidays) return null;
+
+		const year = date.getFullYear();
+		let holidays = publicHolidaysByYear.get(year);
+		if (!holidays) {
+			holidays = new Set(options.publicHolidays(year).map(dateKey));
+			publicHolidaysByYear.set(year, holidays);
+		}
+		return holidays.has(dateKey(date));
+	};
+
+	// ISO date keys compare in date order
+	const isSchoolHoliday = (date: Date): boolean | null => {
+		const key = dateKey(date);
+		const schoolYear = schoolYears.find((year) => year.from <= key && key <= year.to);
+		if (!schoolYear) return null;
+		return schoolYear.holidays.some((holiday) => holiday.from <= key && key <= holiday.to);
+	};
+
+	return { code: options.code, isPublicHoliday, isSchoolHoliday };
+}
+
+/**
+ * Calendar factories by country code
+ */
+const calendarFactories: Map<string, () => HolidayCalendar> = new Map([
+	[
+		'LV',
+		() =>
+			createHolidayCalendar({
+				code: 'LV',
+				publicHolidays: latvianPublicHolidays,
+				schoolYears: SCHOOL_YEARS,
+			}),
+	],
+]);
+const calendars: Map<string, HolidayCalendar> = new Map();
+
+/**
+ * Register the calendar of another country
+ */
+export function registerHolidayCalendar(code: string, factory: () => HolidayCalendar): void {
+	calendarFactories.set(code, factory);
+	calendars.delete(code);
+}
+
+/**
+ * Get the calendar of a country (default: the configured one)
+ * Unknown countries get a calendar without data, so PH and SH rules evaluate as unknown
+ */
+export function getHolidayCalendar(code: string = HOLIDAY_CALENDAR): HolidayCalendar {
+	let calendar = calendars.get(code);
+	if (!calendar) {
+		const factory = calendarFactories.get(code);
+		if (!factory) {
+			logger.warn(`No holiday calendar registered for "${code}"`);
+		}
+		calendar = factory ? factory() : createHolidayCalendar({ code });
+		calendars.set(code, calendar);
+	}
+	return calendar;
+}
@@ -0,0 +1,573 @@
+/**
+ * OSM opening_hours evaluation
+ * Supports the common subset of the specification: rules separated by ";", each with optional
+ * month and weekday selectors, comma-separated time ranges (ranges past midnight spill into
+ * the next day), "24/7", "off"/"closed" and a quoted comment. Later rules replace earlier ones
+ * for the days they select. Anything else is reported as a parse error rather than guessed.
+ * Public (PH) and school (SH) holidays come from a holiday calendar; days whose holiday status
+ * the calendar doesn't know evaluate as unknown
+ */
+
+import type { ParseError } from '../../types/errors';
+import type { Element } from '../../types/overpass';
+import type { Result } from '../../types/result';
+import { Err, isOk, Ok } from '../../types/result';
+import type { HolidayCalendar } from './holidays';
+import { getHolidayCalendar } from './holidays';
+
+/**
+ * Holiday selector: public holiday or school holiday
+ */
+export type HolidayKind = 'PH' | 'SH';
+
+/**
+ * Time range in minutes from midnight; ends after 1440 continue into the next day
+ */
+export type TimeRange = {
+	readonly from: number;
+	readonly to: number;
+};
+
+/**
+ * One rule of an opening_hours value
+ */
+export type OpeningRule = {
+	readonly months: readonly number[] | null; // 0 = January; null selects every month
+	readonly weekdays: readonly number[] | null; // 0 = Monday; null without a day selector
+	readonly holidays: readonly HolidayKind[]; // Selected in addition to the weekdays
+	readonly during: HolidayKind | null; // "SH Mo-Fr": the weekdays only during these holidays
+	readonly state: 'open' | 'closed' | 'unknown'; // Unknown for rules with only a comment
+	readonly ranges: readonly TimeRange[];
+	readonly comment: string | null;
+};
+
+/**
+ * Parsed opening_hours value
+ */
+export type OpeningHours = {
+	readonly rules: readonly OpeningRule[];
+};
+
+/**
+ * Open or unknown period of a day, in minutes from midnight (at most 1440)
+ */
+export type DayPeriod = {
+	readonly from: number;
+	readonly to: number;
+	readonly state: 'open' | 'unknown';
+	readonly comment: string | null;
+};
+
+/**
+ * State at a moment
+ */
+export type OpeningState = {
+	readonly state: 'open' | 'closed' | 'unknown';
+	readonly comment: string | null;
+};
+
+/**
+ * State at a moment and when it next changes
+ */
+export type OpeningStatus = OpeningState & {
+	readonly nextChange: Date | null; // null when the state holds for the whole search window
+};
+
+/**
+ * One day of the weekly table
+ */
+export type DaySchedule = {
+	readonly date: Date;
+	readonly state: 'open' | 'closed' | 'unknown';
+	readonly ranges: readonly TimeRange[];
+	readonly comment: string | null;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+const SEARCH_DAYS = 366; // Month rules can keep a facility closed for most of a year
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+export const MONTH_LABELS: readonly string[] = MONTHS;
+
+const HOLIDAY_KINDS: readonly string[] = ['PH', 'SH'];
+
+/**
+ * Comment of days whose holiday status is unknown
+ */
+const UNKNOWN_HOLIDAY_COMMENT = 'holiday dates unknown';
+
+const TIME_RANGE_PATTERN = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+/**
+ * Invalid value error
+ */
+function invalid(message: string): Result<never, ParseError> {
+	return Err({ type: 'invalid_format', message });
+}
+
+/**
+ * Parse a comma-separated list of names and name ranges (e.g. "Mo-We,Fr") into indices
+ * Ranges may wrap around (e.g. "Nov-Feb")
+ * @returns Indices, or null if a part is not a known name
+ */
+function parseNameList(token: string, names: readonly string[]): number[] | null {
+	const indices: Set<number> = new Set();
+	for (const part of token.split(',')) {
+		const [first, last, ...rest] = part.split('-');
+		const start = names.indexOf(first ?? '');
+		const end = last === undefined ? start : names.indexOf(last);
+		if (start < 0 || end < 0 || rest.length > 0) return null;
+
+		for (let i = start; ; i = (i + 1) % names.length) {
+			indices.add(i);
+			if (i === end) break;
+		}
+	}
+	return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a day selector such as "Mo-Fr,PH" into weekdays and holidays
+ * @returns Selected days, or null if the token is not a day selector
+ */
+function parseDayList(token: string): { weekdays: number[]; holidays: HolidayKind[] } | null {
+	const parts = token.split(',');
+	const holidays = parts.filter((part): part is HolidayKind => HOLIDAY_KINDS.includes(part));
+	const weekdayParts = parts.filter((part) => !HOLIDAY_KINDS.includes(part));
+	if (weekdayParts.length === 0) {
+		return { weekdays: [], holidays };
+	}
+
+	const weekdays = parseNameList(weekdayParts.join(','), WEEKDAYS);
+	return weekdays ? { weekdays, holidays } : null;
+}
+
+/**
+ * Parse a month selector such as "Apr-Oct" or "Nov-Feb,Jun"
+ * @returns Months (0 = January), or null if the value is not a month selector
+ */
+export function parseMonthList(value: string): number[] | null {
+	return parseNameList(value.replace(/\s+/g, ''), MONTHS);
+}
+
+/**
+ * Parse comma-separated time ranges ("08:00-12:00,13:00-17:00")
+ */
+function parseTimeRanges(token: string): Result<TimeRange[], ParseError> {
+	const ranges: TimeRange[] = [];
+	for (const part of token.split(',')) {
+		const match = TIME_RANGE_PATTERN.exec(part);
+		if (!match) return invalid(`Unsupported time range "${part}"`);
+
+		const [fromHour, fromMinute, toHour, toMinute] = match.slice(1).map(Number) as [
+			number,
+			number,
+			number,
+			number,
+		];
+		if (fromHour > 24 || toHour > 48 || fromMinute > 59 || toMinute > 59) {
+			return invalid(`Invalid time range "${part}"`);
+		}
+
+		const from = fromHour * 60 + fromMinute;
+		let to = toHour * 60 + toMinute;
+		if (to <= from) to += MINUTES_PER_DAY; // Past midnight
+		ranges.push({ from, to });
+	}
+	return Ok(ranges);
+}
+
+/**
+ * Parse one rule
+ */
+function parseRule(text: string): Result<OpeningRule, ParseError> {
+	let body = text;
+	let comment: string | null = null;
+
+	const commentMatch = /"([^"]*)"\s*$/.exec(body);
+	if (commentMatch) {
+		comment = commentMatch[1]?.trim() || null;
+		body = body.slice(0, commentMatch.index);
+	}
+
+	const tokens = body
+		.replace(/\s*,\s*/g, ',')
+		.replace(/\s*-\s*/g, '-')
+		.trim()
+		.split(/\s+/)
+		.filter((token) => token.length > 0);
+
+	let months: number[] | null = null;
+	let weekdays: number[] | null = null;
+	let holidays: HolidayKind[] = [];
+	let during: HolidayKind | null = null;
+	let state: OpeningRule['state'] = 'open';
+	let ranges: TimeRange[] = [{ from: 0, to: MINUTES_PER_DAY }];
+	let index = 0;
+
+	const monthList = tokens[index] ? parseNameList(tokens[index] ?? '', MONTHS) : null;
+	if (monthList) {
+		months = monthList;
+		index++;
+	}
+	const days = tokens[index] ? parseDayList(tokens[index] ?? '') : null;
+	if (days) {
+		index++;
+		const within = tokens[index] ? parseDayList(tokens[index] ?? '') : null;
+		const [holiday] = days.holidays;
+		if (days.weekdays.length === 0 && days.holidays.length === 1 && holiday && within) {
+			// A holiday followed by weekdays, e.g. "SH Mo-Fr"
+			during = holiday;
+			weekdays = within.weekdays;
+			holidays = within.holidays;
+			index++;
+		} else {
+			weekdays = days.weekdays;
+			holidays = days.holidays;
+		}
+	}
+
+	const selector = tokens[index];
+	if (selector === '24/7' || selector === 'open') {
+		index++;
+	} else if (selector === 'off' || selector === 'closed') {
+		state = 'closed';
+		ranges = [];
+		index++;
+	} else if (selector !== undefined && /\d/.test(selector)) {
+		const parsed = parseTimeRanges(selector);
+		if (!isOk(parsed)) return parsed;
+		ranges = parsed.value;
+		index++;
+	} else if (selector === undefined && comment) {
+		// Days with only a comment, e.g. "by appointment"
+		state = 'unknown';
+		ranges = [];
+	}
+
+	if (index < tokens.length) {
+		return invalid(`Unsupported opening_hours part "${tokens[index]}"`);
+	}
+	return Ok({ months, weekdays, holidays, during, state, ranges, comment });
+}
+
+/**
+ * Split a value into rules at ";" outside comments
+ */
+function splitRules(value: string): string[] {
+	const rules: string[] = [];
+	let current = '';
+	let quoted = false;
+	for (const char of value) {
+		if (char === '"') quoted = !quoted;
+		if (char === ';' && !quoted) {
+			rules.push(current);
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	rules.push(current);
+	return rules.map((rule) => rule.trim()).filter((rule) => rule.length > 0);
+}
+
+/**
+ * Parse an opening_hours value
+ */
+export function parseOpeningHours(value: string): Result<OpeningHours, ParseError> {
+	if (value.includes('||')) {
+		return invalid('Fallback rules ("||") are not supported');
+	}
+
+	const rules: OpeningRule[] = [];
+	for (const text of splitRules(value)) {
+		const rule = parseRule(text);
+		if (!isOk(rule)) return rule;
+		rules.push(rule.value);
+	}
+
+	if (rules.length === 0) {
+		return invalid('Empty opening_hours value');
+	}
+	return Ok({ rules });
+}
+
+/**
+ * Monday-based weekday of a date
+ */
+function weekdayOf(date: Date): number {
+	return (date.getDay() + 6) % 7;
+}
+
+/**
+ * Local midnight a number of days after a date
+ */
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Check whether a date is a holiday of a kind, or null if the calendar doesn't know
+ */
+function isHoliday(kind: HolidayKind, date: Date, calendar: HolidayCalendar): boolean | null {
+	return kind === 'PH' ? calendar.isPublicHoliday(date) : calendar.isSchoolHoliday(date);
+}
+
+/**
+ * Check whether a rule selects a date, or null if that depends on unknown holidays
+ */
+function ruleMatches(rule: OpeningRule, date: Date, calendar: HolidayCalendar): boolean | null {
+	if (rule.months && !rule.months.includes(date.getMonth())) return false;
+
+	let days: boolean | null = true;
+	if (rule.weekdays !== null || rule.holidays.length > 0) {
+		const holidays = rule.holidays.map((kind) => isHoliday(kind, date, calendar));
+		days = rule.weekdays?.includes(weekdayOf(date)) || holidays.some((holiday) => holiday);
+		if (!days && holidays.includes(null)) days = null;
+	}
+
+	const during = rule.during ? isHoliday(rule.during, date, calendar) : true;
+	if (days === false || during === false) return false;
+	return days === null || during === null ? null : true;
+}
+
+/**
+ * The rule deciding a day: the last one whose selectors match
+ * A rule that may match, depending on unknown holidays, leaves the day unknown
+ */
+function ruleForDay(
+	hours: OpeningHours,
+	date: Date,
+	calendar: HolidayCalendar
+): OpeningRule | null {
+	let match: OpeningRule | null = null;
+	for (const rule of hours.rules) {
+		const matches = ruleMatches(rule, date, calendar);
+		if (matches === true) {
+			match = rule;
+		} else if (matches === null) {
+			match = { ...rule, state: 'unknown', ranges: [], comment: UNKNOWN_HOLIDAY_COMMENT };
+		}
+	}
+	return match;
+}
+
+/**
+ * Schedule of a day as its rule states it; ranges may end past midnight
+ */
+export function scheduleForDay(
+	hours: OpeningHours,
+	date: Date,
+	calendar: HolidayCalendar = getHolidayCalendar()
+): DaySchedule {
+	const rule = ruleForDay(hours, date, calendar);
+	return {
+		date: addDays(date, 0),
+		state: rule?.state ?? 'closed',
+		ranges: rule?.ranges ?? [],
+		comment: rule?.comment ?? null,
+	};
+}
+
+/**
+ * Open and unknown periods of a day, including ranges spilling over from the day before
+ */
+export function periodsForDay(
+	hours: OpeningHours,
+	date: Date,
+	calendar: HolidayCalendar = getHolidayCalendar()
+): DayPeriod[] {
+	const periods: DayPeriod[] = [];
+
+	const previous = ruleForDay(hours, addDays(date, -1), calendar);
+	if (previous && previous.state === 'open') {
+		for (const range of previous.ranges) {
+			if (range.to > MINUTES_PER_DAY) {
+				periods.push({
+					from: 0,
+					to: Math.min(range.to - MINUTES_PER_DAY, MINUTES_PER_DAY),
+					state: 'open',
+					comment: previous.comment,
+				});
+			}
+		}
+	}
+
+	const rule = ruleForDay(hours, date, calendar);
+	if (rule?.state === 'unknown') {
+		periods.push({ from: 0, to: MINUTES_PER_DAY, state: 'unknown', comment: rule.comment });
+	} else if (rule?.state === 'open') {
+		for (const range of rule.ranges) {
+			periods.push({
+				from: range.from,
+				to: Math.min(range.to, MINUTES_PER_DAY),
+				state: 'open',
+				comment: rule.comment,
+			});
+		}
+	}
+
+	// Merge overlapping and touching periods of the same state
+	const merged: DayPeriod[] = [];
+	for (const period of periods.sort((a, b) => a.from - b.from)) {
+		const last = merged[merged.length - 1];
+		if (last && last.state === period.state && period.from <= last.to) {
+			merged[merged.length - 1] = { ...last, to: Math.max(last.to, period.to) };
+		} else {
+			merged.push(period);
+		}
+	}
+	return merged;
+}
+
+/**
+ * Minutes since local midnight
+ */
+function minuteOfDay(date: Date): number {
+	return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * State at a moment
+ */
+export function openingStateAt(
+	hours: OpeningHours,
+	date: Date,
+	calendar: HolidayCalendar = getHolidayCalendar()
+): OpeningState {
+	const minute = minuteOfDay(date);
+	const period = periodsForDay(hours, date, calendar).find(
+		(p) => p.from <= minute && minute < p.to
+	);
+	return period
+		? { state: period.state, comment: period.comment }
+		: { state: 'closed', comment: ruleForDay(hours, date, calendar)?.comment ?? null };
+}
+
+/**
+ * State at a moment and the time it next changes
+ */
+export function openingStatusAt(
+	hours: OpeningHours,
+	date: Date,
+	calendar: HolidayCalendar = getHolidayCalendar()
+): OpeningStatus {
+	const current = openingStateAt(hours, date, calendar);
+	let minute = minuteOfDay(date);
+
+	for (let day = 0; day <= SEARCH_DAYS; day++) {
+		const dayStart = addDays(date, day);
+		const periods = periodsForDay(hours, dayStart, calendar);
+		const at = (m: number) =>
+			new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate(), 0, m);
+
+		if (current.state === 'closed') {
+			const next = periods.find(
+				(period) => period.from > minute || (day > 0 && period.from >= minute)
+			);
+			if (next) return { ...current, nextChange: at(next.from) };
+		} else {
+			const period = periods.find((p) => p.from <= minute && minute < p.to);
+			if (!period || period.state !== current.state) {
+				return { ...current, nextChange: at(minute) };
+			}
+			if (period.to < MINUTES_PER_DAY) {
+				return { ...current, nextChange: at(period.to) };
+			}
+		}
+		minute = 0;
+	}
+	return { ...current, nextChange: null };
+}
+
+/**
+ * Schedules of the week (Monday to Sunday) containing a date
+ */
+export function weeklySchedule(
+	hours: OpeningHours,
+	date: Date,
+	calendar: HolidayCalendar = getHolidayCalendar()
+): DaySchedule[] {
+	const monday = addDays(date, -weekdayOf(date));
+	return WEEKDAYS.map((_, day) => scheduleForDay(hours, addDays(monday, day), calendar));
+}
+
+/**
+ * Format minutes from midnight as "HH:MM", wrapping past midnight
+ */
+export function formatMinutes(minutes: number): string {
+	const wrapped = minutes > MINUTES_PER_DAY ? minutes - MINUTES_PER_DAY : minutes;
+	const hours = Math.floor(wrapped / 60);
+	return `${String(hours).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Time of a change, with the weekday unless it is on the same day
+ */
+function formatChange(change: Date, now: Date): string {
+	const time = formatMinutes(minuteOfDay(change));
+	const sameDay =
+		change.getFullYear() === now.getFullYear() &&
+		change.getMonth() === now.getMonth() &&
+		change.getDate() === now.getDate();
+	if (sameDay) return time;
+	if (change.getTime() - now.getTime() < 7 * MINUTES_PER_DAY * 60 * 1000) {
+		return `${WEEKDAY_LABELS[weekdayOf(change)]} ${time}`;
+	}
+	return `${change.getDate()} ${MONTHS[change.getMonth()]} ${time}`;
+}
+
+/**
+ * Status line, e.g. "Open now, closes 22:00" or "Closed, opens Mon 08:00"
+ */
+export function formatOpeningStatus(status: OpeningStatus, now: Date): string {
+	if (status.state === 'unknown') {
+		return status.comment ? `Hours vary: ${status.comment}` : 'Hours vary';
+	}
+	if (status.state === 'open') {
+		return status.nextChange
+			? `Open now, closes ${formatChange(status.nextChange, now)}`
+			: 'Open now, 24/7';
+	}
+	return status.nextChange ? `Closed, opens ${formatChange(status.nextChange, now)}` : 'Closed';
+}
+
+/**
+ * Parsed values by opening_hours string; few distinct values are shared by many facilities
+ */
+const parsedValues: Map<string, Result<OpeningHours, ParseError>> = new Map();
+const MAX_PARSED_VALUES = 1000;
+
+/**
+ * Parsed opening hours of an element
+ * @returns Parse result, or null without an opening_hours tag
+ */
+export function openingHoursOf(element: Element): Result<OpeningHours, ParseError> | null {
+	const value = element.tags.opening_hours?.trim();
+	if (!value) return null;
+
+	let parsed = parsedValues.get(value);
+	if (!parsed) {
+		if (parsedValues.size >= MAX_PARSED_VALUES) parsedValues.clear();
+		parsed = parseOpeningHours(value);
+		parsedValues.set(value, parsed);
+	}
+	return parsed;
+}
+
+/**
+ * Check whether an element's opening hours say it is closed
+ * Elements without or with unreadable opening hours are not considered closed
+ */
+export function isClosedAt(
+	element: Element,
+	date: Date = new Date(),
+	calendar: HolidayCalendar = getHolidayCalendar()
+): boolean {
+	const hours = openingHoursOf(element);
+	return (
+		hours !== null && isOk(hours) && openingStateAt(hours.value, date, calendar).state === 'closed'
+	);
+}
@@ -0,0 +1,120 @@
+/**
+ * Seasonal availability
+ * Facilities tagged seasonal, described as off in winter by their note, or run by operators that
+ * winterise their taps are only on during their season. Against a date, each is likely available,
+ * likely off for winter, or unknown when its season can't be read
+ */
+
+import { SEASONALITY } from '../../core/config';
+import type { Element, Tags } from '../../types/overpass';
+import { MONTH_LABELS, parseMonthList } from './openingHours';
+
+/**
+ * Availability of a facility on a date
+ */
+export type SeasonalStatus = 'available' | 'off_season' | 'unknown';
+
+/**
+ * Season of a seasonal facility and where it was read from
+ */
+export type Seasonality = {
+	readonly months: readonly number[] | null; // 0 = January; null when the season is unknown
+	readonly source: 'tag' | 'note' | 'operator';
+};
+
+/**
+ * Months of the seasons used as seasonal values
+ */
+const SEASON_MONTHS: ReadonlyMap<string, readonly number[]> = new Map([
+	['spring', [2, 3, 4]],
+	['summer', [5, 6, 7]],
+	['autumn', [8, 9, 10]],
+	['winter', [11, 0, 1]],
+]);
+
+const STATUS_LABELS: Record<SeasonalStatus, string> = {
+	available: 'Likely available',
+	off_season: 'Likely off for winter',
+	unknown: 'Seasonal, availability unknown',
+};
+
+const DEFAULT_SEASON = parseMonthList(SEASONALITY.season);
+const SEASONAL_OPERATORS: readonly string[] = SEASONALITY.seasonalOperators;
+
+/**
+ * Parse a seasonal value: "yes", seasons (e.g. "spring;summer") or months (e.g. "May-Sep")
+ * @returns Months, the regional season for "yes", or null if the value can't be read
+ */
+function parseSeasonalValue(value: string): readonly number[] | null {
+	if (value.toLowerCase() === 'yes') return DEFAULT_SEASON;
+
+	const parts = value.toLowerCase().split(/\s*[;,]\s*/);
+	if (parts.every((part) => SEASON_MONTHS.has(part))) {
+		const months = new Set(parts.flatMap((part) => SEASON_MONTHS.get(part) ?? []));
+		return [...months].sort((a, b) => a - b);
+	}
+	return parseMonthList(value.replace(/;/g, ','));
+}
+
+/**
+ * Read the season of a facility
+ * An explicit seasonal tag wins over notes and operator defaults
+ * @returns Season, or null if the facility is available all year
+ */
+export function seasonalityOf(tags: Tags): Seasonality | null {
+	const seasonal = tags.seasonal?.trim();
+	if (seasonal?.toLowerCase() === 'no') return null;
+	if (seasonal) {
+		return { months: parseSeasonalValue(seasonal), source: 'tag' };
+	}
+
+	const note = tags.note ?? '';
+	if (SEASONALITY.offSeasonNotes.some((pattern) => pattern.test(note))) {
+		return { months: DEFAULT_SEASON, source: 'note' };
+	}
+	if (tags.operator && SEASONAL_OPERATORS.includes(tags.operator)) {
+		return { months: DEFAULT_SEASON, source: 'operator' };
+	}
+	return null;
+}
+
+/**
+ * Availability of a facility on a date
+ */
+export function seasonalStatusAt(element: Element, date: Date = new Date()): SeasonalStatus {
+	const seasonality = seasonalityOf(element.tags);
+	if (!seasonality) return 'available';
+	if (!seasonality.months) return 'unknown';
+	return seasonality.months.includes(date.getMonth()) ? 'available' : 'off_season';
+}
+
+/**
+ * Check whether a facility may be on at a date; unknown seasons count as available
+ */
+export function isLikelyAvailable(element: Element, date: Date = new Date()): boolean {
+	return seasonalStatusAt(element, date) !== 'off_season';
+}
+
+/**
+ * Format months as a range where they are consecutive, e.g. "Apr–Oct" or "Nov–Feb"
+ */
+function formatMonths(months: readonly number[]): string {
+	const starts = months.filter((month) => !months.includes((month + 11) % 12));
+	const [start] = starts;
+	if (starts.length !== 1 || start === undefined) {
+		return months.map((month) => MONTH_LABELS[month]).join(', ');
+	}
+
+	const end = (start + months.length - 1) % 12;
+	return start === end
+		? (MONTH_LABELS[start] ?? '')
+		: `${MONTH_LABELS[start]}–${MONTH_LABELS[end]}`;
+}
+
+/**
+ * Status line, e.g. "Likely off for winter (usually on Apr–Oct)"
+ */
+export function formatSeasonalStatus(seasonality: Seasonality, status: SeasonalStatus): string {
+	const label = STATUS_LABELS[status];
+	return seasonality.months ? `${label} (usually on ${formatMonths(seasonality.months)})` : label;
+}
@@ -0,0 +1,373 @@
+/**
+ * Marker clustering
+ * At low zooms, facility markers sharing a cell of a pixel grid are replaced by a cluster badge
+ * with counts per facility kind. Clicking a small cluster spreads its markers around it
+ * (spiderfy); clicking a large one zooms in. The nearest facility is never clustered
+ */
+
+import * as L from 'leaflet';
+import { MARKER_CLUSTERING } from '../../core/config';
+import type { FacilityKind } from '../../types/facilities';
+import type { LatLon } from '../../types/overpass';
+import { FACILITY_DEFINITIONS, facilityDefinition } from '../facilities/registry';
+import type { FacilityLayer } from './markers';
+import type { MarkerReconciler, ReconciledMarker } from './reconcile';
+
+/**
+ * Point in map pixel coordinates
+ */
+export type PixelPoint = {
+	readonly x: number;
+	readonly y: number;
+};
+
+/**
+ * Items sharing a grid cell
+ */
+export type Cluster<T> = {
+	readonly key: string; // Grid cell "x/y"
+	readonly members: readonly T[];
+	readonly center: LatLon; // Mean member position
+};
+
+/**
+ * Facility counts of a cluster
+ */
+export type KindCounts = Partial<Record<FacilityKind, number>>;
+
+/**
+ * Clustering of the facility layers of a map
+ */
+export type MarkerClusters = {
+	/** Re-cluster after markers changed or layers were toggled; restyles alone change nothing */
+	readonly refresh: () => void;
+	/** Show all markers again and stop clustering */
+	readonly dispose: () => void;
+};
+
+/**
+ * Marker of a facility layer, as seen by clustering
+ */
+type ClusterMember = ReconciledMarker & {
+	readonly kind: FacilityKind;
+	readonly layer: FacilityLayer;
+};
+
+/**
+ * Markers spread out around their cluster
+ */
+type Spiderfied = {
+	readonly zoom: number; // Legs are laid out in pixels at this zoom
+	readonly badge: L.Marker;
+	readonly legs: L.Polyline[];
+	readonly members: ReadonlyArray<{ readonly member: ClusterMember; readonly latLng: L.LatLng }>;
+};
+
+/**
+ * Clustering input: the zoom and the markers eligible for clustering
+ */
+type ClusterInput = {
+	readonly zoom: number;
+	readonly markers: ReadonlySet<L.Layer>;
+};
+
+/**
+ * Whether two marker sets hold the same markers
+ */
+function sameMarkers(a: ReadonlySet<L.Layer>, b: ReadonlySet<L.Layer>): boolean {
+	return a.size === b.size && [...a].every((marker) => b.has(marker));
+}
+
+/**
+ * Non-zero counts in badge order
+ */
+function countEntries(counts: KindCounts): Array<[FacilityKind, number]> {
+	return FACILITY_DEFINITIONS.map(({ kind }): [FacilityKind, number] => [
+		kind,
+		counts[kind] ?? 0,
+	]).filter(([, count]) => count > 0);
+}
+
+/**
+ * Group items by the pixel grid cell they fall into
+ * @param items - Items to cluster
+ * @param getPosition - Item position
+ * @param project - Position to pixel coordinates at the clustering zoom
+ * @param cellSize - Grid cell size in pixels
+ */
+export function groupIntoClusters<T>(
+	items: readonly T[],
+	getPosition: (item: T) => LatLon,
+	project: (position: LatLon) => PixelPoint,
+	cellSize: number
+): Cluster<T>[] {
+	const cells: Map<string, T[]> = new Map();
+	for (const item of items) {
+		const { x, y } = project(getPosition(item));
+		const key = `${Math.floor(x / cellSize)}/${Math.floor(y / cellSize)}`;
+		const members = cells.get(key);
+		if (members) {
+			members.push(item);
+		} else {
+			cells.set(key, [item]);
+		}
+	}
+
+	return [...cells].map(([key, members]) => ({
+		key,
+		members,
+		center: {
+			lat: members.reduce((sum, item) => sum + getPosition(item).lat, 0) / members.length,
+			lon: members.reduce((sum, item) => sum + getPosition(item).lon, 0) / members.length,
+		},
+	}));
+}
+
+/**
+ * Count cluster members per facility kind
+ */
+export function countByKind(members: ReadonlyArray<{ readonly kind: FacilityKind }>): KindCounts {
+	const counts: KindCounts = {};
+	for (const { kind } of members) {
+		counts[kind] = (counts[kind] ?? 0) + 1;
+	}
+	return counts;
+}
+
+/**
+ * Badge HTML: the total count inside a ring split by each kind's share
+ */
+export function clusterBadgeHtml(counts: KindCounts): string {
+	const entries = countEntries(counts);
+	const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+	let start = 0;
+	const stops = entries.map(([kind, count]) => {
+		const end = start + (count / total) * 360;
+		const stop = `${facilityDefinition(kind).color} ${start}deg ${end}deg`;
+		start = end;
+		return stop;
+	});
+
+	return (
+		`<div class="facility-cluster-badge" style="background: conic-gradient(${stops.join(', ')})">` +
+		`<span>${total}</span>` +
+		`</div>`
+	);
+}
+
+/**
+ * Accessible badge description, e.g. "12 water points, 1 toilet"
+ */
+export function clusterLabel(counts: KindCounts): string {
+	return countEntries(counts)
+		.map(([kind, count]) => `${count} ${facilityDefinition(kind).nouns[count === 1 ? 0 : 1]}`)
+		.join(', ');
+}
+
+/**
+ * Pixel offsets spreading markers on a circle around their cluster
+ * The circle grows with the count so neighbouring markers don't overlap
+ */
+export function spiderfyOffsets(
+	count: number,
+	radius: number = MARKER_CLUSTERING.spiderfyRadius
+): PixelPoint[] {
+	const circleRadius = radius * Math.max(1, count / 8);
+	return Array.from({ length: count }, (_, i) => {
+		const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+		return { x: circleRadius * Math.cos(angle), y: circleRadius * Math.sin(angle) };
+	});
+}
+
+/**
+ * Cluster the markers of facility layers
+ * Clustered markers are removed from their layer while their badge is shown; call refresh
+ * whenever the reconcilers updated
+ * @param map - Leaflet map instance
+ * @param layers - Reconciled markers of each facility layer
+ */
+export function createMarkerClusters(
+	map: L.Map,
+	layers: Readonly<Record<FacilityKind, MarkerReconciler>>
+): MarkerClusters {
+	const clusterLayer = L.layerGroup().addTo(map);
+	let hidden: Map<L.Layer, ClusterMember> = new Map();
+	let spiderfied: Spiderfied | null = null;
+	let badges: L.Marker[] = [];
+	let clusteredFrom: ClusterInput | null = null;
+
+	const unspiderfy = (): void => {
+		if (!spiderfied) return;
+		for (const { member, latLng } of spiderfied.members) {
+			member.layer.removeLayer(member.marker);
+			member.marker.setLatLng(latLng);
+		}
+		for (const leg of spiderfied.legs) {
+			clusterLayer.removeLayer(leg);
+		}
+		clusterLayer.addLayer(spiderfied.badge);
+		spiderfied = null;
+	};
+
+	const spiderfy = (cluster: Cluster<ClusterMember>, badge: L.Marker): void => {
+		unspiderfy();
+
+		const origin = badge.getLatLng();
+		const centre = map.latLngToLayerPoint(origin);
+		const offsets = spiderfyOffsets(cluster.members.length);
+		const legs: L.Polyline[] = [];
+
+		const members = cluster.members.map((member, i) => {
+			const offset = offsets[i] ?? { x: 0, y: 0 };
+			const position = map.layerPointToLatLng(centre.add(L.point(offset.x, offset.y)));
+			legs.push(
+				L.polyline([origin, position], {
+					color: '#555',
+					weight: 1.5,
+					opacity: 0.6,
+					interactive: false,
+				}).addTo(clusterLayer)
+			);
+
+			const latLng = member.marker.getLatLng();
+			member.marker.setLatLng(position);
+			member.layer.addLayer(member.marker);
+			return { member, latLng };
+		});
+
+		clusterLayer.removeLayer(badge);
+		spiderfied = { zoom: map.getZoom(), badge, legs, members };
+	};
+
+	const createBadge = (cluster: Cluster<ClusterMember>): L.Marker => {
+		const counts = countByKind(cluster.members);
+		const badge = L.marker([cluster.center.lat, cluster.center.lon], {
+			icon: L.divIcon({
+				html: clusterBadgeHtml(counts),
+				className: 'facility-cluster',
+				iconSize: [36, 36],
+			}),
+			title: clusterLabel(counts),
+			alt: clusterLabel(counts),
+		});
+
+		badge.on('click', () => {
+			if (cluster.members.length > MARKER_CLUSTERING.spiderfyMaxCount) {
+				const bounds = L.latLngBounds(
+					cluster.members.map((member): L.LatLngTuple => [member.element.lat, member.element.lon])
+				);
+				map.fitBounds(bounds, { padding: [40, 40] });
+			} else {
+				spiderfy(cluster, badge);
+			}
+		});
+		return badge;
+	};
+
+	const refresh = (): void => {
+		const current = (Object.keys(layers) as FacilityKind[]).flatMap((kind) => {
+			const reconciler = layers[kind];
+			return reconciler.markers().map((marker) => ({ ...marker, kind, layer: reconciler.layer }));
+		});
+		const eligible = current.filter((member) => !member.isNearest && map.hasLayer(member.layer));
+
+		// Restyled markers keep their identity; with the same markers the clusters are unchanged
+		const input: ClusterInput = {
+			zoom: map.getZoom(),
+			markers: new Set(eligible.map((member) => member.marker)),
+		};
+		if (
+			clusteredFrom &&
+			clusteredFrom.zoom === input.zoom &&
+			sameMarkers(clusteredFrom.markers, input.markers)
+		) {
+			return;
+		}
+		clusteredFrom = input;
+
+		const { zoom } = input;
+		const clusters =
+			zoom > MARKER_CLUSTERING.maxZoom
+				? []
+				: groupIntoClusters(
+						eligible,
+						(member) => member.element,
+						(position) => map.project([position.lat, position.lon], zoom),
+						MARKER_CLUSTERING.cellSize
+					).filter((cluster) => cluster.members.length > 1);
+
+		// A spread-out cluster whose members are unchanged stays open (with any open popup)
+		const spread = spiderfied;
+		const kept =
+			spread && spread.zoom === zoom
+				? clusters.find((cluster) =>
+						sameMarkers(
+							new Set(cluster.members.map((member) => member.marker)),
+							new Set(spread.members.map(({ member }) => member.marker))
+						)
+					)
+				: undefined;
+		if (!kept) unspiderfy();
+		for (const badge of badges) {
+			clusterLayer.removeLayer(badge);
+		}
+
+		const nextHidden: Map<L.Layer, ClusterMember> = new Map();
+		badges = clusters.map((cluster) => {
+			for (const member of cluster.members) {
+				nextHidden.set(member.marker, member);
+			}
+			const badge = createBadge(cluster);
+			if (cluster !== kept) clusterLayer.addLayer(badge);
+			return badge;
+		});
+
+		if (kept && spread) {
+			const byMarker = new Map(kept.members.map((member) => [member.marker, member]));
+			spiderfied = {
+				...spread,
+				badge: badges[clusters.indexOf(kept)] ?? spread.badge,
+				members: spread.members.map(({ member, latLng }) => ({
+					member: byMarker.get(member.marker) ?? member,
+					latLng,
+				})),
+			};
+		}
+
+		// Show markers no longer clustered (unless their facility was dropped meanwhile)
+		const managed = new Set<L.Layer>(current.map((member) => member.marker));
+		for (const [marker, member] of hidden) {
+			if (!nextHidden.has(marker) && managed.has(marker)) {
+				member.layer.addLayer(marker);
+			}
+		}
+		for (const [marker, member] of nextHidden) {
+			if (!kept?.members.includes(member)) member.layer.removeLayer(marker);
+		}
+		hidden = nextHidden;
+	};
+
+	// Clicks on circle markers bubble up to the map; only a click on the map itself collapses
+	const onMapClick = (event: L.LeafletMouseEvent): void => {
+		if (event.sourceTarget === map) unspiderfy();
+	};
+
+	map.on('zoomend', refresh);
+	map.on('click', onMapClick);
+
+	return {
+		refresh,
+		dispose: () => {
+			map.off('zoomend', refresh);
+			map.off('click', onMapClick);
+			unspiderfy();
+			for (const [marker, member] of hidden) {
+				member.layer.addLayer(marker);
+			}
+			hidden = new Map();
+			clusteredFrom = null;
+			clusterLayer.remove();
+		},
+	};
+}
@@ -2,122 +2,58 @@
  * Marker creation and management
  */
 
-import type * as L from 'leaflet';
+import * as L from 'leaflet';
+import { OUTLINE_MIN_ZOOM } from '../../core/config';
 import type { Element } from '../../types/overpass';
-import { attachPopupHandlers, createPopupContent } from './popup';
-import {
-	createGenericMarker,
-	getToiletMarkerStyle,
-	getWaterMarkerStyle,
-	isSeasonalMarker,
-} from './styling';
 
 /**
- * Create a circle marker for a water tap element
+ * Layer holding facility markers and the outlines of way/relation facilities
  */
-function createMarker(element: Element, isNearest = false): L.CircleMarker | L.Marker | null {
-	// Validate coordinates
-	if (!Number.isFinite(element.lat) || !Number.isFinite(element.lon)) {
-		return null;
-	}
-
-	// Get marker style using generic styling function
-	const seasonal = isSeasonalMarker(element);
-	const style = getWaterMarkerStyle(element, { isNearest, isSeasonal: seasonal });
-
-	// Create marker using generic factory
-	const marker = createGenericMarker(element.lat, element.lon, style);
-
-	// Add nearest class if applicable
-	if (isNearest && 'options' in marker) {
-		marker.options.className = 'nearest-marker';
-	}
-
-	return marker;
-}
+export type FacilityLayer = L.FeatureGroup<L.CircleMarker | L.Marker | L.Path>;
 
 /**
- * Add water tap markers to a layer
- * @param elements - Array of water tap elements
- * @param layer - Leaflet layer to add markers to
- * @param map - Leaflet map instance (for popup handlers)
- * @param nearestPoint - Optional nearest water point to highlight
+ * Map container class that reveals facility outlines
  */
-export function addMarkers(
-	elements: Element[],
-	layer: L.FeatureGroup<L.CircleMarker | L.Marker>,
-	_map: L.Map,
-	nearestPoint: Element | null = null
-): void {
-	elements.forEach((element) => {
-		const isNearest = nearestPoint !== null && element.id === nearestPoint.id;
-		const marker = createMarker(element, isNearest);
-		if (!marker) return;
-
-		// Add marker to layer
-		marker.addTo(layer);
-
-		// Create and bind popup
-		const popupContent = createPopupContent(element);
-		marker.bindPopup(popupContent);
-
-		// Attach popup event handlers
-		attachPopupHandlers(marker, element);
-	});
-}
-
-// Keep backward compatibility alias
-export const addMarkersToLayer = addMarkers;
+const SHOW_OUTLINES_CLASS = 'show-outlines';
 
 /**
- * Create a circle marker for a toilet element
+ * Create the outline of a way or relation facility
+ * Closed rings become polygons, open ways (e.g. a line of taps) polylines;
+ * outlines are hidden by CSS until the map reaches OUTLINE_MIN_ZOOM
+ * @returns Outline path, or null for nodes and elements without geometry
  */
-function createToiletMarker(element: Element, isNearest = false): L.CircleMarker | L.Marker | null {
-	// Validate coordinates
-	if (!Number.isFinite(element.lat) || !Number.isFinite(element.lon)) {
+export function createOutline(element: Element, color: string): L.Path | null {
+	if (!element.outline || element.outline.length === 0) {
 		return null;
 	}
 
-	// Get marker style using toilet styling function
-	const style = getToiletMarkerStyle(element, { isNearest });
-
-	// Create marker using generic factory
-	const marker = createGenericMarker(element.lat, element.lon, style);
-
-	// Add nearest class if applicable
-	if (isNearest && 'options' in marker) {
-		marker.options.className = 'nearest-marker';
-	}
+	const rings = element.outline.map((ring) => ring.map((p): L.LatLngTuple => [p.lat, p.lon]));
+	const options: L.PolylineOptions = {
+		color,
+		weight: 2,
+		fillOpacity: 0.15,
+		interactive: false,
+		className: 'facility-outline',
+	};
+
+	const closed = rings.every((ring) => {
+		const first = ring[0];
+		const last = ring[ring.length - 1];
+		return ring.length > 3 && first?.[0] === last?.[0] && first?.[1] === last?.[1];
+	});
 
-	return marker;
+	return closed ? L.polygon(rings, options) : L.polyline(rings, options);
 }
 
 /**
- * Add toilet markers to a layer
- * @param elements - Array of toilet elements
- * @param layer - Leaflet layer to add markers to
- * @param map - Leaflet map instance (for popup handlers)
- * @param nearestPoint - Optional nearest toilet to highlight
+ * Toggle outline visibility with the map zoom
+ * @param map - Leaflet map instance
  */
-export function addToiletMarkers(
-	elements: Element[],
-	layer: L.FeatureGroup<L.CircleMarker | L.Marker>,
-	_map: L.Map,
-	nearestPoint: Element | null = null
-): void {
-	elements.forEach((element) => {
-		const isNearest = nearestPoint !== null && element.id === nearestPoint.id;
-		const marker = createToiletMarker(element, isNearest);
-		if (!marker) return;
-
-		// Add marker to layer
-		marker.addTo(layer);
+export function setupOutlineVisibility(map: L.Map): void {
+	const update = () => {
+		map.getContainer().classList.toggle(SHOW_OUTLINES_CLASS, map.getZoom() >= OUTLINE_MIN_ZOOM);
+	};
 
-		// Create and bind popup
-		const popupContent = createPopupContent(element);
-		marker.bindPopup(popupContent);
-
-		// Attach popup event handlers
-		attachPopupHandlers(marker, element);
-	});
+	map.on('zoomend', update);
+	update();
 }
@@ -0,0 +1,55 @@
+/**
+ * Overview layer
+ * Draws facility counts per overview cell; clicking a cell zooms into it
+ */
+
+import * as L from 'leaflet';
+import type { OverviewCell } from '../data/overview';
+import { clusterBadgeHtml, clusterLabel } from './clustering';
+
+/**
+ * Overview layer instance
+ */
+export type OverviewLayer = {
+	/** Replace the shown cells; cells without facilities are skipped */
+	readonly show: (cells: readonly OverviewCell[]) => void;
+	readonly clear: () => void;
+};
+
+/**
+ * Create the overview layer of a map
+ */
+export function createOverviewLayer(map: L.Map): OverviewLayer {
+	const layer = L.layerGroup().addTo(map);
+
+	const show = (cells: readonly OverviewCell[]): void => {
+		layer.clearLayers();
+
+		for (const { bbox, counts } of cells) {
+			if (!Object.values(counts).some((count) => count > 0)) continue;
+
+			const bounds = L.latLngBounds([bbox.south, bbox.west], [bbox.north, bbox.east]);
+			const zoomIn = () => map.fitBounds(bounds);
+
+			L.rectangle(bounds, { className: 'overview-cell', weight: 1 })
+				.on('click', zoomIn)
+				.addTo(layer);
+			L.marker(bounds.getCenter(), {
+				icon: L.divIcon({
+					html: clusterBadgeHtml(counts),
+					className: 'facility-cluster',
+					iconSize: [36, 36],
+				}),
+				title: `${clusterLabel(counts)} - zoom in to see them`,
+				alt: clusterLabel(counts),
+			})
+				.on('click', zoomIn)
+				.addTo(layer);
+		}
+	};
+
+	return {
+		show,
+		clear: () => layer.clearLayers(),
+	};
+}
@@ -0,0 +1,288 @@
+/**
+ * Popup sections
+ * Building blocks of facility popups; each facility definition lists the sections of its popup.
+ * A section renders to an empty string when it has nothing to show
+ */
+
+import type { Element } from '../../types/overpass';
+import { isOk } from '../../types/result';
+import { escapeHtml } from '../../utils/html';
+import { osmElementUrl } from '../data/elements';
+import type { DaySchedule } from '../hours/openingHours';
+import {
+	formatMinutes,
+	formatOpeningStatus,
+	openingHoursOf,
+	openingStatusAt,
+	WEEKDAY_LABELS,
+	weeklySchedule,
+} from '../hours/openingHours';
+import { formatSeasonalStatus, seasonalityOf, seasonalStatusAt } from '../hours/seasonality';
+import { formatRecommendation } from '../ranking/scoring';
+
+/**
+ * One section of a popup
+ * @param now - Time opening hours and seasons are evaluated at
+ */
+export type PopupSection = (element: Element, now: Date) => string;
+
+/**
+ * Get user-friendly label and icon for water source type
+ */
+export function getWaterSourceLabel(element: Element): {
+	label: string;
+	icon: string;
+	color: string;
+} {
+	if (element.tags.natural === 'spring') {
+		return { label: 'Natural Spring', icon: '💧', color: '#00BCD4' };
+	}
+	if (element.tags.man_made === 'water_well') {
+		return { label: 'Water Well', icon: '🪣', color: '#795548' };
+	}
+	if (element.tags.man_made === 'water_tap') {
+		return { label: 'Water Tap', icon: '🚰', color: '#2196F3' };
+	}
+	if (element.tags.waterway === 'water_point') {
+		return { label: 'Water Point', icon: '🌊', color: '#009688' };
+	}
+	if (element.tags.amenity === 'drinking_water') {
+		return { label: 'Drinking Water', icon: '🚰', color: '#4CAF50' };
+	}
+	return { label: 'Water Source', icon: '💧', color: '#0078ff' };
+}
+
+/**
+ * Check if water is drinkable
+ */
+function isDrinkable(element: Element): boolean {
+	const drinkingWater = (element.tags.drinking_water || '').toLowerCase();
+	return drinkingWater !== 'no';
+}
+
+/**
+ * Title of a water source, with a warning if it isn't drinkable
+ */
+export const waterTitleSection: PopupSection = (element) => {
+	const sourceInfo = getWaterSourceLabel(element);
+	const drinkable = isDrinkable(element);
+
+	const title =
+		`<strong style="color: ${drinkable ? sourceInfo.color : '#FF5722'};">` +
+		`${sourceInfo.icon} ${sourceInfo.label}` +
+		`</strong>` +
+		`<div style="font-size: 0.85em; color: #666;">ID: ${element.id}</div>`;
+	if (drinkable) return title;
+
+	return (
+		title +
+		`<div style="background: #FFF3E0; border-left: 3px solid #FF9800; padding: 8px; margin: 8px 0; border-radius: 4px;">` +
+		`<strong style="color: #F57C00;">⚠️ Not Drinkable</strong><br>` +
+		`<span style="font-size: 0.9em; color: #666;">This water source is not safe for drinking.</span>` +
+		`</div>`
+	);
+};
+
+/**
+ * Title of a public toilet
+ */
+export const toiletTitleSection: PopupSection = (element) =>
+	`<strong style="color: #795548;">` +
+	`🚻 Public Toilet` +
+	`</strong>` +
+	`<div style="font-size: 0.85em; color: #666;">ID: ${element.id}</div>`;
+
+/**
+ * Title of a refill station: the venue's name when tagged
+ */
+export const refillTitleSection: PopupSection = (element) => {
+	const venue = element.tags.name;
+	return (
+		`<strong style="color: #3F51B5;">` +
+		`🥤 ${venue ? escapeHtml(venue) : 'Refill Station'}` +
+		`</strong>` +
+		`<div style="font-size: 0.85em; color: #666;">${venue ? 'Refill station, ' : ''}ID: ${element.id}</div>`
+	);
+};
+
+/**
+ * Who may refill at a venue, when restricted
+ */
+export const refillConditionsSection: PopupSection = (element) => {
+	const access = (element.tags.access || '').toLowerCase();
+	const condition =
+		access === 'customers'
+			? 'Customers only'
+			: access === 'permit'
+				? 'Ask staff before refilling'
+				: null;
+	if (!condition) return '';
+
+	return (
+		`<div class="refill-conditions" style="background: #E8EAF6; border-left: 3px solid #3F51B5; padding: 8px; margin: 8px 0; border-radius: 4px;">` +
+		`<strong style="color: #283593;">🛒 ${condition}</strong><br>` +
+		`<span style="font-size: 0.9em; color: #666;">The venue may expect a purchase in return.</span>` +
+		`</div>`
+	);
+};
+
+/**
+ * Distance from the user, when known
+ */
+export const distanceSection: PopupSection = (element) => {
+	if (element.distanceFromUser === undefined) return '';
+
+	const distanceKm = element.distanceFromUser / 1000;
+	const distanceStr =
+		distanceKm < 1 ? `${Math.round(element.distanceFromUser)}m` : `${distanceKm.toFixed(2)}km`;
+	return `<div><strong>Distance: ${distanceStr}</strong></div>`;
+};
+
+/**
+ * Nearest facility indicator
+ * @param name - Facility name, e.g. "water point"
+ */
+export function nearestSection(name: string): PopupSection {
+	return (element) =>
+		element.isNearest ? `<div style="color: #FFD700;">⭐ Nearest ${name}</div>` : '';
+}
+
+/**
+ * Why the facility is recommended, if it is
+ */
+export const recommendationSection: PopupSection = (element) => {
+	if (!element.recommendation) return '';
+	return `<div class="recommendation" style="color: #8E24AA;"><strong>👍 ${escapeHtml(formatRecommendation(element.recommendation))}</strong></div>`;
+};
+
+/**
+ * A tag shown verbatim, e.g. "Operator: Rīgas ūdens"
+ */
+export function tagSection(key: string, label: string): PopupSection {
+	return (element) => {
+		const value = element.tags[key];
+		return value ? `<div>${label}: ${escapeHtml(value)}</div>` : '';
+	};
+}
+
+/**
+ * Hours of one day in the weekly table
+ */
+function formatDaySchedule(day: DaySchedule): string {
+	if (day.state === 'closed') return 'Closed';
+	if (day.state === 'unknown') return escapeHtml(day.comment ?? 'Varies');
+	const ranges = day.ranges.map((range) =>
+		range.from === 0 && range.to === 24 * 60
+			? '24 hours'
+			: `${formatMinutes(range.from)}–${formatMinutes(range.to)}`
+	);
+	return escapeHtml(day.comment ? `${ranges.join(', ')} (${day.comment})` : ranges.join(', '));
+}
+
+/**
+ * Opening hours: current status and the weekly table
+ * Values the evaluator can't read are shown verbatim and flagged instead of interpreted
+ * @param ifMissing - Shown when the facility has no opening_hours; nothing if omitted
+ */
+export function openingHoursSection(ifMissing?: string): PopupSection {
+	return (element, now) => {
+		const value = element.tags.opening_hours;
+		if (!value) {
+			return ifMissing ? `<div style="color: #666;">🕒 ${escapeHtml(ifMissing)}</div>` : '';
+		}
+
+		const hours = openingHoursOf(element);
+		if (!hours || !isOk(hours)) {
+			return (
+				`<div>🕒 Hours: ${escapeHtml(value)}</div>` +
+				`<div class="opening-hours-unreadable" style="color: #F57C00;">⚠️ Could not read these opening hours; please check on site</div>`
+			);
+		}
+
+		const status = openingStatusAt(hours.value, now);
+		const color = { open: '#2E7D32', closed: '#C62828', unknown: '#666' }[status.state];
+		const today = now.getDate();
+		const rows = weeklySchedule(hours.value, now).map(
+			(day, i) =>
+				`<tr${day.date.getDate() === today ? ' class="opening-hours-today"' : ''}>` +
+				`<th scope="row">${WEEKDAY_LABELS[i]}</th><td>${formatDaySchedule(day)}</td></tr>`
+		);
+
+		return (
+			`<div class="opening-status" style="color: ${color};"><strong>🕒 ${escapeHtml(formatOpeningStatus(status, now))}</strong></div>` +
+			`<table class="opening-hours-table">${rows.join('')}</table>`
+		);
+	};
+}
+
+/**
+ * Seasonal availability of a seasonal facility; nothing if it is year-round
+ */
+export const seasonalSection: PopupSection = (element, now) => {
+	const seasonality = seasonalityOf(element.tags);
+	if (!seasonality) return '';
+
+	const status = seasonalStatusAt(element, now);
+	const color = { available: '#2E7D32', off_season: '#C62828', unknown: '#666' }[status];
+	return `<div class="seasonal-status" style="color: ${color};">❄️ ${escapeHtml(formatSeasonalStatus(seasonality, status))}</div>`;
+};
+
+/**
+ * Toilet wheelchair accessibility, stating when it is unknown
+ */
+export const toiletAccessibilitySection: PopupSection = (element) => {
+	const wheelchair = (element.tags.wheelchair || '').toLowerCase();
+	if (wheelchair === 'yes') {
+		return (
+			`<div style="background: #E8F5E9; border-left: 3px solid #4CAF50; padding: 8px; margin: 8px 0; border-radius: 4px;">` +
+			`<strong style="color: #2E7D32;">♿ Wheelchair Accessible</strong>` +
+			`</div>`
+		);
+	}
+	if (wheelchair === 'no') return `<div>♿ Not wheelchair accessible</div>`;
+	if (wheelchair === 'limited') return `<div>♿ Limited wheelchair access</div>`;
+	return `<div style="color: #666;">♿ Accessibility information unavailable</div>`;
+};
+
+/**
+ * Baby changing table, when tagged
+ */
+export const changingTableSection: PopupSection = (element) => {
+	const changingTable = (element.tags.changing_table || '').toLowerCase();
+	if (changingTable === 'yes') return `<div>🍼 Baby changing table available</div>`;
+	if (changingTable === 'no') return `<div>🍼 No changing table</div>`;
+	return '';
+};
+
+/**
+ * Fee status, when tagged
+ */
+export const feeSection: PopupSection = (element) => {
+	const fee = (element.tags.fee || '').toLowerCase();
+	if (fee === 'yes') return `<div>💵 Fee required</div>`;
+	if (fee === 'no') return `<div>✅ Free</div>`;
+	return '';
+};
+
+/**
+ * Gender-neutral facility, when tagged unisex=yes
+ */
+export const unisexSection: PopupSection = (element) =>
+	(element.tags.unisex || '').toLowerCase() === 'yes' ? `<div>Gender-neutral facility</div>` : '';
+
+/**
+ * Navigate button and OpenStreetMap link
+ * @param describe - Name of the facility for the button's label, e.g. "toilet"
+ */
+export function actionsSection(describe: (element: Element) => string): PopupSection {
+	return (element) =>
+		`<div class="popup-actions">` +
+		`<button type="button" class="navigate-btn" data-lat="${element.lat}" data-lon="${element.lon}" aria-label="Navigate to ${describe(element)} ${element.id}">` +
+		`<span class="icon" aria-hidden="true">🧭</span>` +
+		`<span class="label">Navigate</span>` +
+		`</button>` +
+		`<a class="popup-secondary" target="_blank" rel="noreferrer" href="${osmElementUrl(element)}">` +
+		`Open on OpenStreetMap` +
+		`</a>` +
+		`</div>`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Keyed marker reconciliation
+ * Keeps one marker per facility (keyed by OSM type and id) across refetches: new facilities
+ * are added, facilities no longer loaded are removed, and markers whose style changed are
+ * restyled in place. Markers are never rebuilt wholesale, so an open popup survives a refresh
+ */
+
+import * as L from 'leaflet';
+import type { Element } from '../../types/overpass';
+import { elementKey } from '../../types/overpass';
+import type { FacilityDefinition } from '../facilities/registry';
+import type { FacilityLayer } from './markers';
+import { createOutline } from './markers';
+import { attachPopupHandlers, createPopupContent } from './popup';
+import type { MarkerStyle, StyleOptions } from './styling';
+import { createGenericMarker } from './styling';
+
+/**
+ * Style function of a facility layer (e.g. getWaterMarkerStyle)
+ */
+export type MarkerStyler = (element: Element, options?: StyleOptions) => MarkerStyle;
+
+/**
+ * Current marker of one facility
+ */
+export type ReconciledMarker = {
+	readonly key: string;
+	readonly element: Element;
+	readonly marker: L.CircleMarker | L.Marker;
+	readonly isNearest: boolean;
+};
+
+/**
+ * Reconciled markers of one facility layer
+ */
+export type MarkerReconciler = {
+	readonly layer: FacilityLayer;
+	/** Markers currently managed, including any temporarily hidden by clustering */
+	readonly markers: () => ReconciledMarker[];
+	/** Make the layer show exactly the given facilities, highlighting the nearest */
+	readonly update: (elements: readonly Element[], nearest?: Element | null) => void;
+	/** Remove all markers */
+	readonly clear: () => void;
+	readonly size: () => number;
+};
+
+/**
+ * Marker of one facility
+ */
+type MarkerEntry = {
+	readonly element: Element; // Latest data, read when the popup opens
+	readonly signature: string; // Position and tags the marker was built from
+	readonly styleKey: string; // Style the marker currently shows
+	readonly marker: L.CircleMarker | L.Marker;
+	readonly outline: L.Path | null;
+	readonly isNearest: boolean;
+};
+
+/**
+ * Marker class of the highlighted nearest facility
+ */
+const NEAREST_CLASS = 'nearest-marker';
+
+/**
+ * Data a marker is built from; a change means the marker must be rebuilt
+ */
+function markerSignature(element: Element): string {
+	return JSON.stringify([element.lat, element.lon, element.tags, element.outline?.length ?? 0]);
+}
+
+/**
+ * Apply a new style to an existing marker
+ * @returns false when the marker shape changed and the marker must be rebuilt
+ */
+function restyleMarker(marker: L.CircleMarker | L.Marker, style: MarkerStyle): boolean {
+	if (marker instanceof L.CircleMarker && style.iconType !== 'crossed') {
+		marker.setStyle({
+			color: style.color,
+			weight: style.weight,
+			fillColor: style.fillColor,
+			fillOpacity: style.fillOpacity,
+		});
+		marker.setRadius(style.radius);
+		return true;
+	}
+	if (marker instanceof L.Marker && style.iconType === 'crossed') {
+		const { lat, lng } = marker.getLatLng();
+		marker.setIcon((createGenericMarker(lat, lng, style) as L.Marker).getIcon());
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Create a reconciler for a facility layer
+ * The layer must only be changed through the reconciler
+ * @param layer - Layer holding the markers and outlines
+ * @param map - Leaflet map instance (for reopening popups of rebuilt markers)
+ * @param definition - Facility kind of the layer: marker style and popup
+ */
+export function createMarkerReconciler(
+	layer: FacilityLayer,
+	map: L.Map,
+	definition: FacilityDefinition
+): MarkerReconciler {
+	const { getStyle } = definition;
+	const entries: Map<string, MarkerEntry> = new Map();
+
+	const removeEntry = (entry: MarkerEntry): void => {
+		layer.removeLayer(entry.marker);
+		if (entry.outline) layer.removeLayer(entry.outline);
+	};
+
+	const createEntry = (key: string, element: Element, isNearest: boolean): MarkerEntry | null => {
+		if (!Number.isFinite(element.lat) || !Number.isFinite(element.lon)) {
+			return null;
+		}
+
+		const style = getStyle(element, { isNearest });
+		const marker = createGenericMarker(element.lat, element.lon, style);
+		if (isNearest && marker instanceof L.CircleMarker) {
+			marker.options.className = NEAREST_CLASS;
+		}
+
+		// Outline first so the marker stays on top
+		const outline = createOutline(element, getStyle(element).fillColor);
+		outline?.addTo(layer);
+		marker.addTo(layer);
+
+		// Content is built on open, so it always shows the latest distance
+		marker.bindPopup(() => createPopupContent(entries.get(key)?.element ?? element, definition));
+		attachPopupHandlers(marker as L.CircleMarker, element, definition);
+
+		return {
+			element,
+			signature: markerSignature(element),
+			styleKey: JSON.stringify(style),
+			marker,
+			outline,
+			isNearest,
+		};
+	};
+
+	const update = (elements: readonly Element[], nearest: Element | null = null): void => {
+		const nearestKey = nearest ? elementKey(nearest) : null;
+		const seen: Set<string> = new Set();
+
+		for (const element of elements) {
+			const key = elementKey(element);
+			if (seen.has(key)) continue;
+			seen.add(key);
+
+			const isNearest = key === nearestKey;
+			const existing = entries.get(key);
+
+			if (existing && existing.signature === markerSignature(element)) {
+				const style = getStyle(element, { isNearest });
+				const styleKey = JSON.stringify(style);
+				if (styleKey === existing.styleKey) {
+					entries.set(key, { ...existing, element, isNearest });
+					continue;
+				}
+				if (restyleMarker(existing.marker, style)) {
+					existing.marker.getElement()?.classList.toggle(NEAREST_CLASS, isNearest);
+					entries.set(key, { ...existing, element, styleKey, isNearest });
+					continue;
+				}
+			}
+
+			// New facility, or one whose data or shape changed
+			const popupWasOpen = existing?.marker.isPopupOpen() ?? false;
+			if (existing) removeEntry(existing);
+
+			const entry = createEntry(key, element, isNearest);
+			if (!entry) {
+				entries.delete(key);
+				continue;
+			}
+			entries.set(key, entry);
+			if (popupWasOpen && map.hasLayer(layer)) {
+				entry.marker.openPopup();
+			}
+		}
+
+		for (const [key, entry] of entries) {
+			if (!seen.has(key)) {
+				removeEntry(entry);
+				entries.delete(key);
+			}
+		}
+	};
+
+	return {
+		layer,
+		markers: () =>
+			[...entries].map(([key, { element, marker, isNearest }]) => ({
+				key,
+				element,
+				marker,
+				isNearest,
+			})),
+		update,
+		clear: () => {
+			layer.clearLayers();
+			entries.clear();
+		},
+		size: () => entries.size,
+	};
+}
@@ -6,6 +6,9 @@
 import * as L from 'leaflet';
 import { MARKER_STYLE } from '../../core/config';
 import type { Element } from '../../types/overpass';
+import { isClosedAt } from '../hours/openingHours';
+import type { SeasonalStatus } from '../hours/seasonality';
+import { seasonalStatusAt } from '../hours/seasonality';
 
 /**
  * Marker icon type variants
@@ -29,8 +32,10 @@ export type MarkerStyle = {
  */
 export type StyleOptions = {
 	readonly isNearest?: boolean; // Highlight as nearest point
-	readonly isSeasonal?: boolean; // Reduced opacity for seasonal
+	readonly seasonalStatus?: SeasonalStatus; // Defaults to evaluating the season now
 	readonly isHighlighted?: boolean; // User-selected highlight
+	readonly isRecommended?: boolean; // Defaults to whether the element carries a recommendation
+	readonly isClosed?: boolean; // Dimmed; defaults to evaluating opening_hours now
 };
 
 /**
@@ -56,9 +61,18 @@ export const FacilityColors = {
 		default: '#795548', // Default brown
 	},
 
+	// Refill station colors (indigo spectrum)
+	refill: {
+		open: '#3F51B5', // Indigo - anyone may refill
+		customersOnly: '#9FA8DA', // Light indigo - customers only
+		border: '#1A237E', // Dark indigo - marker border
+		default: '#3F51B5', // Default indigo
+	},
+
 	// UI colors
 	ui: {
 		nearest: '#FFD700', // Gold - nearest marker highlight
+		recommended: '#8E24AA', // Purple - recommended facility border
 		selected: '#FF9800', // Orange - user selected
 		disabled: '#9E9E9E', // Grey - disabled/closed
 	},
@@ -135,10 +149,25 @@ export function getMarkerRadius(element: Element): number {
 }
 
 /**
- * Check if marker should be seasonal (reduced opacity)
+ * Highlighted style of the nearest or recommended facility
+ * The nearest is filled gold; the recommended one keeps its fill and gets a purple border
  */
-export function isSeasonalMarker(element: Element): boolean {
-	return (element.tags.seasonal || '').toLowerCase() === 'yes';
+function highlightStyle(
+	element: Element,
+	style: MarkerStyle,
+	options?: StyleOptions
+): MarkerStyle | null {
+	const nearest = options?.isNearest || options?.isHighlighted;
+	const recommended = options?.isRecommended ?? element.recommendation !== undefined;
+	if (!nearest && !recommended) return null;
+
+	return {
+		...style,
+		color: recommended ? FacilityColors.ui.recommended : FacilityColors.ui.nearest,
+		fillColor: nearest ? FacilityColors.ui.nearest : style.fillColor,
+		radius: MarkerRadius.highlighted,
+		weight: 3,
+	};
 }
 
 /**
@@ -147,29 +176,23 @@ export function isSeasonalMarker(element: Element): boolean {
 export function getWaterMarkerStyle(element: Element, options?: StyleOptions): MarkerStyle {
 	const color = getWaterSourceColor(element);
 	const radius = getMarkerRadius(element);
-	const seasonal = isSeasonalMarker(element);
 	const drinkable = isDrinkable(element);
+	const seasonal = options?.seasonalStatus ?? seasonalStatusAt(element);
+	// Facilities likely off for winter look closed; an unknown season is shown faded
+	const closed = (options?.isClosed ?? isClosedAt(element)) || seasonal === 'off_season';
+	const fillOpacity = closed ? MARKER_STYLE.fillOpacity.closed : seasonal === 'unknown' ? 0.3 : 0.6;
 
-	// Handle nearest/highlighted markers
-	if (options?.isNearest || options?.isHighlighted) {
-		return {
-			color: FacilityColors.ui.nearest,
-			fillColor: FacilityColors.ui.nearest,
-			radius: MarkerRadius.highlighted,
-			weight: 3,
-			fillOpacity: seasonal || options.isSeasonal ? 0.3 : 0.6,
-			iconType: drinkable ? 'circle' : 'crossed',
-		};
-	}
-
-	return {
-		color: MARKER_STYLE.color,
+	const style: MarkerStyle = {
+		color: closed ? FacilityColors.ui.disabled : MARKER_STYLE.color,
 		fillColor: color,
 		radius,
 		weight: MARKER_STYLE.weight,
-		fillOpacity: seasonal || options?.isSeasonal ? 0.3 : 0.6,
+		fillOpacity,
 		iconType: drinkable ? 'circle' : 'crossed',
 	};
+
+	// Handle nearest/recommended markers
+	return highlightStyle(element, style, options) ?? style;
 }
 
 /**
@@ -222,27 +245,53 @@ export function getToiletRadius(element: Element): number {
 export function getToiletMarkerStyle(element: Element, options?: StyleOptions): MarkerStyle {
 	const color = getToiletColor(element);
 	const radius = getToiletRadius(element);
+	const seasonal = options?.seasonalStatus ?? seasonalStatusAt(element);
+	const closed = (options?.isClosed ?? isClosedAt(element)) || seasonal === 'off_season';
+	const fillOpacity = closed
+		? MARKER_STYLE.fillOpacity.closed
+		: seasonal === 'unknown'
+			? MARKER_STYLE.fillOpacity.seasonal
+			: 0.7;
 
-	// Handle nearest/highlighted markers
-	if (options?.isNearest || options?.isHighlighted) {
-		return {
-			color: FacilityColors.ui.nearest,
-			fillColor: FacilityColors.ui.nearest,
-			radius: MarkerRadius.highlighted,
-			weight: 3,
-			fillOpacity: 0.7,
-			iconType: 'circle',
-		};
-	}
-
-	return {
-		color: MARKER_STYLE.color,
+	const style: MarkerStyle = {
+		color: closed ? FacilityColors.ui.disabled : MARKER_STYLE.color,
 		fillColor: color,
 		radius,
 		weight: MARKER_STYLE.weight,
-		fillOpacity: 0.7,
+		fillOpacity,
+		iconType: 'circle',
+	};
+
+	// Handle nearest/recommended markers
+	return highlightStyle(element, style, options) ?? style;
+}
+
+/**
+ * Get marker style for refill station
+ * Indigo with a dark border and bottle-sized radius, lighter when only customers may refill
+ */
+export function getRefillMarkerStyle(element: Element, options?: StyleOptions): MarkerStyle {
+	const access = (element.tags.access || '').toLowerCase();
+	const customersOnly = access === 'customers' || access === 'permit';
+	const seasonal = options?.seasonalStatus ?? seasonalStatusAt(element);
+	const closed = (options?.isClosed ?? isClosedAt(element)) || seasonal === 'off_season';
+	const fillOpacity = closed
+		? MARKER_STYLE.fillOpacity.closed
+		: seasonal === 'unknown'
+			? MARKER_STYLE.fillOpacity.seasonal
+			: MARKER_STYLE.fillOpacity.normal;
+
+	const style: MarkerStyle = {
+		color: closed ? FacilityColors.ui.disabled : FacilityColors.refill.border,
+		fillColor: customersOnly ? FacilityColors.refill.customersOnly : FacilityColors.refill.open,
+		radius: MarkerRadius.bottle,
+		weight: 2,
+		fillOpacity,
 		iconType: 'circle',
 	};
+
+	// Handle nearest/recommended markers
+	return highlightStyle(element, style, options) ?? style;
 }
 
 /**
@@ -44,6 +44,35 @@ export function openNavigation(lat: string, lon: string, label: string): void {
  */
 const MOVEMENT_THRESHOLD_PERCENTAGE = 0.25; // 25% of viewport
 const DEBOUNCE_DELAY_MS = 300;
+const MIN_PAN_PIXELS = 10; // Smaller moves have no meaningful direction
+
+/**
+ * Direction and speed of a map pan, in screen pixels
+ * The direction is the way the map centre moved, i.e. where new areas come into view
+ */
+export type PanMotion = {
+	readonly dx: number; // Unit direction, east positive
+	readonly dy: number; // Unit direction, south positive
+	readonly speed: number; // Pixels per second
+};
+
+/**
+ * Measure a pan between two centre positions in pixel coordinates
+ * @returns Pan motion, or null for moves too small to have a direction
+ */
+export function measurePan(
+	from: { readonly x: number; readonly y: number },
+	to: { readonly x: number; readonly y: number },
+	durationMs: number
+): PanMotion | null {
+	const x = to.x - from.x;
+	const y = to.y - from.y;
+	const distance = Math.hypot(x, y);
+	if (distance < MIN_PAN_PIXELS) {
+		return null;
+	}
+	return { dx: x / distance, dy: y / distance, speed: (distance / Math.max(durationMs, 1)) * 1000 };
+}
 
 /**
  * Check if the map has moved significantly enough to warrant a refetch
@@ -83,22 +112,46 @@ export function hasMovedSignificantly(
  */
 export type BoundsChangeCallback = (bounds: L.LatLngBounds) => void;
 
+/**
+ * Options for map navigation handlers
+ */
+export type NavigationHandlerOptions = {
+	/** Called after every settled pan, including pans below the refetch threshold */
+	readonly onPan?: (motion: PanMotion, bounds: L.LatLngBounds) => void;
+};
+
 /**
  * Setup map navigation handlers for panning and zooming
- * Debounces events and only fires callback when movement exceeds threshold
+ * Debounces events and only fires callback when movement exceeds threshold;
+ * pans (moves without a zoom change) are also reported with their direction and speed
  *
  * @param map - Leaflet map instance
  * @param onBoundsChange - Callback to execute when bounds change significantly
+ * @param options - Pan tracking callback
  * @returns Cleanup function to remove event listeners
  */
 export function setupMapNavigationHandlers(
 	map: L.Map,
-	onBoundsChange: BoundsChangeCallback
+	onBoundsChange: BoundsChangeCallback,
+	options: NavigationHandlerOptions = {}
 ): () => void {
 	let lastFetchBounds: L.LatLngBounds | null = null;
 	let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+	let panStart: { point: L.Point; zoom: number; time: number } | null = null;
+	let lastPan: PanMotion | null = null;
+
+	const handleMoveStart = () => {
+		panStart = { point: map.project(map.getCenter()), zoom: map.getZoom(), time: Date.now() };
+	};
 
 	const handleMoveEnd = () => {
+		// Measure the pan before debouncing, while its start is known
+		if (panStart && panStart.zoom === map.getZoom()) {
+			const end = map.project(map.getCenter());
+			lastPan = measurePan(panStart.point, end, Date.now() - panStart.time) ?? lastPan;
+		}
+		panStart = null;
+
 		// Clear existing timer
 		if (debounceTimer !== null) {
 			clearTimeout(debounceTimer);
@@ -108,6 +161,11 @@ export function setupMapNavigationHandlers(
 		debounceTimer = setTimeout(() => {
 			const currentBounds = map.getBounds();
 
+			if (lastPan) {
+				options.onPan?.(lastPan, currentBounds);
+				lastPan = null;
+			}
+
 			// First fetch - always trigger
 			if (lastFetchBounds === null) {
 				lastFetchBounds = currentBounds;
@@ -123,11 +181,13 @@ export function setupMapNavigationHandlers(
 		}, DEBOUNCE_DELAY_MS);
 	};
 
-	// Attach event listener
+	// Attach event listeners
+	map.on('movestart', handleMoveStart);
 	map.on('moveend', handleMoveEnd);
 
 	// Return cleanup function
 	return () => {
+		map.off('movestart', handleMoveStart);
 		map.off('moveend', handleMoveEnd);
 		if (debounceTimer !== null) {
 			clearTimeout(debounceTimer);
@@ -0,0 +1,286 @@
+/**
+ * Offline areas
+ * User-selected areas whose facilities (all layers) and map tiles are downloaded
+ * ahead of time and kept until the user deletes them
+ */
+
+import { FACILITY_GRID_MAX_CELLS, FACILITY_GRID_ZOOM, OFFLINE_AREAS } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import type { OfflineAreaError } from '../../types/errors';
+import type { Result } from '../../types/result';
+import { Err, isOk, Ok } from '../../types/result';
+import * as logger from '../../utils/logger';
+import type { CellRef, CellStore } from '../data/cellCache';
+import { getDefaultCellStore } from '../data/cellCache';
+import { cellKey, cellsForBounds, countCellsForBounds } from '../data/grid';
+import type { FacilityQuery } from '../data/query';
+import type { FacilityDataSource } from '../data/sources/types';
+import type { ZoomRange } from './tiles';
+import {
+	countTiles,
+	deleteTiles,
+	isTileDownloadAllowed,
+	prefetchTiles,
+	tileUrlsForBounds,
+} from './tiles';
+
+/**
+ * A downloaded offline area
+ */
+export type OfflineArea = {
+	readonly id: string;
+	readonly name: string;
+	readonly bbox: BoundingBox;
+	readonly zooms: ZoomRange; // Tile zoom range
+	readonly layers: readonly string[]; // Facility layer keys
+	readonly tileCount: number;
+	readonly bytes: number; // Stored tiles plus facility data
+	readonly downloadedAt: number; // Epoch ms
+};
+
+/**
+ * Size estimate for an area download
+ */
+export type AreaEstimate = {
+	readonly tiles: number;
+	readonly cells: number; // Facility grid cells per layer
+	readonly bytes: number;
+	readonly error: OfflineAreaError | null; // Set when the area can't be downloaded
+};
+
+/**
+ * Download progress
+ */
+export type DownloadProgress = {
+	readonly phase: 'facilities' | 'tiles';
+	readonly done: number;
+	readonly total: number;
+};
+
+/**
+ * Options for the offline area manager
+ */
+export type OfflineAreaManagerOptions = {
+	readonly queries: readonly FacilityQuery[]; // Layers to download
+	readonly source: FacilityDataSource; // Source the map shows facilities from
+	readonly store?: CellStore; // Cell cache whose cells are pinned
+	readonly storage?: Storage; // Area list persistence (default: localStorage)
+};
+
+/**
+ * Offline area manager instance
+ */
+export type OfflineAreaManager = {
+	/** Downloaded areas, newest first */
+	readonly list: () => OfflineArea[];
+	/** Download facilities and tiles for a new area */
+	readonly download: (
+		name: string,
+		bbox: BoundingBox,
+		zooms: ZoomRange,
+		onProgress?: (progress: DownloadProgress) => void,
+		signal?: AbortSignal
+	) => Promise<Result<OfflineArea, OfflineAreaError>>;
+	/** Download an existing area again */
+	readonly refresh: (
+		id: string,
+		onProgress?: (progress: DownloadProgress) => void,
+		signal?: AbortSignal
+	) => Promise<Result<OfflineArea, OfflineAreaError>>;
+	/** Delete an area, keeping data still used by other areas */
+	readonly remove: (id: string) => Promise<void>;
+};
+
+/**
+ * Estimate the size of an area download and check it is allowed
+ * @param bbox - Area to download
+ * @param zooms - Tile zoom range
+ * @param layerCount - Number of facility layers
+ */
+export function estimateArea(
+	bbox: BoundingBox,
+	zooms: ZoomRange,
+	layerCount: number
+): AreaEstimate {
+	const tiles = countTiles(bbox, zooms);
+	const cells = countCellsForBounds(bbox, FACILITY_GRID_ZOOM);
+	const bytes =
+		tiles * OFFLINE_AREAS.estimatedTileBytes +
+		cells * layerCount * OFFLINE_AREAS.estimatedCellBytes;
+
+	let error: OfflineAreaError | null = null;
+	if (cells > FACILITY_GRID_MAX_CELLS) {
+		error = { type: 'too_large', message: 'Area is too large. Zoom in to download it.' };
+	} else if (!isTileDownloadAllowed(bbox, zooms)) {
+		error = {
+			type: 'too_large',
+			message: `Too many map tiles (over ${OFFLINE_AREAS.maxTiles} at zoom ${OFFLINE_AREAS.minTileZoom}+). Zoom in or lower the maximum zoom.`,
+		};
+	}
+
+	return { tiles, cells, bytes, error };
+}
+
+/**
+ * Ask the browser not to evict offline data under storage pressure
+ * @returns Whether storage is persistent
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+	if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+		return false;
+	}
+
+	try {
+		return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+	} catch (err) {
+		logger.warn('Persistent storage request failed:', err);
+		return false;
+	}
+}
+
+/**
+ * Facility cells covered by an area, for every layer
+ */
+function areaCellRefs(area: Pick<OfflineArea, 'bbox' | 'layers'>): CellRef[] {
+	const keys = cellsForBounds(area.bbox, FACILITY_GRID_ZOOM).map((cell) => cellKey(cell));
+	return area.layers.flatMap((queryKey) => keys.map((key) => ({ queryKey, cellKey: key })));
+}
+
+/**
+ * Read the saved area list, ignoring unreadable data
+ */
+function loadAreas(storage: Storage | undefined): OfflineArea[] {
+	try {
+		const saved = JSON.parse(storage?.getItem(OFFLINE_AREAS.storageKey) ?? '[]');
+		return Array.isArray(saved) ? saved : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Create an offline area manager
+ */
+export function createOfflineAreaManager(options: OfflineAreaManagerOptions): OfflineAreaManager {
+	const { queries, source } = options;
+	const storage =
+		options.storage ?? (typeof localStorage === 'undefined' ? undefined : localStorage);
+	const getStore = () => options.store ?? getDefaultCellStore();
+	let areas = loadAreas(storage);
+
+	const save = (next: OfflineArea[]): void => {
+		areas = next;
+		storage?.setItem(OFFLINE_AREAS.storageKey, JSON.stringify(areas));
+	};
+
+	/**
+	 * Unpin cells and delete tiles of an area that none of the kept areas cover
+	 */
+	const release = async (
+		area: Pick<OfflineArea, 'bbox' | 'zooms' | 'layers'>,
+		kept: readonly OfflineArea[]
+	): Promise<void> => {
+		const keptCells = new Set(
+			kept.flatMap((other) => areaCellRefs(other)).map((ref) => `${ref.queryKey}:${ref.cellKey}`)
+		);
+		await getStore().setPinned(
+			areaCellRefs(area).filter((ref) => !keptCells.has(`${ref.queryKey}:${ref.cellKey}`)),
+			false
+		);
+
+		const keptTiles = new Set(kept.flatMap((other) => tileUrlsForBounds(other.bbox, other.zooms)));
+		await deleteTiles(tileUrlsForBounds(area.bbox, area.zooms), keptTiles);
+	};
+
+	const fetchArea = async (
+		base: Pick<OfflineArea, 'id' | 'name' | 'bbox' | 'zooms'>,
+		onProgress?: (progress: DownloadProgress) => void,
+		signal?: AbortSignal
+	): Promise<Result<OfflineArea, OfflineAreaError>> => {
+		const estimate = estimateArea(base.bbox, base.zooms, queries.length);
+		if (estimate.error) {
+			return Err(estimate.error);
+		}
+
+		await requestPersistentStorage();
+
+		// Facilities: refetch from the map's source (ttl 0) and pin any cells it cached
+		onProgress?.({ phase: 'facilities', done: 0, total: 1 });
+		const store = getStore();
+		const result = await source.queryBounds(queries, base.bbox, {
+			ttl: 0,
+			...(signal ? { signal } : {}),
+		});
+		if (!isOk(result)) {
+			if (result.error.type === 'aborted') {
+				return Err({ type: 'aborted', message: 'Download cancelled' });
+			}
+			return Err({
+				type: 'fetch_failed',
+				message: 'Failed to download facilities for this area',
+				cause: result.error,
+			});
+		}
+
+		const layers = queries.map((query) => query.key);
+		await store.setPinned(areaCellRefs({ bbox: base.bbox, layers }), true);
+		onProgress?.({ phase: 'facilities', done: 1, total: 1 });
+
+		// Tiles
+		const urls = tileUrlsForBounds(base.bbox, base.zooms);
+		const tileBytes = await prefetchTiles(
+			urls,
+			(done) => onProgress?.({ phase: 'tiles', done, total: urls.length }),
+			signal
+		);
+
+		// A cancelled download is incomplete: drop what it added rather than saving it
+		if (signal?.aborted) {
+			await release({ bbox: base.bbox, zooms: base.zooms, layers }, areas);
+			return Err({ type: 'aborted', message: 'Download cancelled' });
+		}
+
+		const facilityBytes = JSON.stringify([...result.value.elementsByKey.values()]).length;
+
+		return Ok({
+			...base,
+			layers,
+			tileCount: urls.length,
+			bytes: tileBytes + facilityBytes,
+			downloadedAt: Date.now(),
+		});
+	};
+
+	return {
+		list: () => [...areas].sort((a, b) => b.downloadedAt - a.downloadedAt),
+		download: async (name, bbox, zooms, onProgress, signal) => {
+			const id = `area-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+			const result = await fetchArea({ id, name, bbox, zooms }, onProgress, signal);
+			if (isOk(result)) {
+				save([...areas, result.value]);
+			}
+			return result;
+		},
+		refresh: async (id, onProgress, signal) => {
+			const area = areas.find((candidate) => candidate.id === id);
+			if (!area) {
+				return Err({ type: 'not_found', message: 'Offline area no longer exists' });
+			}
+
+			const result = await fetchArea(area, onProgress, signal);
+			if (isOk(result)) {
+				save(areas.map((candidate) => (candidate.id === id ? result.value : candidate)));
+			}
+			return result;
+		},
+		remove: async (id) => {
+			const area = areas.find((candidate) => candidate.id === id);
+			if (!area) return;
+
+			const others = areas.filter((candidate) => candidate.id !== id);
+			save(others);
+
+			await release(area, others);
+		},
+	};
+}
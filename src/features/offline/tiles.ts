@@ -0,0 +1,122 @@
+/**
+ * Map tile prefetching for offline areas
+ * Tiles are stored in their own Cache Storage cache, which the service worker
+ * serves from before its capped tile cache
+ */
+
+import { OFFLINE_AREAS, OSM_TILE_URL } from '../../core/config';
+import type { BoundingBox } from '../../types/domain';
+import * as logger from '../../utils/logger';
+import { cellsForBounds, countCellsForBounds } from '../data/grid';
+
+/**
+ * Inclusive tile zoom range
+ */
+export type ZoomRange = {
+	readonly min: number;
+	readonly max: number;
+};
+
+/**
+ * Subdomains Leaflet rotates through for {s}
+ */
+const TILE_SUBDOMAINS = 'abc';
+
+/**
+ * Tile URL as Leaflet requests it, so cached tiles match the map's requests
+ */
+export function tileUrl(x: number, y: number, z: number): string {
+	const subdomain = TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length] ?? 'a';
+	return OSM_TILE_URL.replace('{s}', subdomain)
+		.replace('{z}', String(z))
+		.replace('{x}', String(x))
+		.replace('{y}', String(y));
+}
+
+/**
+ * Count the tiles covering an area over a zoom range
+ */
+export function countTiles(bbox: BoundingBox, zooms: ZoomRange): number {
+	let count = 0;
+	for (let z = zooms.min; z <= zooms.max; z++) {
+		count += countCellsForBounds(bbox, z);
+	}
+	return count;
+}
+
+/**
+ * URLs of the tiles covering an area over a zoom range
+ */
+export function tileUrlsForBounds(bbox: BoundingBox, zooms: ZoomRange): string[] {
+	const urls: string[] = [];
+	for (let z = zooms.min; z <= zooms.max; z++) {
+		for (const tile of cellsForBounds(bbox, z)) {
+			urls.push(tileUrl(tile.x, tile.y, tile.z));
+		}
+	}
+	return urls;
+}
+
+/**
+ * Check whether a tile download is allowed by the OSM tile usage policy
+ */
+export function isTileDownloadAllowed(bbox: BoundingBox, zooms: ZoomRange): boolean {
+	const policed = { min: Math.max(zooms.min, OFFLINE_AREAS.minTileZoom), max: zooms.max };
+	return policed.min > policed.max || countTiles(bbox, policed) <= OFFLINE_AREAS.maxTiles;
+}
+
+/**
+ * Download tiles into the offline tile cache, one at a time to be gentle on the tile servers
+ * @param urls - Tile URLs
+ * @param onProgress - Called with the number of tiles done
+ * @param signal - Optional cancellation signal
+ * @returns Total size of the stored tiles in bytes
+ */
+export async function prefetchTiles(
+	urls: readonly string[],
+	onProgress?: (done: number) => void,
+	signal?: AbortSignal
+): Promise<number> {
+	if (typeof caches === 'undefined') {
+		logger.warn('Cache Storage unavailable, map tiles are not stored offline');
+		return 0;
+	}
+
+	const cache = await caches.open(OFFLINE_AREAS.tileCacheName);
+	let bytes = 0;
+
+	for (const [index, url] of urls.entries()) {
+		if (signal?.aborted) break;
+
+		try {
+			const response = await fetch(url, signal ? { signal } : {});
+			if (response.ok) {
+				const blob = await response.clone().blob();
+				bytes += blob.size;
+				await cache.put(url, response);
+			}
+		} catch (err) {
+			if (signal?.aborted) break;
+			logger.warn(`Failed to download tile ${url}:`, err);
+		}
+
+		onProgress?.(index + 1);
+	}
+
+	return bytes;
+}
+
+/**
+ * Remove tiles from the offline tile cache
+ * @param urls - Tile URLs to remove
+ * @param keep - Tile URLs still used by other areas
+ */
+export async function deleteTiles(
+	urls: readonly string[],
+	keep: ReadonlySet<string> = new Set()
+): Promise<void> {
+	if (typeof caches === 'undefined') return;
+
+	const cache = await caches.open(OFFLINE_AREAS.tileCacheName);
+	await Promise.all(urls.filter((url) => !keep.has(url)).map((url) => cache.delete(url)));
+}
@@ -0,0 +1,97 @@
+/**
+ * Quick actions
+ * One-tap shortcuts to the nearest facility of a kind, skipping facilities that are likely off
+ * for winter or closed now
+ */
+
+import type { Facility, FacilityKind } from '../../types/facilities';
+import type { Element, LatLon } from '../../types/overpass';
+import type { Neighbour, SpatialIndex } from '../data/spatialIndex';
+import { toFacility } from '../filters/filters';
+import { isClosedAt } from '../hours/openingHours';
+import { isLikelyAvailable } from '../hours/seasonality';
+
+/**
+ * Quick action identifiers
+ */
+export type QuickActionId =
+	| 'nearest_water'
+	| 'nearest_refill'
+	| 'nearest_toilet'
+	| 'nearest_accessible_toilet';
+
+/**
+ * A quick action
+ */
+export type QuickAction = {
+	readonly id: QuickActionId;
+	readonly label: string;
+	readonly name: string; // What the action looks for, e.g. "accessible toilet"
+	readonly icon: string;
+	readonly kind: FacilityKind; // Layer the action searches
+	readonly matches: (facility: Facility) => boolean;
+};
+
+/**
+ * Available quick actions, in control order
+ */
+export const QUICK_ACTIONS: readonly QuickAction[] = [
+	{
+		id: 'nearest_water',
+		label: 'Nearest water',
+		name: 'drinking water',
+		icon: '🚰',
+		kind: 'water',
+		matches: (facility) => facility.kind === 'water' && facility.drinkable,
+	},
+	{
+		id: 'nearest_refill',
+		label: 'Nearest refill station',
+		name: 'refill station',
+		icon: '🥤',
+		kind: 'refill',
+		matches: (facility) => facility.kind === 'refill',
+	},
+	{
+		id: 'nearest_toilet',
+		label: 'Nearest toilet',
+		name: 'toilet',
+		icon: '🚻',
+		kind: 'toilet',
+		matches: (facility) => facility.kind === 'toilet',
+	},
+	{
+		id: 'nearest_accessible_toilet',
+		label: 'Nearest accessible toilet',
+		name: 'accessible toilet',
+		icon: '♿',
+		kind: 'toilet',
+		matches: (facility) =>
+			facility.kind === 'toilet' && facility.accessibility.wheelchair === 'yes',
+	},
+];
+
+/**
+ * Find the facility a quick action leads to
+ * @param index - Spatial index of the action's layer
+ * @param accept - Further condition, e.g. the active filters
+ * @param now - Time opening hours and seasons are evaluated at
+ */
+export function findQuickActionTarget(
+	action: QuickAction,
+	index: SpatialIndex<Element>,
+	from: LatLon,
+	accept: (facility: Facility) => boolean = () => true,
+	now: Date = new Date()
+): Neighbour<Element> | null {
+	const [nearest] = index.nearest(from, 1, (element) => {
+		const facility = toFacility(action.kind, element);
+		return (
+			isLikelyAvailable(element, now) &&
+			!isClosedAt(element, now) &&
+			action.matches(facility) &&
+			accept(facility)
+		);
+	});
+	return nearest ?? null;
+}
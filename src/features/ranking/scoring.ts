@@ -0,0 +1,173 @@
+/**
+ * Best facility scoring
+ * Facilities near the user are compared by distance plus a penalty for each drawback (see
+ * BEST_FACILITY), so a working fountain a little further away beats a non-drinkable spring or a
+ * winterised tap. The recommended facility carries the reasons it was picked; the plain nearest
+ * facility stays highlighted as the alternative
+ */
+
+import { BEST_FACILITY } from '../../core/config';
+import type { Facility } from '../../types/facilities';
+import type { Element, Tags } from '../../types/overpass';
+import { elementKey } from '../../types/overpass';
+import { isOk } from '../../types/result';
+import type { RankedFacilities } from '../data/pipeline';
+import type { Neighbour } from '../data/spatialIndex';
+import { wheelchairOf } from '../data/transformers';
+import { openingHoursOf, openingStateAt } from '../hours/openingHours';
+import { seasonalityOf, seasonalStatusAt } from '../hours/seasonality';
+
+/**
+ * Circumstances facilities are scored in
+ */
+export type ScoringContext = {
+	readonly now: Date;
+	readonly needsWheelchair: boolean;
+};
+
+/**
+ * Score of one facility
+ */
+export type FacilityScore = {
+	readonly facility: Facility;
+	readonly distance: number; // Metres from the user
+	readonly cost: number; // Distance plus penalties, in metres; lower is better
+	readonly reasons: readonly string[]; // Distance, then strengths and drawbacks
+};
+
+const { penalties } = BEST_FACILITY;
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Format a walking distance, e.g. "120 m" or "1.4 km"
+ */
+export function formatDistance(metres: number): string {
+	return metres < 1000 ? `${Math.round(metres)} m` : `${(metres / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Years since the facility was last checked (check_date or survey:date), or null if undated
+ */
+function yearsSinceCheck(tags: Tags, now: Date): number | null {
+	const value = tags.check_date ?? tags['survey:date'];
+	const checked = value ? Date.parse(value) : Number.NaN;
+	return Number.isNaN(checked) ? null : Math.max(0, (now.getTime() - checked) / YEAR_MS);
+}
+
+/**
+ * Score a facility at a distance from the user
+ * @returns Score, or null if the facility must not be recommended
+ */
+export function scoreFacility(
+	facility: Facility,
+	distance: number,
+	context: ScoringContext
+): FacilityScore | null {
+	const { tags } = facility.element;
+	const access = (tags.access ?? '').toLowerCase();
+	const season = seasonalStatusAt(facility.element, context.now);
+	if (season === 'off_season' || access === 'private' || access === 'no') return null;
+
+	const reasons = [formatDistance(distance)];
+	let cost = distance;
+	const penalise = (penalty: number, reason: string) => {
+		cost += penalty;
+		reasons.push(reason);
+	};
+
+	if (facility.kind === 'water') {
+		if (facility.drinkable) reasons.push('drinkable');
+		else penalise(penalties.notDrinkable, 'not drinkable');
+	}
+
+	// Drinking water and refills are free unless tagged otherwise; toilets only when tagged fee=no
+	const fee = (tags.fee ?? '').toLowerCase();
+	if (fee === 'yes') penalise(penalties.fee, 'fee');
+	else if (fee === 'no' || facility.kind !== 'toilet') reasons.push('free');
+
+	if (access === 'customers' || access === 'permit') {
+		penalise(penalties.customersOnly, 'customers only');
+	}
+
+	const hours = openingHoursOf(facility.element);
+	const state = hours && isOk(hours) ? openingStateAt(hours.value, context.now).state : null;
+	if (state === 'open') reasons.push('open');
+	else if (state === 'closed') penalise(penalties.closed, 'closed now');
+
+	if (season === 'unknown') penalise(penalties.unknownSeason, 'season unknown');
+	else if (seasonalityOf(tags)) reasons.push('in season');
+
+	if (context.needsWheelchair) {
+		const wheelchair = wheelchairOf(facility);
+		if (wheelchair === 'no') return null;
+		if (wheelchair === 'yes') {
+			reasons.push('wheelchair accessible');
+		} else if (wheelchair === 'limited') {
+			penalise(penalties.wheelchairLimited, 'limited wheelchair access');
+		} else {
+			penalise(penalties.wheelchairUnknown, 'wheelchair access unknown');
+		}
+	}
+
+	const years = yearsSinceCheck(tags, context.now);
+	if (years === null) {
+		cost += penalties.undated;
+	} else {
+		cost += Math.min(years, BEST_FACILITY.maxYearsUnchecked) * penalties.perYearUnchecked;
+		if (years < 1) reasons.push('recently checked');
+	}
+
+	return { facility, distance, cost, reasons };
+}
+
+/**
+ * Pick the facility with the lowest cost
+ * @param candidates - Facilities and their distances from the user
+ * @returns Best score, or null if no facility may be recommended
+ */
+export function pickBest(
+	candidates: readonly Neighbour<Facility>[],
+	context: ScoringContext
+): FacilityScore | null {
+	let best: FacilityScore | null = null;
+	for (const { item, distance } of candidates) {
+		const score = scoreFacility(item, distance, context);
+		if (score && (!best || score.cost < best.cost)) {
+			best = score;
+		}
+	}
+	return best;
+}
+
+/**
+ * Explanation of a recommendation, e.g. "Recommended: 120 m, drinkable, free, open"
+ */
+export function formatRecommendation(reasons: readonly string[]): string {
+	return `Recommended: ${reasons.join(', ')}`;
+}
+
+/**
+ * Mark the recommended facility in ranked facilities
+ * The facility is added to the list when it isn't in it already; the nearest stays as it is
+ */
+export function withBest(ranked: RankedFacilities, best: FacilityScore): RankedFacilities {
+	const key = elementKey(best.facility.element);
+	const recommend = (element: Element): Element => ({
+		...element,
+		distanceFromUser: best.distance,
+		recommendation: best.reasons,
+	});
+
+	const found = ranked.elements.some((element) => elementKey(element) === key);
+	const elements = ranked.elements.map((element) =>
+		elementKey(element) === key ? recommend(element) : element
+	);
+	const nearest =
+		ranked.nearest && elementKey(ranked.nearest) === key
+			? recommend(ranked.nearest)
+			: ranked.nearest;
+	return {
+		elements: found ? elements : [...elements, recommend(best.facility.element)],
+		nearest,
+	};
+}
@@ -1,132 +1,375 @@
+import snapshot from 'virtual:facility-snapshot';
 import * as L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
 import {
 	trackAreaExplored,
 	trackEmptyArea,
 	trackLayerDisabled,
 	trackLayerEnabled,
 	trackMapLoaded,
+	trackNavigationStarted,
 } from './analytics';
-import { DEFAULT_ZOOM, LAYER_NAMES, MAX_ZOOM, OSM_ATTRIBUTION, OSM_TILE_URL, RIGA_CENTER } from './core/config';
-import { fetchFacilitiesInBounds, fetchWaterPointsInBounds } from './features/data/fetch';
+import {
+	BEST_FACILITY,
+	DEFAULT_ZOOM,
+	MAX_ZOOM,
+	OPENING_HOURS_REFRESH_MS,
+	OSM_ATTRIBUTION,
+	OSM_TILE_URL,
+	OVERVIEW,
+	QUICK_ACTIONS,
+	RIGA_CENTER,
+} from './core/config';
+import { enclosingBounds, toBoundingBox } from './features/data/grid';
+import type { OverviewCell } from './features/data/overview';
+import { createOverviewLoader } from './features/data/overview';
+import type { RankedFacilities } from './features/data/pipeline';
+import { withNearest } from './features/data/pipeline';
+import { getDefaultPipeline } from './features/data/pipelineClient';
+import { createPrefetcher } from './features/data/prefetch';
+import { createRetryScheduler } from './features/data/rateLimit';
+import { createRequestManager } from './features/data/requests';
+import { createBundledSource } from './features/data/sources/bundled';
+import { createDataSource } from './features/data/sources/factory';
+import type { SpatialIndex } from './features/data/spatialIndex';
+import { createSpatialIndex } from './features/data/spatialIndex';
+import type { FacilityDefinition } from './features/facilities/registry';
+import { FACILITY_DEFINITIONS, facilityDefinition } from './features/facilities/registry';
+import type { FilterId } from './features/filters/filters';
+import {
+	countMatches,
+	loadActiveFilters,
+	passesFilters,
+	saveActiveFilters,
+	toFacility,
+} from './features/filters/filters';
+import { isLikelyAvailable } from './features/hours/seasonality';
 import { detectInitialLocation, locateUser } from './features/location/geolocation';
-import { addMarkers, addToiletMarkers } from './features/markers/markers';
-import { setupMapNavigationHandlers } from './features/navigation/navigation';
-import drinkingWater from './oql/drinking_water.overpassql?raw';
-import publicToilets from './oql/public_toilets.overpassql?raw';
-import type { Element } from './types/overpass';
-import { isOk } from './types/result';
+import type { MarkerClusters } from './features/markers/clustering';
+import { createMarkerClusters } from './features/markers/clustering';
+import { setupOutlineVisibility } from './features/markers/markers';
+import type { OverviewLayer } from './features/markers/overview';
+import { createOverviewLayer } from './features/markers/overview';
+import type { MarkerReconciler } from './features/markers/reconcile';
+import { createMarkerReconciler } from './features/markers/reconcile';
+import { openNavigation, setupMapNavigationHandlers } from './features/navigation/navigation';
+import { createOfflineAreaManager } from './features/offline/areas';
+import type { QuickAction } from './features/ranking/quickActions';
+import {
+	findQuickActionTarget,
+	QUICK_ACTIONS as QUICK_ACTION_LIST,
+} from './features/ranking/quickActions';
+import { formatDistance, pickBest, withBest } from './features/ranking/scoring';
+import type { BoundingBox } from './types/domain';
+import type { FetchError } from './types/errors';
+import type { Facility, FacilityKind } from './types/facilities';
+import type { Element, LatLon } from './types/overpass';
+import { elementKey } from './types/overpass';
+import type { Result } from './types/result';
+import { isOk, Ok } from './types/result';
+import { createControlButton } from './ui/controls';
+import { showDataStatus } from './ui/dataStatus';
+import { openFilterPanel, updateFilterCounts } from './ui/filterPanel';
 import { hideLoading, showLoading } from './ui/loading';
-import { showNotification } from './ui/notifications';
-import { findNearestWaterPoint, haversineDistance } from './utils/geometry';
+import { dismissNotification, showNotification } from './ui/notifications';
+import { openOfflinePanel } from './ui/offlinePanel';
+import { showOverviewHint } from './ui/overviewHint';
 import * as logger from './utils/logger';
 
+/**
+ * Map layers holding each kind's markers
+ */
+type FacilityLayers = Record<FacilityKind, MarkerReconciler>;
+
+/**
+ * Loaded layers ranked by distance, per layer key
+ */
+type RankedLayers = {
+	readonly rankedByKey: ReadonlyMap<string, RankedFacilities>;
+	readonly cachedAt: number | null;
+};
+
+/**
+ * Configured facility data source (Overpass by default)
+ */
+const dataSource = createDataSource();
+
+/**
+ * Snapshot built into the app, drawn before live data arrives
+ */
+const bundledSource = createBundledSource(snapshot);
+
+/**
+ * Facility requests - all active layers load through one combined request
+ * The loading overlay is shown while a request is in flight
+ */
+const facilityRequests = createRequestManager<Result<RankedLayers, FetchError>>({
+	onActivityChange: (active) => (active ? showLoading(200) : hideLoading()),
+});
+
+/**
+ * Facilities loaded so far, per layer key, for nearest-facility queries beyond the viewport
+ */
+const facilityIndexes: Map<string, SpatialIndex<Element>> = new Map();
+
+/**
+ * Spatial index of one layer (created on first use)
+ */
+function facilityIndex(key: string): SpatialIndex<Element> {
+	let index = facilityIndexes.get(key);
+	if (!index) {
+		index = createSpatialIndex<Element>({ getKey: elementKey, getPosition: (element) => element });
+		facilityIndexes.set(key, index);
+	}
+	return index;
+}
+
+/**
+ * Active facility filters, remembered across sessions
+ */
+let activeFilters: Set<FilterId> = loadActiveFilters();
+
+/**
+ * Last rendered layers before filtering, re-rendered when the filters change
+ */
+const EMPTY_RANKED: RankedFacilities = { elements: [], nearest: null };
+let renderedByKey: ReadonlyMap<string, RankedFacilities> = new Map();
+let filterCounts: Record<FilterId, number> = countMatches([], activeFilters);
+
+/**
+ * Clustering of the facility markers, set up with the map
+ */
+let markerClusters: MarkerClusters | null = null;
+
+/**
+ * Facility counts shown instead of facilities at low zoom
+ */
+const overviewLoader = createOverviewLoader({ source: dataSource });
+const overviewRequests = createRequestManager<Result<OverviewCell[], FetchError>>({
+	onActivityChange: (active) => (active ? showLoading(200) : hideLoading()),
+});
+let facilityOverview: OverviewLayer | null = null;
+
+/**
+ * Automatic retries of rate-limited facility requests
+ */
+const facilityRetries = createRetryScheduler();
+let retryNotificationId: string | null = null;
+
+/**
+ * Cancel a pending automatic retry and remove its notification
+ */
+function cancelFacilityRetry(): void {
+	facilityRetries.cancel();
+	if (retryNotificationId) {
+		dismissNotification(retryNotificationId);
+		retryNotificationId = null;
+	}
+}
+
+/**
+ * Request key identifying the requested layers and area
+ */
+function requestKey(kinds: readonly FacilityKind[], bbox: BoundingBox): string {
+	return `${kinds.join('+')}:${bbox.south},${bbox.west},${bbox.north},${bbox.east}`;
+}
+
 /**
  * Initialize and setup the map
  */
 async function initializeApp(): Promise<void> {
 	try {
-		// Show loading indicator for location detection
-		showLoading(200);
+		// Create the map at Riga straight away and draw the bundled snapshot,
+		// so markers are visible before geolocation and the live request finish
+		const map = L.map('map', {
+			center: RIGA_CENTER,
+			zoom: DEFAULT_ZOOM,
+			zoomControl: true,
+		});
+
+		L.tileLayer(OSM_TILE_URL, {
+			maxZoom: MAX_ZOOM,
+			attribution: OSM_ATTRIBUTION,
+			// CORS responses can be cached by the service worker; opaque ones are not
+			crossOrigin: true,
+		}).addTo(map);
+
+		L.control.scale({ metric: true, imperial: false }).addTo(map);
+
+		// Reveal way/relation outlines at high zoom
+		setupOutlineVisibility(map);
+
+		// One marker layer per facility kind; kinds shown by default start on the map
+		const layers = Object.fromEntries(
+			FACILITY_DEFINITIONS.map((def) => {
+				const layer = L.featureGroup();
+				if (def.shownByDefault) layer.addTo(map);
+				return [def.kind, createMarkerReconciler(layer, map, def)];
+			})
+		) as FacilityLayers;
+		markerClusters = createMarkerClusters(map, layers);
+		facilityOverview = createOverviewLayer(map);
+
+		// Kinds are loaded only while their layer is enabled
+		const activeKinds: Set<FacilityKind> = new Set(
+			FACILITY_DEFINITIONS.filter((def) => def.shownByDefault).map((def) => def.kind)
+		);
+
+		await renderSnapshot(map, layers, activeKinds);
 
 		// Detect initial location
 		const locationResult = await detectInitialLocation();
 
-		let mapCenter: L.LatLngTuple = RIGA_CENTER;
 		let userLocation: { lat: number; lon: number } | null = null;
 		let _isUserLocation = false;
 
 		if (isOk(locationResult)) {
-			// Location detected successfully
+			// Location detected successfully - move there before loading live data
 			const { latitude, longitude } = locationResult.value.coords;
-			mapCenter = [latitude, longitude];
 			userLocation = { lat: latitude, lon: longitude };
 			_isUserLocation = true;
+			map.setView([latitude, longitude], DEFAULT_ZOOM);
 			logger.info('Location detected:', latitude, longitude);
 		} else {
-			// Location detection failed - fall back to Riga
+			// Location detection failed - stay in Riga
 			logger.warn('Location detection failed:', locationResult.error.message);
 			showNotification('Could not detect your location. Showing Riga area.', 'info', 5000);
 		}
 
-		hideLoading();
-
 		// Track map loaded event for analytics
 		trackMapLoaded(_isUserLocation ? 'user' : 'default');
 
-		// Initialize map with determined center
-		const map = L.map('map', {
-			center: mapCenter,
-			zoom: DEFAULT_ZOOM,
-			zoomControl: true,
-		});
-
-		L.tileLayer(OSM_TILE_URL, {
-			maxZoom: MAX_ZOOM,
-			attribution: OSM_ATTRIBUTION,
-		}).addTo(map);
-
-		L.control.scale({ metric: true, imperial: false }).addTo(map);
-
-		// Layer to hold water points
-		const pointsLayer: L.FeatureGroup<L.CircleMarker | L.Marker> = L.featureGroup().addTo(map);
+		// Load live data in the background, replacing the snapshot markers
+		await loadFacilities(map, layers, activeKinds, userLocation);
 
-		// Layer to hold toilet markers (hidden by default)
-		const toiletLayer: L.FeatureGroup<L.CircleMarker | L.Marker> = L.featureGroup();
-
-		// Load initial water points
-		await loadWaterPoints(map, pointsLayer, userLocation);
-
-		// Add layer control with both water and toilet layers
+		// Add layer control with a layer per facility kind
 		L.control
 			.layers(
 				undefined,
-				{
-					'Drinking Points': pointsLayer,
-					'Public Toilets': toiletLayer,
-				},
+				Object.fromEntries(
+					FACILITY_DEFINITIONS.map((def) => [def.layerName, layers[def.kind].layer])
+				),
 				{ collapsed: false }
 			)
 			.addTo(map);
 
-		// Track which layers are active
-		let toiletLayerActive = false;
-
-		// Event handler for when toilet layer is added
+		// Enabling a layer activates its kind and loads it
 		map.on('overlayadd', async (e: L.LayersControlEvent) => {
-			if (e.name === 'Public Toilets') {
-				toiletLayerActive = true;
-				toiletLayer.addTo(map);
-				// Track layer enabled - count both layers as active
-				trackLayerEnabled(LAYER_NAMES.TOILET, 2);
-				await loadToilets(map, toiletLayer, userLocation);
-			}
+			const def = definitionOfLayer(e.name);
+			if (!def) return;
+
+			activeKinds.add(def.kind);
+			trackLayerEnabled(def.layerName, activeKinds.size);
+			await loadFacilities(map, layers, activeKinds, userLocation);
 		});
 
-		// Event handler for when toilet layer is removed
+		// Disabling a layer deactivates its kind and drops its markers
 		map.on('overlayremove', (e: L.LayersControlEvent) => {
-			if (e.name === 'Public Toilets') {
-				toiletLayerActive = false;
-				toiletLayer.clearLayers();
-				// Track layer disabled - only water layer remains active
-				trackLayerDisabled(LAYER_NAMES.TOILET, 1);
+			const def = definitionOfLayer(e.name);
+			if (!def) return;
+
+			activeKinds.delete(def.kind);
+			layers[def.kind].clear();
+			markerClusters?.refresh();
+			// Overview counts include every active layer
+			if (map.getZoom() <= OVERVIEW.maxZoom) {
+				void loadFacilities(map, layers, activeKinds, userLocation);
 			}
+			trackLayerDisabled(def.layerName, activeKinds.size);
 		});
 
 		// Setup locate control with callback to update user location and refetch water points
-		setupLocateControl(map, pointsLayer, (lat: number, lon: number) => {
+		setupLocateControl(map, (lat: number, lon: number) => {
 			// Update user location reference
 			userLocation = { lat, lon };
 			// The map.setView in locateUser will trigger moveend event,
 			// which will automatically refetch water points via navigation handlers
 		});
 
+		// Setup offline area downloads (all layers, independent of which are shown)
+		setupOfflineControl(map);
+
+		// Setup facility filters; changes re-render the loaded facilities without refetching
+		setupFilterControl(map, () =>
+			openFilterPanel({
+				active: activeFilters,
+				counts: filterCounts,
+				onChange: (active) => {
+					activeFilters = active;
+					saveActiveFilters(active);
+					refreshFacilities(layers, activeKinds, userLocation);
+				},
+			})
+		);
+
+		// Quick actions fly to the nearest facility of a kind and open its popup
+		setupQuickActionControl(map, (action) => {
+			void runQuickAction(map, layers, activeKinds, userLocation, action);
+		});
+
+		// Facilities open and close while the map stays put; restyle and refilter them
+		setInterval(
+			() => refreshFacilities(layers, activeKinds, userLocation),
+			OPENING_HOURS_REFRESH_MS
+		);
+
+		// Load the cells ahead of a pan while the map is idle, then draw them from the cache
+		const prefetcher = createPrefetcher({
+			isIdle: () => !facilityRequests.isBusy(),
+			prefetch: async (cells, signal) => {
+				const bbox = enclosingBounds(cells);
+				if (!bbox) return false;
+
+				const kinds = [...activeKinds];
+				const result = await dataSource.queryBounds(
+					kinds.map((kind) => facilityDefinition(kind).query),
+					bbox,
+					{ signal }
+				);
+				if (!isOk(result)) return false;
+
+				// A load started meanwhile covers the viewport already; don't supersede it
+				if (!signal.aborted && !facilityRequests.isBusy()) {
+					const prefetched = L.latLngBounds([bbox.south, bbox.west], [bbox.north, bbox.east]);
+					void loadFacilities(
+						map,
+						layers,
+						activeKinds,
+						userLocation,
+						map.getBounds().extend(prefetched)
+					);
+				}
+				return true;
+			},
+		});
+
 		// Setup map navigation handlers for dynamic refetching
-		setupMapNavigationHandlers(map, async (bounds: L.LatLngBounds) => {
-			await loadWaterPoints(map, pointsLayer, userLocation, bounds);
-			// Also refetch toilets if layer is active
-			if (toiletLayerActive) {
-				await loadToilets(map, toiletLayer, userLocation, bounds);
+		setupMapNavigationHandlers(
+			map,
+			async (bounds: L.LatLngBounds) => {
+				// Refetch all active layers in one request, superseding the previous one
+				await loadFacilities(map, layers, activeKinds, userLocation, bounds);
+			},
+			{
+				// Below the overview zoom only counts are shown, which need no prefetching
+				onPan: (motion, bounds) => {
+					if (map.getZoom() > OVERVIEW.maxZoom && activeKinds.size > 0) {
+						prefetcher.schedule(toBoundingBox(bounds), motion);
+					}
+				},
 			}
+		);
+
+		// Zooming across the overview threshold switches between counts and facilities, and
+		// overview cells follow every zoom change; neither needs the map to pan
+		let wasOverview = map.getZoom() <= OVERVIEW.maxZoom;
+		map.on('zoomend', () => {
+			const isOverview = map.getZoom() <= OVERVIEW.maxZoom;
+			if (isOverview || wasOverview) {
+				prefetcher.cancel();
+				void loadFacilities(map, layers, activeKinds, userLocation);
+			}
+			wasOverview = isOverview;
 		});
 
 		logger.info('App initialization complete');
@@ -142,177 +385,449 @@ async function initializeApp(): Promise<void> {
 }
 
 /**
- * Load water points for given bounds and update markers
+ * Load all active facility layers for given bounds and update their markers
  */
-async function loadWaterPoints(
+async function loadFacilities(
 	map: L.Map,
-	pointsLayer: L.FeatureGroup<L.CircleMarker>,
+	layers: FacilityLayers,
+	activeKinds: ReadonlySet<FacilityKind>,
 	userLocation: { lat: number; lon: number } | null,
 	bounds?: L.LatLngBounds
 ): Promise<void> {
-	// Show loading indicator while fetching water points
-	showLoading(200);
+	const kinds = [...activeKinds];
+	if (kinds.length === 0) return;
 
 	// Use provided bounds or current map bounds
 	const fetchBounds = bounds || map.getBounds();
 
-	// Fetch water points based on bounds
-	const result = await fetchWaterPointsInBounds(drinkingWater, fetchBounds);
+	// This load replaces any retry still waiting for a rate-limited request
+	cancelFacilityRetry();
 
-	hideLoading();
+	// Zoomed far out: show counts per area instead of individual facilities
+	if (map.getZoom() <= OVERVIEW.maxZoom) {
+		await loadOverview(map, layers, kinds, fetchBounds);
+		return;
+	}
+	overviewRequests.abort('overview');
+	facilityOverview?.clear();
+	showOverviewHint(false);
+
+	// Fetch and rank all active layers, superseding older requests
+	const bbox = toBoundingBox(fetchBounds);
+	const center = fetchBounds.getCenter();
+	const outcome = await facilityRequests.run(
+		'facilities',
+		requestKey(kinds, bbox),
+		async (signal) => {
+			const result = await dataSource.queryBounds(
+				kinds.map((kind) => facilityDefinition(kind).query),
+				bbox,
+				{ signal }
+			);
+			if (!isOk(result)) return result;
+
+			const rankedByKey = await rankLayers(result.value.elementsByKey, bbox, userLocation, {
+				lat: center.lat,
+				lon: center.lng,
+			});
+			return Ok({ rankedByKey, cachedAt: result.value.cachedAt });
+		}
+	);
+
+	// A newer request replaced this one - its markers must not be overwritten
+	if (outcome.kind === 'superseded') {
+		return;
+	}
+	const result = outcome.value;
 
 	if (!isOk(result)) {
+		if (result.error.type === 'aborted') {
+			return;
+		}
+
+		const label = kinds.map((kind) => facilityDefinition(kind).dataLabel).join(' and ');
+
+		// Out of Overpass slots - retry automatically with backoff
+		if (result.error.type === 'rate_limited') {
+			const retry = facilityRetries.schedule(result.error.retryAfterMs, () => {
+				void loadFacilities(map, layers, activeKinds, userLocation, fetchBounds);
+			});
+			logger.warn(`Rate limited while loading ${label}:`, result.error);
+
+			if (retry) {
+				const seconds = Math.ceil(retry.delayMs / 1000);
+				const time = new Date(retry.at).toLocaleTimeString();
+				retryNotificationId = showNotification(
+					`Map data servers are busy. Retrying ${label} in ${seconds} s (at ${time}).`,
+					'warning',
+					0,
+					{ label: 'Cancel', onClick: () => facilityRetries.cancel() }
+				);
+			} else {
+				showNotification(
+					`Map data servers are still busy. Please try loading ${label} again later.`,
+					'error',
+					5000
+				);
+			}
+			return;
+		}
+
 		// Handle fetch error
 		const errorMessages = {
-			network: 'Failed to load water points. Please check your internet connection and try again.',
-			timeout: 'Request timed out while loading water points. Please try again.',
-			parse: 'Failed to parse water point data. Please try again.',
+			network: `Failed to load ${label}. Please check your internet connection and try again.`,
+			timeout: `Request timed out while loading ${label}. Please try again.`,
+			parse: `Failed to parse ${label}. Please try again.`,
 		};
 
 		const message =
-			errorMessages[result.error.type] || 'Failed to load water points. Please try again.';
+			errorMessages[result.error.type] || `Failed to load ${label}. Please try again.`;
 		showNotification(message, 'error', 5000);
-		logger.error('Failed to fetch water points:', result.error);
+		logger.error(`Failed to fetch ${label}:`, result.error);
 		return;
 	}
 
-	let nodes = result.value;
+	facilityRetries.reset();
 
-	// Handle empty state
-	if (nodes.length === 0) {
-		// Track empty area for water facilities
-		trackEmptyArea('water');
+	// Flag data served from offline caches instead of live Overpass data
+	showDataStatus(result.value.cachedAt);
+	renderFacilities(layers, activeKinds, result.value.rankedByKey, userLocation);
+}
 
-		showNotification(
-			'No water points found in this area. Try zooming out or panning to a different location.',
-			'info',
-			5000
-		);
-		logger.warn('No water points returned from API for current bounds');
+/**
+ * Replace the facility markers with facility counts per area
+ * Used below the overview zoom, where listing every facility would be slow and rate limited
+ */
+async function loadOverview(
+	map: L.Map,
+	layers: FacilityLayers,
+	kinds: readonly FacilityKind[],
+	bounds: L.LatLngBounds
+): Promise<void> {
+	facilityRequests.abort('facilities');
+	renderedByKey = new Map();
+	for (const markers of Object.values(layers)) {
+		markers.clear();
+	}
+	markerClusters?.refresh();
+	showOverviewHint(true);
+
+	const bbox = toBoundingBox(bounds);
+	const zoom = map.getZoom();
+	const outcome = await overviewRequests.run(
+		'overview',
+		`${zoom}:${requestKey(kinds, bbox)}`,
+		(signal) =>
+			overviewLoader.load(
+				kinds.map((kind) => facilityDefinition(kind).query),
+				bbox,
+				zoom,
+				{ signal }
+			)
+	);
 
-		// Clear existing markers
-		pointsLayer.clearLayers();
+	// Zooming or panning started a newer load
+	if (outcome.kind === 'superseded') {
 		return;
 	}
+	const result = outcome.value;
 
-	// Track area explored (debounced)
-	trackAreaExplored();
-
-	// Calculate nearest point relative to reference location
-	let nearestPoint: Element | null = null;
-	let referenceLocation: { lat: number; lon: number } | null = null;
-
-	if (userLocation) {
-		// Use user location if available
-		referenceLocation = userLocation;
-		nearestPoint = findNearestWaterPoint(userLocation.lat, userLocation.lon, nodes);
-	} else {
-		// Use map center as reference when panning without user location
-		const mapCenter = map.getCenter();
-		referenceLocation = { lat: mapCenter.lat, lon: mapCenter.lng };
-		nearestPoint = findNearestWaterPoint(mapCenter.lat, mapCenter.lng, nodes);
+	if (!isOk(result)) {
+		if (result.error.type !== 'aborted') {
+			showNotification(
+				'Could not load facility counts for this area. Zoom in to see facilities.',
+				'warning',
+				5000
+			);
+			logger.warn('Failed to load facility overview:', result.error);
+		}
+		return;
 	}
 
-	// Enrich nodes with distance information
-	nodes = nodes.map((node) => ({
-		...node,
-		distanceFromUser: haversineDistance(
-			referenceLocation.lat,
-			referenceLocation.lon,
-			node.lat,
-			node.lon
-		),
-		isNearest: nearestPoint !== null && node.id === nearestPoint.id,
-	}));
-
-	if (nearestPoint) {
-		const distanceKm = nodes.find((n) => n.id === nearestPoint?.id)?.distanceFromUser || 0;
-		const distanceStr =
-			distanceKm < 1000 ? `${Math.round(distanceKm)}m` : `${(distanceKm / 1000).toFixed(2)}km`;
-		logger.info(`Nearest water point: ${nearestPoint.id} (${distanceStr} away)`);
+	facilityOverview?.show(result.value);
+}
+
+/**
+ * Index and rank each loaded layer by distance, off the main thread where workers are available
+ * Layers are measured from the user; those ranked from the map centre (water points) use the
+ * centre without a location. The user's nearest facility comes from everything loaded so far,
+ * so it is highlighted even when it lies outside the loaded bounds. Facilities likely off for
+ * winter are never picked as nearest
+ */
+async function rankLayers(
+	elementsByKey: ReadonlyMap<string, Element[]>,
+	bbox: BoundingBox,
+	userLocation: LatLon | null,
+	center: LatLon
+): Promise<Map<string, RankedFacilities>> {
+	const pipeline = getDefaultPipeline();
+	const rankedByKey: Map<string, RankedFacilities> = new Map();
+
+	for (const [key, elements] of elementsByKey) {
+		const index = facilityIndex(key);
+		index.replaceInBounds(bbox, elements);
+
+		const fromCentre = FACILITY_DEFINITIONS.some(
+			(def) => def.kind === key && def.rankFromMapCentre
+		);
+		const reference = fromCentre ? (userLocation ?? center) : userLocation;
+		const ranked = await pipeline.rank(elements, reference);
+		const [nearest] = userLocation ? index.nearest(userLocation, 1, isLikelyAvailable) : [];
+		rankedByKey.set(key, nearest ? withNearest(ranked, nearest.item, nearest.distance) : ranked);
 	}
 
-	// Clear existing markers and add new ones
-	pointsLayer.clearLayers();
-	addMarkers(nodes, pointsLayer, map, nearestPoint);
+	return rankedByKey;
+}
+
+/**
+ * Draw the active layers from the bundled snapshot
+ * Areas the snapshot doesn't cover are left empty for the live load to fill
+ */
+async function renderSnapshot(
+	map: L.Map,
+	layers: FacilityLayers,
+	activeKinds: ReadonlySet<FacilityKind>
+): Promise<void> {
+	const queries = [...activeKinds].map((kind) => facilityDefinition(kind).query);
+	const bbox = toBoundingBox(map.getBounds());
+	const result = await bundledSource.queryBounds(queries, bbox);
+	if (!isOk(result)) return;
+
+	const { elementsByKey, cachedAt } = result.value;
+	if ([...elementsByKey.values()].every((elements) => elements.length === 0)) return;
+
+	const center = map.getCenter();
+	const rankedByKey = await rankLayers(elementsByKey, bbox, null, {
+		lat: center.lat,
+		lon: center.lng,
+	});
 
-	logger.info(`Successfully loaded ${nodes.length} water points`);
+	showDataStatus(cachedAt);
+	renderFacilities(layers, activeKinds, rankedByKey, null);
+	logger.info('Rendered bundled facility snapshot');
 }
 
 /**
- * Load public toilets for given bounds and update markers
+ * Fly to the facility a quick action leads to, open its popup and offer navigation
+ * The action's layer is shown first, and loaded around the user when nothing suitable is
+ * loaded nearby. Without a location the map centre stands in for the user
  */
-async function loadToilets(
+async function runQuickAction(
 	map: L.Map,
-	toiletLayer: L.FeatureGroup<L.CircleMarker>,
-	userLocation: { lat: number; lon: number } | null,
-	bounds?: L.LatLngBounds
+	layers: FacilityLayers,
+	activeKinds: ReadonlySet<FacilityKind>,
+	userLocation: LatLon | null,
+	action: QuickAction
 ): Promise<void> {
-	// Show loading indicator while fetching toilets
-	showLoading(200);
+	const { kind } = action;
 
-	// Use provided bounds or current map bounds
-	const fetchBounds = bounds || map.getBounds();
+	// Showing a hidden layer fires overlayadd, which activates and loads it
+	if (!map.hasLayer(layers[kind].layer)) {
+		layers[kind].layer.addTo(map);
+	}
 
-	// Fetch toilet data based on bounds
-	const result = await fetchFacilitiesInBounds(publicToilets, fetchBounds);
+	const center = map.getCenter();
+	const from = userLocation ?? { lat: center.lat, lon: center.lng };
+	const accept = (facility: Facility) => passesFilters(facility, activeFilters);
+	let target = findQuickActionTarget(action, facilityIndex(kind), from, accept);
 
-	hideLoading();
+	if (!target || target.distance > QUICK_ACTIONS.searchRadius) {
+		const bbox = toBoundingBox(
+			L.latLng(from.lat, from.lon).toBounds(QUICK_ACTIONS.searchRadius * 2)
+		);
+		showLoading(200);
+		const result = await dataSource.queryBounds([facilityDefinition(kind).query], bbox);
+		hideLoading();
 
-	if (!isOk(result)) {
-		// Handle fetch error
-		const errorMessages = {
-			network: 'Failed to load toilet data. Please check your internet connection and try again.',
-			timeout: 'Request timed out while loading toilet data. Please try again.',
-			parse: 'Failed to parse toilet data. Please try again.',
-		};
+		if (isOk(result)) {
+			facilityIndex(kind).replaceInBounds(bbox, result.value.elementsByKey.get(kind) ?? []);
+			target = findQuickActionTarget(action, facilityIndex(kind), from, accept);
+		} else if (!target) {
+			showNotification(
+				`Failed to load ${facilityDefinition(kind).dataLabel}. Please try again.`,
+				'error',
+				5000
+			);
+			logger.error(`Quick action ${action.id} failed to load:`, result.error);
+			return;
+		}
+	}
 
-		const message =
-			errorMessages[result.error.type] || 'Failed to load toilet data. Please try again.';
-		showNotification(message, 'error', 5000);
-		logger.error('Failed to fetch toilet data:', result.error);
+	if (!target) {
+		const radius = formatDistance(QUICK_ACTIONS.searchRadius);
+		showNotification(`No open ${action.name} found within ${radius}.`, 'info', 5000);
 		return;
 	}
 
-	let toilets = result.value;
+	// Markers exist once the facilities around the target are loaded
+	const { item, distance } = target;
+	const key = elementKey(item);
+	map.once('moveend', async () => {
+		await loadFacilities(map, layers, activeKinds, userLocation);
+		layers[kind]
+			.markers()
+			.find((marker) => marker.key === key)
+			?.marker.openPopup();
+	});
+	map.flyTo([item.lat, item.lon], Math.max(map.getZoom(), QUICK_ACTIONS.zoom));
 
-	// Handle empty state
-	if (toilets.length === 0) {
-		// Track empty area for toilet facilities
-		trackEmptyArea('toilet');
+	showNotification(`${action.label}: ${formatDistance(distance)} away`, 'info', 8000, {
+		label: 'Navigate',
+		onClick: () => {
+			trackNavigationStarted(facilityDefinition(kind).analyticsKind);
+			openNavigation(String(item.lat), String(item.lon), `${action.name} ${item.id}`);
+		},
+	});
+}
+
+/**
+ * Keep the facilities of a layer that pass the active filters
+ * A filtered-out nearest facility is replaced by the nearest loaded one that passes
+ */
+function applyFilters(
+	kind: FacilityKind,
+	ranked: RankedFacilities,
+	userLocation: LatLon | null
+): RankedFacilities {
+	if (activeFilters.size === 0) return ranked;
+
+	const passes = (element: Element) => passesFilters(toFacility(kind, element), activeFilters);
+	const elements = ranked.elements.filter(passes);
+	if (!ranked.nearest || passes(ranked.nearest)) {
+		return { elements, nearest: ranked.nearest };
+	}
+
+	const [nearest] = userLocation ? facilityIndex(kind).nearest(userLocation, 1, passes) : [];
+	return nearest
+		? withNearest({ elements, nearest: null }, nearest.item, nearest.distance)
+		: { elements, nearest: null };
+}
+
+/**
+ * Mark the facility recommended to the user among the loaded ones passing the active filters
+ * Needs the user's location; the nearest facility is left highlighted as the alternative
+ */
+function recommend(
+	kind: FacilityKind,
+	shown: RankedFacilities,
+	userLocation: LatLon | null
+): RankedFacilities {
+	if (!userLocation) return shown;
+
+	const passes = (element: Element) => passesFilters(toFacility(kind, element), activeFilters);
+	const candidates = facilityIndex(kind)
+		.withinRadius(userLocation, BEST_FACILITY.searchRadius, passes)
+		.map(({ item, distance }) => ({ item: toFacility(kind, item), distance }));
+	const best = pickBest(candidates, {
+		now: new Date(),
+		needsWheelchair: activeFilters.has('wheelchair'),
+	});
+	return best ? withBest(shown, best) : shown;
+}
+
+/**
+ * Update the markers of the active layers, filtered, and re-cluster them
+ * Layers disabled while a request was in flight are not rendered
+ */
+function renderFacilities(
+	layers: FacilityLayers,
+	activeKinds: ReadonlySet<FacilityKind>,
+	rankedByKey: ReadonlyMap<string, RankedFacilities>,
+	userLocation: LatLon | null
+): void {
+	renderedByKey = rankedByKey;
+
+	for (const kind of activeKinds) {
+		const ranked = rankedByKey.get(kind) ?? EMPTY_RANKED;
+		const shown = recommend(kind, applyFilters(kind, ranked, userLocation), userLocation);
 
-		showNotification('No public toilets found in this area.', 'info', 5000);
-		logger.warn('No toilets returned from API for current bounds');
+		// Facilities hidden by filters don't make the area empty
+		if (shown.elements.length === 0 && ranked.elements.length > 0) {
+			layers[kind].clear();
+		} else {
+			renderLayer(facilityDefinition(kind), layers[kind], shown);
+		}
+	}
+	markerClusters?.refresh();
+	updateCounts(activeKinds);
+}
+
+/**
+ * Re-apply filters and marker styles to the rendered facilities without refetching
+ * Used when the filters change and as opening hours open and close facilities
+ */
+function refreshFacilities(
+	layers: FacilityLayers,
+	activeKinds: ReadonlySet<FacilityKind>,
+	userLocation: LatLon | null
+): void {
+	for (const kind of activeKinds) {
+		const ranked = renderedByKey.get(kind) ?? EMPTY_RANKED;
+		const shown = recommend(kind, applyFilters(kind, ranked, userLocation), userLocation);
+		if (shown.elements.length === 0) {
+			layers[kind].clear();
+		} else {
+			layers[kind].update(shown.elements, shown.nearest);
+		}
+	}
+	markerClusters?.refresh();
+	updateCounts(activeKinds);
+}
+
+/**
+ * Recount the filter matches of the rendered facilities
+ */
+function updateCounts(activeKinds: ReadonlySet<FacilityKind>): void {
+	const facilities: Facility[] = [...activeKinds].flatMap((kind) =>
+		(renderedByKey.get(kind) ?? EMPTY_RANKED).elements.map((element) => toFacility(kind, element))
+	);
+	filterCounts = countMatches(facilities, activeFilters);
+	updateFilterCounts(filterCounts);
+}
+
+/**
+ * Update the markers of a layer with freshly loaded, ranked elements
+ */
+function renderLayer(
+	def: FacilityDefinition,
+	markers: MarkerReconciler,
+	ranked: RankedFacilities
+): void {
+	const { elements, nearest } = ranked;
+	const [singular, plural] = def.nouns;
+
+	// Handle empty state
+	if (elements.length === 0) {
+		trackEmptyArea(def.analyticsKind);
+		showNotification(def.emptyMessage, 'info', 5000);
+		logger.warn(`No ${plural} returned from API for current bounds`);
 
-		// Clear existing toilet markers
-		toiletLayer.clearLayers();
+		// Clear existing markers
+		markers.clear();
 		return;
 	}
 
 	// Track area explored (debounced)
 	trackAreaExplored();
 
-	// Enrich toilets with distance information from user location
-	if (userLocation) {
-		toilets = toilets.map((toilet) => ({
-			...toilet,
-			distanceFromUser: haversineDistance(
-				userLocation.lat,
-				userLocation.lon,
-				toilet.lat,
-				toilet.lon
-			),
-		}));
-
-		// Sort toilets by distance
-		toilets.sort((a, b) => a.distanceFromUser - b.distanceFromUser);
+	if (nearest) {
+		const distance = nearest.distanceFromUser ?? 0;
+		const distanceStr =
+			distance < 1000 ? `${Math.round(distance)}m` : `${(distance / 1000).toFixed(2)}km`;
+		logger.info(`Nearest ${singular}: ${elementKey(nearest)} (${distanceStr} away)`);
 	}
 
-	// Clear existing toilet markers and add new ones
-	toiletLayer.clearLayers();
-	addToiletMarkers(toilets, toiletLayer, map);
+	// Add new markers and drop those no longer loaded, keeping unchanged ones
+	markers.update(elements, nearest);
 
-	logger.info(`Successfully loaded ${toilets.length} public toilets`);
+	logger.info(`Successfully loaded ${elements.length} ${plural}`);
+}
+
+/**
+ * Definition of the facility kind shown by a layer control entry
+ */
+function definitionOfLayer(name: string): FacilityDefinition | undefined {
+	return FACILITY_DEFINITIONS.find((def) => def.layerName === name);
 }
 
 /**
@@ -320,37 +835,16 @@ async function loadToilets(
  */
 function setupLocateControl(
 	map: L.Map,
-	_pointsLayer: L.FeatureGroup<L.CircleMarker>,
 	onLocationUpdate: (lat: number, lon: number) => void
 ): void {
 	const LocateControl = L.Control.extend({
 		onAdd: () => {
 			const container = L.DomUtil.create('div', 'leaflet-bar leaflet-control locate-control');
-			const link = L.DomUtil.create('a', '', container);
-			link.href = '#';
-			link.title = 'Show my location';
-			link.setAttribute('aria-label', 'Show my location');
-			link.setAttribute('role', 'button');
-			link.setAttribute('tabindex', '0');
-			link.innerHTML = '📍';
-
-			// Click handler
-			const handleClick = (e: Event) => {
-				e.preventDefault();
-				e.stopPropagation();
-				locateUser(map, onLocationUpdate);
-			};
-
-			L.DomEvent.on(link, 'click', handleClick);
-
-			// Keyboard handler
-			link.addEventListener('keydown', (e: KeyboardEvent) => {
-				if (e.key === 'Enter' || e.key === ' ') {
-					e.preventDefault();
-					locateUser(map, onLocationUpdate);
-				}
+			createControlButton(container, {
+				label: 'Show my location',
+				icon: '📍',
+				onActivate: () => locateUser(map, onLocationUpdate),
 			});
-
 			return container;
 		},
 	});
@@ -359,6 +853,66 @@ function setupLocateControl(
 	locateControl.addTo(map);
 }
 
+/**
+ * Setup the filter control button
+ */
+function setupFilterControl(map: L.Map, open: () => void): void {
+	const FilterControl = L.Control.extend({
+		onAdd: () => {
+			const container = L.DomUtil.create('div', 'leaflet-bar leaflet-control filter-control');
+			createControlButton(container, { label: 'Filters', icon: '☰', onActivate: open });
+			return container;
+		},
+	});
+
+	new FilterControl({ position: 'topleft' }).addTo(map);
+}
+
+/**
+ * Setup the quick action buttons, one per action
+ */
+function setupQuickActionControl(map: L.Map, run: (action: QuickAction) => void): void {
+	const QuickActionControl = L.Control.extend({
+		onAdd: () => {
+			const container = L.DomUtil.create('div', 'leaflet-bar leaflet-control quick-action-control');
+			for (const action of QUICK_ACTION_LIST) {
+				createControlButton(container, {
+					label: action.label,
+					icon: action.icon,
+					onActivate: () => run(action),
+				});
+			}
+			return container;
+		},
+	});
+
+	new QuickActionControl({ position: 'bottomright' }).addTo(map);
+}
+
+/**
+ * Setup the offline areas control button
+ */
+function setupOfflineControl(map: L.Map): void {
+	const queries = FACILITY_DEFINITIONS.map((def) => def.query);
+	const manager = createOfflineAreaManager({ queries, source: dataSource });
+	const open = () =>
+		openOfflinePanel({
+			manager,
+			layerCount: queries.length,
+			getView: () => ({ bbox: toBoundingBox(map.getBounds()), zoom: map.getZoom() }),
+		});
+
+	const OfflineControl = L.Control.extend({
+		onAdd: () => {
+			const container = L.DomUtil.create('div', 'leaflet-bar leaflet-control offline-control');
+			createControlButton(container, { label: 'Offline areas', icon: '⬇', onActivate: open });
+			return container;
+		},
+	});
+
+	new OfflineControl({ position: 'topleft' }).addTo(map);
+}
+
 // Initialize app when DOM is ready
 if (document.readyState === 'loading') {
 	document.addEventListener('DOMContentLoaded', initializeApp);
@@ -366,7 +920,7 @@ if (document.readyState === 'loading') {
 	initializeApp();
 }
 
-// Try registering service worker for offline (if present)
+// Register the service worker built by vite.config.ts (offline app shell, tiles and data)
 if ('serviceWorker' in navigator) {
 	navigator.serviceWorker.register('sw.js').catch((err) => {
 		logger.info('Service worker registration failed:', err instanceof Error ? err.message : err);
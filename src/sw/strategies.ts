@@ -0,0 +1,195 @@
+/**
+ * Service worker caching strategies
+ * - App shell: precached at install, cache-first
+ * - Navigations: network-first, falling back to the cached index.html
+ * - OSM tiles: cache-first, stored as they are viewed, capped in size
+ * - Overpass: network-first, falling back to the last response for the same query
+ */
+
+import { OFFLINE_AREAS, OFFLINE_CACHE, OSM_TILE_URL, OVERPASS_ENDPOINTS } from '../core/config';
+import type { RequestKind } from './types';
+
+/**
+ * Cache names for one service worker version
+ */
+export type CacheNames = {
+	readonly shell: string;
+	readonly tiles: string;
+	readonly overpass: string;
+	readonly offlineTiles: string; // Filled by the page for downloaded offline areas
+};
+
+const CACHE_PREFIX = 'gribudzert';
+
+/**
+ * Host serving OSM tiles, e.g. tile.openstreetmap.org for {s}.tile.openstreetmap.org
+ */
+const TILE_HOST = new URL(OSM_TILE_URL.replace('{s}.', '')).hostname;
+
+/**
+ * Cache names for a build version
+ * Tiles and Overpass responses outlive app updates, only the shell is versioned
+ */
+export function cacheNames(version: string): CacheNames {
+	return {
+		shell: `${CACHE_PREFIX}-shell-${version}`,
+		tiles: `${CACHE_PREFIX}-tiles`,
+		overpass: `${CACHE_PREFIX}-overpass`,
+		offlineTiles: OFFLINE_AREAS.tileCacheName,
+	};
+}
+
+/**
+ * Check if a cache belongs to this app but not to the current version
+ */
+export function isObsoleteCache(name: string, names: CacheNames): boolean {
+	return name.startsWith(`${CACHE_PREFIX}-`) && !Object.values(names).includes(name);
+}
+
+/**
+ * Decide how a request is cached
+ * @param request - Intercepted request
+ * @param scope - Service worker scope URL
+ * @param precached - Absolute URLs of the precached app shell
+ */
+export function classifyRequest(
+	request: Request,
+	scope: string,
+	precached: ReadonlySet<string>
+): RequestKind {
+	const url = new URL(request.url);
+
+	if (request.method === 'POST') {
+		return OVERPASS_ENDPOINTS.includes(`${url.origin}${url.pathname}`) ? 'overpass' : 'other';
+	}
+	if (request.method !== 'GET') {
+		return 'other';
+	}
+	if (request.mode === 'navigate' && url.href.startsWith(scope)) {
+		return 'navigation';
+	}
+	if (url.hostname === TILE_HOST || url.hostname.endsWith(`.${TILE_HOST}`)) {
+		return 'tile';
+	}
+	return precached.has(url.href) ? 'shell' : 'other';
+}
+
+/**
+ * Delete the oldest entries until the cache holds at most maxEntries
+ * Cache keys are returned in insertion order, so the first ones are the oldest
+ */
+export async function trimCache(cache: Cache, maxEntries: number): Promise<void> {
+	const keys = await cache.keys();
+	const excess = keys.slice(0, Math.max(0, keys.length - maxEntries));
+	await Promise.all(excess.map((key) => cache.delete(key)));
+}
+
+/**
+ * Copy a response, stamping the time it was cached
+ * CORS headers are set so the page can read the stamp on a cross-origin request
+ */
+export async function withCachedAt(response: Response, cachedAt: number): Promise<Response> {
+	const headers = new Headers(response.headers);
+	headers.set(OFFLINE_CACHE.cachedAtHeader, String(cachedAt));
+	headers.set('Access-Control-Allow-Origin', '*');
+	headers.set('Access-Control-Expose-Headers', OFFLINE_CACHE.cachedAtHeader);
+
+	return new Response(await response.blob(), {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
+
+/**
+ * Cache key for an Overpass POST request
+ * The Cache API only stores GET requests, so the query body is hashed into the URL
+ */
+export async function overpassCacheKey(request: Request): Promise<Request> {
+	const body = await request.clone().text();
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+	const hash = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+	return new Request(`${request.url}?query=${hash}`);
+}
+
+/**
+ * Serve a tile from the cache, fetching and storing it on a miss
+ * Tiles of downloaded offline areas are served from their own cache first.
+ * The map requests tiles with CORS; opaque responses are not cached, as browsers pad their
+ * size heavily against the storage quota. A failed cache write never fails the tile
+ */
+export async function serveTile(request: Request, names: CacheNames): Promise<Response> {
+	const offline = await caches.open(names.offlineTiles);
+	const cache = await caches.open(names.tiles);
+	const cached = (await offline.match(request)) ?? (await cache.match(request));
+	if (cached) {
+		return cached;
+	}
+
+	const response = await fetch(request);
+	if (response.ok) {
+		try {
+			await cache.put(request, response.clone());
+			await trimCache(cache, OFFLINE_CACHE.tileMaxEntries);
+		} catch {
+			// Storage full or unavailable: serve the tile without keeping it
+		}
+	}
+	return response;
+}
+
+/**
+ * Query Overpass, keeping the last good response per query for offline use
+ * A cached fallback carries the cachedAt header so the app can flag it as offline data.
+ * A failed cache write never discards a good response
+ */
+export async function serveOverpass(request: Request, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	const key = await overpassCacheKey(request);
+
+	let response: Response;
+	try {
+		response = await fetch(request);
+	} catch (err) {
+		const cached = await cache.match(key);
+		if (cached) {
+			return cached;
+		}
+		throw err;
+	}
+
+	if (response.ok) {
+		try {
+			await cache.delete(key);
+			await cache.put(key, await withCachedAt(response.clone(), Date.now()));
+			await trimCache(cache, OFFLINE_CACHE.overpassMaxEntries);
+		} catch {
+			// Storage full or unavailable: the response is still served
+		}
+	}
+	return response;
+}
+
+/**
+ * Serve a page navigation, falling back to the cached app shell offline
+ */
+export async function serveNavigation(request: Request, cacheName: string): Promise<Response> {
+	try {
+		return await fetch(request);
+	} catch (err) {
+		const cache = await caches.open(cacheName);
+		const shell = (await cache.match(request)) ?? (await cache.match('./'));
+		if (shell) {
+			return shell;
+		}
+		throw err;
+	}
+}
+
+/**
+ * Serve a precached app shell file
+ */
+export async function serveShell(request: Request, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	return (await cache.match(request)) ?? fetch(request);
+}
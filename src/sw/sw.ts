@@ -0,0 +1,69 @@
+/**
+ * Service worker entry point
+ * Built separately by the service worker plugin in vite.config.ts, which
+ * injects the precache manifest and cache version at build time
+ */
+
+import {
+	cacheNames,
+	classifyRequest,
+	isObsoleteCache,
+	serveNavigation,
+	serveOverpass,
+	serveShell,
+	serveTile,
+} from './strategies';
+import type { ServiceWorkerScope } from './types';
+
+declare const __PRECACHE_MANIFEST__: readonly string[];
+declare const __CACHE_VERSION__: string;
+
+const scope = globalThis as unknown as ServiceWorkerScope;
+const names = cacheNames(__CACHE_VERSION__);
+const precached: ReadonlySet<string> = new Set(
+	__PRECACHE_MANIFEST__.map((path) => new URL(path, scope.location.href).href)
+);
+
+scope.addEventListener('install', (event) => {
+	event.waitUntil(
+		caches
+			.open(names.shell)
+			.then((cache) => cache.addAll([...precached]))
+			.then(() => scope.skipWaiting())
+	);
+});
+
+scope.addEventListener('activate', (event) => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then((keys) =>
+				Promise.all(
+					keys.filter((key) => isObsoleteCache(key, names)).map((key) => caches.delete(key))
+				)
+			)
+			.then(() => scope.clients.claim())
+	);
+});
+
+scope.addEventListener('fetch', (event) => {
+	const { request } = event;
+
+	switch (classifyRequest(request, new URL('./', scope.location.href).href, precached)) {
+		case 'navigation':
+			event.respondWith(serveNavigation(request, names.shell));
+			break;
+		case 'shell':
+			event.respondWith(serveShell(request, names.shell));
+			break;
+		case 'tile':
+			event.respondWith(serveTile(request, names));
+			break;
+		case 'overpass':
+			event.respondWith(serveOverpass(request, names.overpass));
+			break;
+		case 'other':
+			// Not intercepted - the browser handles it as usual
+			break;
+	}
+});
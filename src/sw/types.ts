@@ -0,0 +1,27 @@
+/**
+ * Minimal service worker types
+ * The project compiles against the DOM lib only, so the few worker
+ * interfaces the service worker uses are declared here
+ */
+
+export interface ExtendableEvent extends Event {
+	waitUntil(promise: Promise<unknown>): void;
+}
+
+export interface FetchEvent extends ExtendableEvent {
+	readonly request: Request;
+	respondWith(response: Response | Promise<Response>): void;
+}
+
+export interface ServiceWorkerScope {
+	readonly location: Location;
+	readonly clients: { claim(): Promise<void> };
+	skipWaiting(): Promise<void>;
+	addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+	addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+}
+
+/**
+ * Kind of request, deciding the caching strategy
+ */
+export type RequestKind = 'navigation' | 'shell' | 'tile' | 'overpass' | 'other';
@@ -81,3 +81,14 @@ export const coordinates = (lat: number, lon: number): Coordinates | null => {
 
 	return { lat: validLat, lon: validLon };
 };
+
+/**
+ * Geographic bounding box in decimal degrees
+ * Plain-data counterpart of Leaflet's LatLngBounds, safe to store and post to workers
+ */
+export type BoundingBox = {
+	readonly south: number;
+	readonly west: number;
+	readonly north: number;
+	readonly east: number;
+};
@@ -8,8 +8,10 @@
  */
 export type FetchError =
 	| { readonly type: 'network'; readonly message: string }
-	| { readonly type: 'parse'; readonly message: string }
-	| { readonly type: 'timeout'; readonly message: string };
+	| { readonly type: 'parse'; readonly message: string; readonly cause?: ParseError }
+	| { readonly type: 'timeout'; readonly message: string }
+	| { readonly type: 'aborted'; readonly message: string }
+	| { readonly type: 'rate_limited'; readonly message: string; readonly retryAfterMs: number | null };
 
 /**
  * Geolocation errors
@@ -45,6 +47,15 @@ export type ParseError =
 	| { readonly type: 'missing_required_field'; readonly field: string; readonly message: string }
 	| { readonly type: 'invalid_coordinates'; readonly message: string };
 
+/**
+ * Offline area download errors
+ */
+export type OfflineAreaError =
+	| { readonly type: 'too_large'; readonly message: string }
+	| { readonly type: 'not_found'; readonly message: string }
+	| { readonly type: 'fetch_failed'; readonly message: string; readonly cause: FetchError }
+	| { readonly type: 'aborted'; readonly message: string };
+
 /**
  * General application errors
  */
@@ -1,6 +1,6 @@
 /**
  * Facility Type Definitions
- * Discriminated union types for different facility types (water sources, toilets)
+ * Discriminated union types for different facility types (water sources, toilets, refill stations)
  */
 
 import type { Element } from '../overpass';
@@ -8,7 +8,12 @@ import type { Element } from '../overpass';
 /**
  * Discriminated union for all facility types
  */
-export type Facility = WaterFacility | ToiletFacility;
+export type Facility = WaterFacility | ToiletFacility | RefillFacility;
+
+/**
+ * Facility kind discriminator ('water' | 'toilet' | 'refill')
+ */
+export type FacilityKind = Facility['kind'];
 
 /**
  * Water facility (drinking water, spring, well, etc.)
@@ -18,6 +23,9 @@ export type WaterFacility = {
 	readonly element: Element;
 	readonly drinkable: boolean;
 	readonly sourceType: WaterSourceType;
+	readonly bottleRefill: boolean; // bottle=yes
+	readonly dogFriendly: boolean; // dog=yes
+	readonly wheelchair: WheelchairAccess;
 };
 
 /**
@@ -30,6 +38,19 @@ export type ToiletFacility = {
 	readonly details: ToiletDetails;
 };
 
+/**
+ * Refill station (café, shop or other venue that refills bottles with drinking water)
+ * Tagged drinking_water:refill=yes or refill:drinking_water=yes
+ */
+export type RefillFacility = {
+	readonly kind: 'refill';
+	readonly element: Element;
+	readonly venue: string | null; // name, null if not specified
+	readonly customersOnly: boolean; // access=customers
+	readonly fee: FeeStatus;
+	readonly wheelchair: WheelchairAccess;
+};
+
 /**
  * Water source types
  */
@@ -69,6 +90,6 @@ export type ToiletAccessibility = {
  */
 export type ToiletDetails = {
 	readonly fee: FeeStatus;
-	readonly openingHours: string | null; // null if not specified (assume 24/7)
+	readonly openingHours: string | null; // Raw OSM value, null if not specified
 	readonly unisex: boolean | null; // null if not specified
 };
@@ -2,55 +2,117 @@ export type Overpass = {
 	readonly version: number;
 	readonly generator: string;
 	readonly osm3s: Osm3S;
-	readonly elements: Element[];
+	readonly elements: RawElement[];
 };
 
+/**
+ * OSM element types
+ */
+export type ElementType = 'node' | 'way' | 'relation';
+
+/**
+ * Plain coordinate pair
+ */
+export type LatLon = {
+	readonly lat: number;
+	readonly lon: number;
+};
+
+/**
+ * Facility element, normalised from the raw Overpass response
+ * Ways and relations are placed at their centre point
+ */
 export type Element = {
-	readonly type: 'node';
+	readonly type: ElementType;
 	readonly id: number;
-	readonly lat: number;
+	readonly lat: number; // Node position, or centre of a way/relation
 	readonly lon: number;
 	readonly tags: Tags;
+	readonly outline?: readonly (readonly LatLon[])[]; // Way/relation outline rings
 	readonly distanceFromUser?: number;
 	readonly isNearest?: boolean;
+	readonly recommendation?: readonly string[]; // Reasons, on the recommended facility only
+};
+
+/**
+ * Raw node as returned by Overpass (skeleton nodes have no tags)
+ */
+export type RawNode = {
+	readonly type: 'node';
+	readonly id: number;
+	readonly lat: number;
+	readonly lon: number;
+	readonly tags?: Tags;
+};
+
+/**
+ * Raw way as returned by Overpass with `out body center`
+ */
+export type RawWay = {
+	readonly type: 'way';
+	readonly id: number;
+	readonly nodes?: readonly number[];
+	readonly center?: LatLon;
+	readonly tags?: Tags;
+};
+
+/**
+ * Relation member reference
+ */
+export type RawMember = {
+	readonly type: ElementType;
+	readonly ref: number;
+	readonly role: string;
 };
 
+/**
+ * Raw relation as returned by Overpass with `out body center`
+ */
+export type RawRelation = {
+	readonly type: 'relation';
+	readonly id: number;
+	readonly members?: readonly RawMember[];
+	readonly center?: LatLon;
+	readonly tags?: Tags;
+};
+
+/**
+ * Any raw Overpass element
+ */
+export type RawElement = RawNode | RawWay | RawRelation;
+
+/**
+ * Stable key for an element, unique across OSM element types
+ */
+export const elementKey = (element: Pick<Element, 'type' | 'id'>): string =>
+	`${element.type}/${element.id}`;
+
+/**
+ * OSM tags of an element
+ * Values are free-form strings in OSM; keys the app reads are listed for reference
+ */
 export type Tags = {
-	readonly amenity: 'drinking_water';
-	readonly man_made?: 'water_tap';
-	readonly access?: Access;
-	readonly drinking_water?: Access;
-	readonly fee?: Covered;
-	readonly operator?: Operator;
-	readonly 'operator:wikidata'?: 'Q124713902';
-	readonly seasonal?: Covered;
-	readonly bottle?: Access;
-	readonly note?: Note;
-	readonly wheelchair?: Access;
-	readonly fountain?: string;
-	readonly indoor?: Covered;
-	readonly level?: string;
-	readonly colour?: string;
-	readonly dog?: Access;
-	readonly mapillary?: string;
-	readonly start_date?: string;
-	readonly covered?: Covered;
-	readonly panoramax?: string;
-	readonly height?: string;
-	readonly fixme?: string;
-	readonly image?: string;
-	readonly lit?: Access;
-};
-
-export type Access = 'yes' | 'customers';
-
-export type Covered = 'no' | 'yes';
-
-export type Note = 'turned off during winter' | 'dismantled during winter';
-
-export type Operator = 'Rīgas ūdens' | 'Mārupes komunālie pakalpojumi' | 'Riga Airport';
+	readonly amenity?: string;
+	readonly natural?: string;
+	readonly man_made?: string;
+	readonly waterway?: string;
+	readonly access?: string;
+	readonly drinking_water?: string;
+	readonly fee?: string;
+	readonly operator?: string;
+	readonly seasonal?: string;
+	readonly bottle?: string;
+	readonly note?: string;
+	readonly wheelchair?: string;
+	readonly opening_hours?: string;
+	readonly unisex?: string;
+	readonly changing_table?: string;
+	readonly check_date?: string;
+	readonly name?: string;
+	readonly [key: string]: string | undefined;
+};
 
 export type Osm3S = {
-	readonly timestamp_osm_base: Date;
+	readonly timestamp_osm_base: string;
 	readonly copyright: string;
 };
@@ -0,0 +1,4 @@
+declare module 'virtual:facility-snapshot' {
+	const snapshot: import('../features/data/bundled').BundledSnapshot;
+	export default snapshot;
+}
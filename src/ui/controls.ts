@@ -0,0 +1,46 @@
+/**
+ * Map control buttons
+ * Icon links inside Leaflet control containers, usable by mouse and keyboard
+ */
+
+/**
+ * Options for a control button
+ */
+export type ControlButtonOptions = {
+	readonly label: string; // Title and accessible name
+	readonly icon: string; // HTML shown in the button
+	readonly onActivate: () => void;
+};
+
+/**
+ * Add a button to a control container
+ * Clicks don't reach the map, and Enter or Space activate the button like a click
+ */
+export function createControlButton(
+	container: HTMLElement,
+	options: ControlButtonOptions
+): HTMLAnchorElement {
+	const link = document.createElement('a');
+	link.href = '#';
+	link.title = options.label;
+	link.setAttribute('aria-label', options.label);
+	link.setAttribute('role', 'button');
+	link.setAttribute('tabindex', '0');
+	link.innerHTML = options.icon;
+
+	link.addEventListener('click', (e: MouseEvent) => {
+		e.preventDefault();
+		e.stopPropagation();
+		options.onActivate();
+	});
+
+	link.addEventListener('keydown', (e: KeyboardEvent) => {
+		if (e.key === 'Enter' || e.key === ' ') {
+			e.preventDefault();
+			options.onActivate();
+		}
+	});
+
+	container.appendChild(link);
+	return link;
+}
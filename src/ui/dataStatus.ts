@@ -0,0 +1,61 @@
+/**
+ * Data freshness badge
+ * Flags facility data served from offline caches instead of live Overpass data
+ */
+
+let badgeElement: HTMLDivElement | null = null;
+let shownCachedAt: number | null = null;
+let listening = false;
+
+/**
+ * Badge text for cached data
+ * @param cachedAt - Time the data was cached (epoch ms)
+ * @param online - Whether the browser reports a network connection
+ */
+export function formatDataStatus(cachedAt: number, online: boolean): string {
+	const date = new Date(cachedAt);
+	const sameDay = date.toDateString() === new Date().toDateString();
+	const time = sameDay
+		? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+		: date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+	return online ? `Showing cached data as of ${time}` : `Offline / cached as of ${time}`;
+}
+
+/**
+ * Refresh the badge text when connectivity changes
+ */
+function render(): void {
+	if (!badgeElement || shownCachedAt === null) return;
+	badgeElement.textContent = formatDataStatus(shownCachedAt, navigator.onLine);
+}
+
+/**
+ * Show or hide the cached data badge
+ * @param cachedAt - Time the shown data was cached, or null for live data
+ */
+export function showDataStatus(cachedAt: number | null): void {
+	shownCachedAt = cachedAt;
+
+	if (cachedAt === null) {
+		badgeElement?.classList.remove('data-status-visible');
+		return;
+	}
+
+	if (!badgeElement) {
+		badgeElement = document.createElement('div');
+		badgeElement.className = 'data-status';
+		badgeElement.setAttribute('role', 'status');
+		badgeElement.setAttribute('aria-live', 'polite');
+		document.body.appendChild(badgeElement);
+	}
+
+	if (!listening) {
+		window.addEventListener('online', render);
+		window.addEventListener('offline', render);
+		listening = true;
+	}
+
+	render();
+	badgeElement.classList.add('data-status-visible');
+}
@@ -0,0 +1,103 @@
+/**
+ * Facility filter panel
+ * Checkboxes for the facility filters, each with a live count of matching facilities
+ */
+
+import type { FilterId } from '../features/filters/filters';
+import { FACILITY_FILTERS } from '../features/filters/filters';
+
+/**
+ * Options for the filter panel
+ */
+export type FilterPanelOptions = {
+	readonly active: ReadonlySet<FilterId>;
+	readonly counts: Readonly<Record<FilterId, number>>;
+	/** Called with the new active filters whenever a checkbox changes */
+	readonly onChange: (active: Set<FilterId>) => void;
+};
+
+let panelElement: HTMLDivElement | null = null;
+let countElements: Map<FilterId, HTMLElement> = new Map();
+
+/**
+ * Build the panel
+ */
+function createPanel(options: FilterPanelOptions): HTMLDivElement {
+	const panel = document.createElement('div');
+	panel.className = 'filter-panel';
+	panel.setAttribute('role', 'dialog');
+	panel.setAttribute('aria-label', 'Filters');
+
+	const title = document.createElement('h2');
+	title.textContent = 'Filters';
+
+	const close = document.createElement('button');
+	close.type = 'button';
+	close.className = 'filter-panel-close';
+	close.textContent = '×';
+	close.setAttribute('aria-label', 'Close');
+	close.addEventListener('click', closeFilterPanel);
+
+	const list = document.createElement('ul');
+	list.className = 'filter-list';
+	const active: Set<FilterId> = new Set(options.active);
+	countElements = new Map();
+
+	for (const filter of FACILITY_FILTERS) {
+		const item = document.createElement('li');
+		const label = document.createElement('label');
+		label.className = 'filter-option';
+
+		const checkbox = document.createElement('input');
+		checkbox.type = 'checkbox';
+		checkbox.value = filter.id;
+		checkbox.checked = active.has(filter.id);
+		checkbox.addEventListener('change', () => {
+			if (checkbox.checked) {
+				active.add(filter.id);
+			} else {
+				active.delete(filter.id);
+			}
+			options.onChange(new Set(active));
+		});
+
+		const count = document.createElement('span');
+		count.className = 'filter-count';
+		count.textContent = String(options.counts[filter.id]);
+		countElements.set(filter.id, count);
+
+		label.append(checkbox, ` ${filter.label} `, count);
+		item.appendChild(label);
+		list.appendChild(item);
+	}
+
+	panel.append(title, close, list);
+	return panel;
+}
+
+/**
+ * Open the filter panel
+ */
+export function openFilterPanel(options: FilterPanelOptions): void {
+	closeFilterPanel();
+	panelElement = createPanel(options);
+	document.body.appendChild(panelElement);
+}
+
+/**
+ * Update the match counts of an open panel
+ */
+export function updateFilterCounts(counts: Readonly<Record<FilterId, number>>): void {
+	for (const [id, element] of countElements) {
+		element.textContent = String(counts[id]);
+	}
+}
+
+/**
+ * Close the filter panel
+ */
+export function closeFilterPanel(): void {
+	panelElement?.remove();
+	panelElement = null;
+	countElements = new Map();
+}
@@ -4,6 +4,15 @@
 
 export type NotificationType = 'info' | 'success' | 'error' | 'warning';
 
+/**
+ * Optional action button shown in a notification
+ * Clicking it runs onClick and dismisses the notification
+ */
+export interface NotificationAction {
+	label: string;
+	onClick: () => void;
+}
+
 interface Notification {
 	id: string;
 	message: string;
@@ -34,12 +43,14 @@ function initContainer(): HTMLDivElement {
  * @param message - Message to display
  * @param type - Notification type (info, success, error, warning)
  * @param duration - Auto-dismiss duration in ms (0 = no auto-dismiss)
+ * @param action - Optional action button
  * @returns Notification ID for manual dismissal
  */
 export function showNotification(
 	message: string,
 	type: NotificationType = 'info',
-	duration: number = 3000
+	duration: number = 3000,
+	action?: NotificationAction
 ): string {
 	const container = initContainer();
 	const id = `notification-${Date.now()}-${Math.random()}`;
@@ -62,9 +73,19 @@ export function showNotification(
 	notification.innerHTML = `
     <span class="notification-icon" aria-hidden="true">${icons[type]}</span>
     <span class="notification-message">${escapeHtml(message)}</span>
+    ${action ? `<button type="button" class="notification-action">${escapeHtml(action.label)}</button>` : ''}
     <button class="notification-close" aria-label="Dismiss notification" tabindex="0">×</button>
   `;
 
+	// Action button handler
+	if (action) {
+		const actionBtn = notification.querySelector('.notification-action') as HTMLButtonElement;
+		actionBtn.addEventListener('click', () => {
+			action.onClick();
+			dismissNotification(id);
+		});
+	}
+
 	// Close button handler
 	const closeBtn = notification.querySelector('.notification-close') as HTMLButtonElement;
 	closeBtn.addEventListener('click', () => dismissNotification(id));
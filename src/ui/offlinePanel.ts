@@ -0,0 +1,250 @@
+/**
+ * Offline areas panel
+ * Downloads the visible map area for offline use and lists downloaded areas
+ * with their size and age, offering refresh and delete
+ */
+
+import { MAX_ZOOM } from '../core/config';
+import type { AreaEstimate, DownloadProgress, OfflineAreaManager } from '../features/offline/areas';
+import { estimateArea } from '../features/offline/areas';
+import type { ZoomRange } from '../features/offline/tiles';
+import type { BoundingBox } from '../types/domain';
+import { isOk } from '../types/result';
+import { showNotification } from './notifications';
+
+/**
+ * Visible map area offered for download
+ */
+export type PanelView = {
+	readonly bbox: BoundingBox;
+	readonly zoom: number;
+};
+
+/**
+ * Options for the offline panel
+ */
+export type OfflinePanelOptions = {
+	readonly manager: OfflineAreaManager;
+	readonly layerCount: number;
+	readonly getView: () => PanelView;
+};
+
+let panelElement: HTMLDivElement | null = null;
+let downloadController: AbortController | null = null;
+
+/**
+ * Human-readable size, e.g. "1.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Human-readable age, e.g. "3 days ago"
+ * @param timestamp - Epoch ms
+ * @param now - Current time (epoch ms)
+ */
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+	const minutes = Math.floor((now - timestamp) / 60_000);
+	if (minutes < 1) return 'just now';
+	if (minutes < 60) return `${minutes} min ago`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours} h ago`;
+	const days = Math.floor(hours / 24);
+	return days === 1 ? '1 day ago' : `${days} days ago`;
+}
+
+/**
+ * Estimate line shown under the download form
+ */
+export function formatEstimate(estimate: AreaEstimate): string {
+	if (estimate.error) return estimate.error.message;
+	return `About ${formatBytes(estimate.bytes)} (${estimate.tiles} map tiles)`;
+}
+
+/**
+ * Progress line shown while downloading
+ */
+function formatProgress(progress: DownloadProgress): string {
+	return progress.phase === 'facilities'
+		? 'Downloading facilities…'
+		: `Downloading map tiles ${progress.done}/${progress.total}…`;
+}
+
+/**
+ * Create a button with a click handler
+ */
+function createButton(label: string, className: string, onClick: () => void): HTMLButtonElement {
+	const button = document.createElement('button');
+	button.type = 'button';
+	button.className = className;
+	button.textContent = label;
+	button.addEventListener('click', onClick);
+	return button;
+}
+
+/**
+ * Create a zoom level select
+ */
+function createZoomSelect(label: string, value: number): HTMLSelectElement {
+	const select = document.createElement('select');
+	select.setAttribute('aria-label', label);
+	for (let zoom = 1; zoom <= MAX_ZOOM; zoom++) {
+		const option = document.createElement('option');
+		option.value = String(zoom);
+		option.textContent = String(zoom);
+		select.appendChild(option);
+	}
+	select.value = String(value);
+	return select;
+}
+
+/**
+ * Render the list of downloaded areas
+ */
+function renderAreaList(list: HTMLUListElement, options: OfflinePanelOptions): void {
+	const { manager } = options;
+	const areas = manager.list();
+	list.replaceChildren();
+
+	if (areas.length === 0) {
+		const empty = document.createElement('li');
+		empty.className = 'offline-area-empty';
+		empty.textContent = 'No downloaded areas yet';
+		list.appendChild(empty);
+		return;
+	}
+
+	for (const area of areas) {
+		const item = document.createElement('li');
+		item.className = 'offline-area';
+
+		const info = document.createElement('span');
+		info.className = 'offline-area-info';
+		info.textContent = `${area.name} · ${formatBytes(area.bytes)} · ${formatAge(area.downloadedAt)}`;
+
+		const refresh = createButton('Refresh', 'offline-area-refresh', async () => {
+			refresh.disabled = true;
+			const result = await manager.refresh(area.id);
+			if (isOk(result)) {
+				showNotification(`Refreshed "${area.name}"`, 'success', 3000);
+			} else {
+				showNotification(result.error.message, 'error', 5000);
+			}
+			renderAreaList(list, options);
+		});
+
+		const remove = createButton('Delete', 'offline-area-delete', async () => {
+			remove.disabled = true;
+			await manager.remove(area.id);
+			renderAreaList(list, options);
+		});
+
+		item.append(info, refresh, remove);
+		list.appendChild(item);
+	}
+}
+
+/**
+ * Build the panel for the current view
+ */
+function createPanel(options: OfflinePanelOptions): HTMLDivElement {
+	const view = options.getView();
+	const panel = document.createElement('div');
+	panel.className = 'offline-panel';
+	panel.setAttribute('role', 'dialog');
+	panel.setAttribute('aria-label', 'Offline areas');
+
+	const title = document.createElement('h2');
+	title.textContent = 'Offline areas';
+
+	const close = createButton('×', 'offline-panel-close', closeOfflinePanel);
+	close.setAttribute('aria-label', 'Close');
+
+	const name = document.createElement('input');
+	name.type = 'text';
+	name.className = 'offline-area-name';
+	name.value = `Area ${new Date().toLocaleDateString()}`;
+	name.setAttribute('aria-label', 'Area name');
+
+	const minZoom = createZoomSelect('Minimum zoom', view.zoom);
+	const maxZoom = createZoomSelect('Maximum zoom', Math.min(view.zoom + 2, MAX_ZOOM));
+
+	const estimateLine = document.createElement('p');
+	estimateLine.className = 'offline-estimate';
+	estimateLine.setAttribute('aria-live', 'polite');
+
+	const list = document.createElement('ul');
+	list.className = 'offline-area-list';
+
+	const zooms = (): ZoomRange => {
+		const min = Number(minZoom.value);
+		return { min, max: Math.max(min, Number(maxZoom.value)) };
+	};
+
+	const download = createButton('Download this area', 'offline-download', async () => {
+		downloadController?.abort();
+		const controller = new AbortController();
+		downloadController = controller;
+		download.disabled = true;
+
+		const result = await options.manager.download(
+			name.value.trim() || 'Unnamed area',
+			view.bbox,
+			zooms(),
+			(progress) => {
+				estimateLine.textContent = formatProgress(progress);
+			},
+			controller.signal
+		);
+
+		if (controller.signal.aborted) return;
+		downloadController = null;
+		download.disabled = false;
+
+		if (isOk(result)) {
+			estimateLine.textContent = `Downloaded ${formatBytes(result.value.bytes)}`;
+			renderAreaList(list, options);
+		} else {
+			estimateLine.textContent = result.error.message;
+		}
+	});
+
+	const updateEstimate = (): void => {
+		const estimate = estimateArea(view.bbox, zooms(), options.layerCount);
+		estimateLine.textContent = formatEstimate(estimate);
+		download.disabled = estimate.error !== null;
+	};
+	minZoom.addEventListener('change', updateEstimate);
+	maxZoom.addEventListener('change', updateEstimate);
+
+	const zoomRow = document.createElement('div');
+	zoomRow.className = 'offline-zooms';
+	zoomRow.append('Zoom ', minZoom, ' to ', maxZoom);
+
+	panel.append(title, close, name, zoomRow, estimateLine, download, list);
+	updateEstimate();
+	renderAreaList(list, options);
+	return panel;
+}
+
+/**
+ * Open the offline areas panel for the visible map area
+ */
+export function openOfflinePanel(options: OfflinePanelOptions): void {
+	closeOfflinePanel();
+	panelElement = createPanel(options);
+	document.body.appendChild(panelElement);
+}
+
+/**
+ * Close the panel, cancelling a running download
+ */
+export function closeOfflinePanel(): void {
+	downloadController?.abort();
+	downloadController = null;
+	panelElement?.remove();
+	panelElement = null;
+}
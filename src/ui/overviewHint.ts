@@ -0,0 +1,29 @@
+/**
+ * Overview hint
+ * Tells the user that facilities are only shown as counts until they zoom in
+ */
+
+const HINT_TEXT = 'Zoom in to see facilities';
+
+let hintElement: HTMLDivElement | null = null;
+
+/**
+ * Show or hide the "zoom in" hint
+ */
+export function showOverviewHint(visible: boolean): void {
+	if (!visible) {
+		hintElement?.classList.remove('overview-hint-visible');
+		return;
+	}
+
+	if (!hintElement) {
+		hintElement = document.createElement('div');
+		hintElement.className = 'overview-hint';
+		hintElement.setAttribute('role', 'status');
+		hintElement.setAttribute('aria-live', 'polite');
+		hintElement.textContent = HINT_TEXT;
+		document.body.appendChild(hintElement);
+	}
+
+	hintElement.classList.add('overview-hint-visible');
+}
@@ -2,8 +2,6 @@
  * Geometry utilities for distance calculations
  */
 
-import type { Element } from '../types/overpass';
-
 /**
  * Calculate distance between two geographic points using Haversine formula
  * @param lat1 - Latitude of first point in decimal degrees
@@ -26,26 +24,3 @@ export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2
 
 	return R * c; // Distance in meters
 }
-
-/**
- * Find the nearest water point to a given location
- * @param userLat - User's latitude in decimal degrees
- * @param userLon - User's longitude in decimal degrees
- * @param points - Array of water point elements
- * @returns Nearest element or null if array is empty
- */
-export function findNearestWaterPoint(
-	userLat: number,
-	userLon: number,
-	points: readonly Element[]
-): Element | null {
-	if (points.length === 0) {
-		return null;
-	}
-
-	return points.reduce((nearest, point) => {
-		const distToPoint = haversineDistance(userLat, userLon, point.lat, point.lon);
-		const distToNearest = haversineDistance(userLat, userLon, nearest.lat, nearest.lon);
-		return distToPoint < distToNearest ? point : nearest;
-	});
-}
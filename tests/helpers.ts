@@ -67,6 +67,7 @@ export function createMockFetchResponse(body: string, options?: Partial<Response
 		ok: true,
 		status: 200,
 		statusText: 'OK',
+		headers: new Headers(),
 		text: async () => body,
 		json: async () => JSON.parse(body),
 		...options,
@@ -4,17 +4,25 @@
  */
 
 import * as L from 'leaflet';
-import { beforeEach, describe, expect, it } from 'vitest';
-import { addMarkers } from '../../src/features/markers/markers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { facilityDefinition } from '../../src/features/facilities/registry';
+import type { FacilityLayer } from '../../src/features/markers/markers';
+import type { MarkerReconciler } from '../../src/features/markers/reconcile';
+import { createMarkerReconciler } from '../../src/features/markers/reconcile';
 import type { Element } from '../../src/types/overpass';
 
+// The reconciler checks marker classes, so use real Leaflet
+vi.unmock('leaflet');
+
 describe('Water Markers Integration', () => {
+	let container: HTMLElement;
 	let map: L.Map;
-	let layer: L.FeatureGroup;
+	let layer: FacilityLayer;
+	let markers: MarkerReconciler;
 
 	beforeEach(() => {
 		// Create a container div for the map
-		const container = document.createElement('div');
+		container = document.createElement('div');
 		container.id = 'map';
 		container.style.height = '400px';
 		document.body.appendChild(container);
@@ -24,6 +32,12 @@ describe('Water Markers Integration', () => {
 
 		// Create layer
 		layer = L.featureGroup().addTo(map);
+		markers = createMarkerReconciler(layer, map, facilityDefinition('water'));
+	});
+
+	afterEach(() => {
+		map.remove();
+		container.remove();
 	});
 
 	it('should add drinkable water markers to the layer', () => {
@@ -44,7 +58,7 @@ describe('Water Markers Integration', () => {
 			},
 		];
 
-		addMarkers(elements, layer, map);
+		markers.update(elements);
 
 		// Verify markers were added (one per element with valid coordinates)
 		expect(layer.getLayers().length).toBe(2);
@@ -61,7 +75,7 @@ describe('Water Markers Integration', () => {
 			},
 		];
 
-		addMarkers(elements, layer, map);
+		markers.update(elements);
 
 		expect(layer.getLayers().length).toBe(1);
 	});
@@ -85,7 +99,7 @@ describe('Water Markers Integration', () => {
 		];
 
 		const nearestPoint = elements[0];
-		addMarkers(elements, layer, map, nearestPoint);
+		markers.update(elements, nearestPoint);
 
 		expect(layer.getLayers().length).toBe(2);
 	});
@@ -108,7 +122,7 @@ describe('Water Markers Integration', () => {
 			},
 		];
 
-		addMarkers(elements, layer, map);
+		markers.update(elements);
 
 		// Should only add the marker with valid coordinates
 		expect(layer.getLayers().length).toBe(1);
@@ -125,7 +139,7 @@ describe('Water Markers Integration', () => {
 			},
 		];
 
-		addMarkers(elements, layer, map);
+		markers.update(elements);
 
 		expect(layer.getLayers().length).toBe(1);
 	});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the bundled facility snapshot
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	buildSnapshot,
+	compactElements,
+	expandSnapshot,
+	overpassXmlToJson,
+} from '../../../../src/features/data/bundled';
+import { createBundledSource } from '../../../../src/features/data/sources/bundled';
+import { isErr, isOk } from '../../../../src/types/result';
+
+const XML_EXPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6" generator="Overpass API">
+<meta osm_base="2025-09-07T13:55:45Z"/>
+  <node id="1" lat="56.9496" lon="24.1052">
+    <tag k="amenity" v="drinking_water"/>
+    <tag k="operator" v="R&#x12B;gas &quot;&#363;dens&quot; &amp; co"/>
+  </node>
+  <node id="2" lat="56.95" lon="24.11"/>
+  <way id="3">
+    <center lat="56.96" lon="24.12"/>
+    <nd ref="2"/>
+    <tag k="amenity" v="toilets"/>
+  </way>
+</osm>`;
+
+describe('overpassXmlToJson', () => {
+	it('should convert elements, tags, centres and node refs', () => {
+		expect(overpassXmlToJson(XML_EXPORT)).toEqual({
+			osm3s: { timestamp_osm_base: '2025-09-07T13:55:45Z' },
+			elements: [
+				{
+					type: 'node',
+					id: '1',
+					lat: '56.9496',
+					lon: '24.1052',
+					tags: { amenity: 'drinking_water', operator: 'Rīgas "ūdens" & co' },
+				},
+				{ type: 'node', id: '2', lat: '56.95', lon: '24.11' },
+				{
+					type: 'way',
+					id: '3',
+					center: { lat: '56.96', lon: '24.12' },
+					nodes: ['2'],
+					tags: { amenity: 'toilets' },
+				},
+			],
+		});
+	});
+});
+
+describe('buildSnapshot', () => {
+	it('should build a snapshot from an XML export', () => {
+		const result = buildSnapshot(XML_EXPORT, 'xml');
+		if (!isOk(result)) throw new Error('build failed');
+
+		expect(result.value.osmBase).toBe('2025-09-07T13:55:45Z');
+		// The tagless node only served as way geometry
+		expect(result.value.elements.map(([type, id]) => `${type}/${id}`)).toEqual(['node/1', 'way/3']);
+		expect(result.value.elements[1]?.slice(2, 4)).toEqual([56.96, 24.12]);
+	});
+
+	it('should build a snapshot from a JSON export', () => {
+		const result = buildSnapshot(
+			JSON.stringify({
+				osm3s: { timestamp_osm_base: '2025-01-01T00:00:00Z' },
+				elements: [{ type: 'node', id: 7, lat: 56.9, lon: 24.1, tags: { amenity: 'toilets' } }],
+			}),
+			'json'
+		);
+
+		expect(isOk(result) && result.value.elements).toEqual([
+			['node', 7, 56.9, 24.1, { amenity: 'toilets' }],
+		]);
+	});
+
+	it('should reject unusable exports', () => {
+		expect(isErr(buildSnapshot('not json', 'json'))).toBe(true);
+		expect(isErr(buildSnapshot('{"remark":"runtime error"}', 'json'))).toBe(true);
+	});
+});
+
+describe('compactElements', () => {
+	it('should round coordinates and drop outlines', () => {
+		const snapshot = compactElements(
+			[
+				{
+					type: 'way',
+					id: 1,
+					lat: 56.123456789,
+					lon: 24.987654321,
+					tags: { amenity: 'toilets' },
+					outline: [[{ lat: 56, lon: 24 }]],
+				},
+			],
+			null
+		);
+
+		expect(expandSnapshot(snapshot)).toEqual([
+			{ type: 'way', id: 1, lat: 56.1234568, lon: 24.9876543, tags: { amenity: 'toilets' } },
+		]);
+	});
+});
+
+describe('createBundledSource', () => {
+	it('should serve snapshot elements in bounds, dated by the export', async () => {
+		const built = buildSnapshot(XML_EXPORT, 'xml');
+		if (!isOk(built)) throw new Error('build failed');
+		const source = createBundledSource(built.value);
+
+		const result = await source.queryBounds(
+			[
+				{ key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' },
+				{ key: 'toilet', oql: 'node["amenity"="toilets"]([bbox]);' },
+			],
+			{ south: 56.94, west: 24.1, north: 56.955, east: 24.11 }
+		);
+		if (!isOk(result)) throw new Error('query failed');
+
+		expect(result.value.elementsByKey.get('water')?.map((e) => e.id)).toEqual([1]);
+		expect(result.value.elementsByKey.get('toilet')).toEqual([]);
+		expect(result.value.cachedAt).toBe(Date.parse('2025-09-07T13:55:45Z'));
+	});
+});
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for grid-cached facility fetching
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FACILITY_CACHE_TTL, FACILITY_GRID_ZOOM, OFFLINE_CACHE } from '../../../../src/core/config';
+import {
+	fetchFacilitiesCachedInBBox,
+	fetchLayersCachedInBBox,
+	mergeElements,
+} from '../../../../src/features/data/cachedFetch';
+import type { CellStore } from '../../../../src/features/data/cellCache';
+import { createMemoryCellStore } from '../../../../src/features/data/cellCache';
+import { resetEndpointHealth } from '../../../../src/features/data/endpoints';
+import { cellBounds, cellForPoint, cellKey } from '../../../../src/features/data/grid';
+import type { Element } from '../../../../src/types/overpass';
+import { isErr, isOk } from '../../../../src/types/result';
+import { createMockFetchResponse } from '../../../helpers';
+
+const WATER_QUERY = 'node["amenity"="drinking_water"]([bbox]);';
+const TOILET_QUERY = 'node["amenity"="toilets"]([bbox]);';
+
+const node = (id: number, lat: number, lon: number, amenity = 'drinking_water'): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+	tags: { amenity },
+});
+
+const overpassResponse = (elements: Element[]) =>
+	createMockFetchResponse(
+		JSON.stringify({
+			version: 0.6,
+			generator: 'test',
+			osm3s: { timestamp_osm_base: '2025-01-01T00:00:00Z', copyright: 'test' },
+			elements,
+		})
+	);
+
+// A box strictly inside a single grid cell
+const cell = cellForPoint(56.9496, 24.1052, FACILITY_GRID_ZOOM);
+const cellBox = cellBounds(cell);
+const bbox = {
+	south: cellBox.south + 0.001,
+	west: cellBox.west + 0.001,
+	north: cellBox.north - 0.001,
+	east: cellBox.east - 0.001,
+};
+
+describe('fetchFacilitiesCachedInBBox', () => {
+	const fetchMock = vi.fn();
+	let store: CellStore;
+
+	beforeEach(() => {
+		resetEndpointHealth();
+		store = createMemoryCellStore();
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		fetchMock.mockReset();
+	});
+
+	it('should fetch missing cells and serve them from cache afterwards', async () => {
+		fetchMock.mockResolvedValueOnce(overpassResponse([node(1, 56.9496, 24.1052)]));
+
+		const first = await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 0 });
+		const second = await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 1 });
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(isOk(first) && first.value.fetchedCells).toBe(1);
+		expect(isOk(second) && second.value.endpoint).toBeNull();
+		expect(isOk(second) && second.value.elements.map((e) => e.id)).toEqual([1]);
+	});
+
+	it('should refetch cells older than the TTL', async () => {
+		fetchMock
+			.mockResolvedValueOnce(overpassResponse([node(1, 56.9496, 24.1052)]))
+			.mockResolvedValueOnce(overpassResponse([node(2, 56.9496, 24.1052)]));
+
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 0 });
+		const result = await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, {
+			store,
+			now: FACILITY_CACHE_TTL + 1,
+		});
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(isOk(result) && result.value.elements.map((e) => e.id)).toEqual([2]);
+	});
+
+	it('should keep the pin of offline area cells when they are refetched', async () => {
+		fetchMock
+			.mockResolvedValueOnce(overpassResponse([node(1, 56.9496, 24.1052)]))
+			.mockResolvedValueOnce(overpassResponse([node(2, 56.9496, 24.1052)]));
+
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 0 });
+		await store.setPinned([{ queryKey: 'water', cellKey: cellKey(cell) }], true);
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, {
+			store,
+			now: FACILITY_CACHE_TTL + 1,
+		});
+
+		const cached = (await store.get('water', [cellKey(cell)])).get(cellKey(cell));
+		expect(cached?.pinned).toBe(true);
+		expect(cached?.elements.map((e) => e.id)).toEqual([2]);
+	});
+
+	it('should keep query types in separate cache namespaces', async () => {
+		fetchMock
+			.mockResolvedValueOnce(overpassResponse([node(1, 56.9496, 24.1052)]))
+			.mockResolvedValueOnce(overpassResponse([]));
+
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 0 });
+		const toilets = await fetchFacilitiesCachedInBBox('toilet', TOILET_QUERY, bbox, {
+			store,
+			now: 0,
+		});
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(isOk(toilets) && toilets.value.elements).toEqual([]);
+	});
+
+	it('should only query the area of missing cells', async () => {
+		fetchMock
+			.mockResolvedValueOnce(overpassResponse([]))
+			.mockResolvedValueOnce(overpassResponse([]));
+
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 0 });
+
+		const east = cellBounds({ ...cell, x: cell.x + 1 });
+		const wider = { ...bbox, east: east.east - 0.001 };
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, wider, { store, now: 0 });
+
+		const body = decodeURIComponent(String(fetchMock.mock.calls[1]?.[1]?.body));
+		expect(body).toContain(`${east.south},${east.west},${east.north},${east.east}`);
+	});
+
+	it('should serve expired cells when the network is down', async () => {
+		fetchMock
+			.mockResolvedValueOnce(overpassResponse([node(1, 56.9496, 24.1052)]))
+			.mockRejectedValue(new TypeError('Failed to fetch'));
+
+		await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 1000 });
+		const result = await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, {
+			store,
+			now: FACILITY_CACHE_TTL + 2000,
+		});
+
+		expect(isOk(result) && result.value.elements.map((e) => e.id)).toEqual([1]);
+		expect(isOk(result) && result.value.cachedAt).toBe(1000);
+	});
+
+	it('should keep the original age of responses served from the offline cache', async () => {
+		fetchMock.mockResolvedValueOnce({
+			...overpassResponse([node(1, 56.9496, 24.1052)]),
+			headers: new Headers({ [OFFLINE_CACHE.cachedAtHeader]: '500' }),
+		});
+
+		const first = await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, {
+			store,
+			now: 1000,
+		});
+		const cached = await store.get('water', [cellKey(cell)]);
+
+		expect(isOk(first) && first.value.cachedAt).toBe(500);
+		expect(cached.get(cellKey(cell))?.fetchedAt).toBe(500);
+	});
+
+	it('should propagate fetch errors', async () => {
+		fetchMock.mockResolvedValue(createMockFetchResponse('', { ok: false, status: 400 }));
+
+		const result = await fetchFacilitiesCachedInBBox('water', WATER_QUERY, bbox, { store, now: 0 });
+
+		expect(isErr(result)).toBe(true);
+	});
+});
+
+describe('fetchLayersCachedInBBox', () => {
+	const fetchMock = vi.fn();
+	const layers = [
+		{ key: 'water', oql: WATER_QUERY },
+		{ key: 'toilet', oql: TOILET_QUERY },
+	];
+	let store: CellStore;
+
+	beforeEach(() => {
+		resetEndpointHealth();
+		store = createMemoryCellStore();
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		fetchMock.mockReset();
+	});
+
+	it('should load all layers with one combined request and split by tags', async () => {
+		fetchMock.mockResolvedValueOnce(
+			overpassResponse([
+				node(1, 56.9496, 24.1052),
+				node(2, 56.9496, 24.1052, 'toilets'),
+				{ type: 'node', id: 3, lat: 56.9496, lon: 24.1052, tags: {} } as unknown as Element,
+			])
+		);
+
+		const result = await fetchLayersCachedInBBox(layers, bbox, { store, now: 0 });
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const body = decodeURIComponent(String(fetchMock.mock.calls[0]?.[1]?.body));
+		expect(body).toContain('"amenity"="drinking_water"');
+		expect(body).toContain('"amenity"="toilets"');
+		expect(isOk(result)).toBe(true);
+		if (isOk(result)) {
+			expect(result.value.elementsByKey.get('water')?.map((e) => e.id)).toEqual([1]);
+			expect(result.value.elementsByKey.get('toilet')?.map((e) => e.id)).toEqual([2]);
+		}
+	});
+
+	it('should only query layers whose cells are missing', async () => {
+		fetchMock
+			.mockResolvedValueOnce(overpassResponse([node(1, 56.9496, 24.1052)]))
+			.mockResolvedValueOnce(overpassResponse([node(2, 56.9496, 24.1052, 'toilets')]));
+
+		await fetchLayersCachedInBBox([{ key: 'water', oql: WATER_QUERY }], bbox, { store, now: 0 });
+		const result = await fetchLayersCachedInBBox(layers, bbox, { store, now: 0 });
+
+		const body = decodeURIComponent(String(fetchMock.mock.calls[1]?.[1]?.body));
+		expect(body).not.toContain('drinking_water');
+		expect(isOk(result) && result.value.elementsByKey.get('water')?.map((e) => e.id)).toEqual([1]);
+		expect(isOk(result) && result.value.elementsByKey.get('toilet')?.map((e) => e.id)).toEqual([2]);
+	});
+});
+
+describe('mergeElements', () => {
+	it('should drop duplicate elements by type and id', () => {
+		const merged = mergeElements([
+			[node(1, 0, 0), node(2, 0, 0)],
+			[node(2, 0, 0), node(3, 0, 0)],
+		]);
+
+		expect(merged.map((e) => e.id)).toEqual([1, 2, 3]);
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for facility counts per grid cell
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FACILITY_GRID_ZOOM, OVERVIEW } from '../../../../src/core/config';
+import type { CellStore } from '../../../../src/features/data/cellCache';
+import { createMemoryCellStore } from '../../../../src/features/data/cellCache';
+import {
+	composeCountQuery,
+	countCells,
+	decodeCountResponse,
+} from '../../../../src/features/data/cellCounts';
+import { resetEndpointHealth } from '../../../../src/features/data/endpoints';
+import { cellBounds, cellForPoint, cellKey } from '../../../../src/features/data/grid';
+import type { Element } from '../../../../src/types/overpass';
+import { isErr, isOk } from '../../../../src/types/result';
+import { createMockFetchResponse } from '../../../helpers';
+
+const WATER = { key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' };
+const TOILET = { key: 'toilet', oql: 'node["amenity"="toilets"]([bbox]);' };
+
+const countResponse = (totals: number[]) =>
+	createMockFetchResponse(
+		JSON.stringify({
+			elements: totals.map((total) => ({
+				type: 'count',
+				id: 0,
+				tags: { nodes: String(total), ways: '0', relations: '0', total: String(total) },
+			})),
+		})
+	);
+
+const node = (id: number, lat: number, lon: number): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+	tags: { amenity: 'drinking_water' },
+});
+
+// One overview cell at the deepest overview zoom
+const mapZoom = OVERVIEW.maxZoom;
+const overviewCell = cellForPoint(56.9496, 24.1052, mapZoom + OVERVIEW.cellZoomOffset);
+const overviewBox = cellBounds(overviewCell);
+const insideBox = {
+	south: overviewBox.south + 0.001,
+	west: overviewBox.west + 0.001,
+	north: overviewBox.north - 0.001,
+	east: overviewBox.east - 0.001,
+};
+
+describe('composeCountQuery', () => {
+	it('should count each target in its own cell', () => {
+		const query = composeCountQuery([
+			{ cell: overviewCell, query: WATER },
+			{ cell: overviewCell, query: TOILET },
+		]);
+		const bbox = `${overviewBox.south},${overviewBox.west},${overviewBox.north},${overviewBox.east}`;
+
+		expect(query).toContain(`[timeout:${OVERVIEW.queryTimeout}]`);
+		expect(query.match(/out count;/g)).toHaveLength(2);
+		expect(query).toContain(`node["amenity"="toilets"](${bbox});`);
+		expect(query).not.toContain('[bbox]');
+	});
+});
+
+describe('decodeCountResponse', () => {
+	it('should read totals in order', () => {
+		const text = JSON.stringify({
+			elements: [
+				{ type: 'count', id: 0, tags: { total: '4' } },
+				{ type: 'count', id: 0, tags: { total: '0' } },
+			],
+		});
+		const result = decodeCountResponse(text, 2);
+
+		expect(isOk(result) && result.value).toEqual([4, 0]);
+	});
+
+	it('should reject missing counts and invalid JSON', () => {
+		expect(isErr(decodeCountResponse(JSON.stringify({ elements: [] }), 1))).toBe(true);
+		expect(isErr(decodeCountResponse('<html>busy</html>', 1))).toBe(true);
+	});
+});
+
+describe('countCells', () => {
+	const fetchMock = vi.fn();
+	let store: CellStore;
+
+	beforeEach(() => {
+		resetEndpointHealth();
+		store = createMemoryCellStore();
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		fetchMock.mockReset();
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	it('should count every target in one Overpass query', async () => {
+		fetchMock.mockResolvedValue(countResponse([7, 2]));
+
+		const result = await countCells(
+			[
+				{ cell: overviewCell, query: WATER },
+				{ cell: overviewCell, query: TOILET },
+			],
+			{ store }
+		);
+
+		expect(isOk(result) && result.value).toEqual([7, 2]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should count from the cell cache when every covered cell is stored', async () => {
+		const size = 2 ** (FACILITY_GRID_ZOOM - overviewCell.z);
+		const cells = [];
+		for (let y = overviewCell.y * size; y < (overviewCell.y + 1) * size; y++) {
+			for (let x = overviewCell.x * size; x < (overviewCell.x + 1) * size; x++) {
+				cells.push({ x, y, z: FACILITY_GRID_ZOOM });
+			}
+		}
+		const inside = node(1, insideBox.south + 0.001, insideBox.west + 0.001);
+		await store.put(
+			cells.map((cell, i) => ({
+				queryKey: 'water',
+				cellKey: cellKey(cell),
+				// The same element stored in two neighbouring cells is counted once
+				elements: i < 2 ? [inside] : [],
+				fetchedAt: 0,
+			}))
+		);
+		fetchMock.mockResolvedValue(countResponse([3]));
+
+		const result = await countCells(
+			[
+				{ cell: overviewCell, query: WATER },
+				{ cell: overviewCell, query: TOILET },
+			],
+			{ store }
+		);
+
+		expect(isOk(result) && result.value).toEqual([1, 3]);
+		// Only the uncached layer was counted by Overpass
+		const body = decodeURIComponent(String(fetchMock.mock.calls[0]?.[1]?.body));
+		expect(body).not.toContain('drinking_water');
+	});
+
+	it('should count from Overpass when the cache lookups exceed the budget', async () => {
+		fetchMock.mockResolvedValue(countResponse([0]));
+		const outerCell = cellForPoint(56.9496, 24.1052, mapZoom - 3);
+
+		await countCells([{ cell: outerCell, query: WATER }], { store });
+
+		expect(4 ** (FACILITY_GRID_ZOOM - outerCell.z)).toBeGreaterThan(OVERVIEW.cacheMaxKeys);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should give count queries the server timeout without failing over', async () => {
+		vi.useFakeTimers();
+		fetchMock.mockImplementation(
+			(_url: string, init: RequestInit) =>
+				new Promise((_resolve, reject) => {
+					init.signal?.addEventListener('abort', () =>
+						reject(new DOMException('Aborted', 'AbortError'))
+					);
+				})
+		);
+
+		const pending = countCells([{ cell: overviewCell, query: WATER }], { store });
+		await vi.advanceTimersByTimeAsync(OVERVIEW.queryTimeout * 1000 - 1);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+		const result = await pending;
+
+		expect(isErr(result) && result.error.type).toBe('timeout');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should return fetch errors', async () => {
+		fetchMock.mockResolvedValue(createMockFetchResponse('', { ok: false, status: 400 }));
+
+		const result = await countCells([{ cell: overviewCell, query: WATER }], { store });
+
+		expect(isErr(result)).toBe(true);
+	});
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the Overpass response decoder
+ */
+
+import { describe, expect, it } from 'vitest';
+import { decodeOverpass, summarizeWarnings } from '../../../../src/features/data/decoder';
+import { isErr, isOk } from '../../../../src/types/result';
+
+const payload = (elements: unknown[]) => ({
+	version: 0.6,
+	generator: 'test',
+	osm3s: { timestamp_osm_base: '2025-01-01T00:00:00Z', copyright: 'test' },
+	elements,
+});
+
+const decodeElements = (elements: unknown[]) => {
+	const result = decodeOverpass(payload(elements));
+	if (!isOk(result)) throw new Error('expected payload to decode');
+	return result.value;
+};
+
+describe('decodeOverpass', () => {
+	it('should reject payloads that are not objects', () => {
+		const result = decodeOverpass('<html>busy</html>');
+
+		expect(isErr(result) && result.error.type).toBe('invalid_format');
+	});
+
+	it('should reject payloads without an elements array and keep the remark', () => {
+		const result = decodeOverpass({ remark: 'runtime error: Query timed out' });
+
+		expect(isErr(result) && result.error).toEqual({
+			type: 'missing_required_field',
+			field: 'elements',
+			message: 'Overpass response has no elements: runtime error: Query timed out',
+		});
+	});
+
+	it('should pass well-formed elements through without warnings', () => {
+		const decoded = decodeElements([
+			{ type: 'node', id: 1, lat: 56.9, lon: 24.1, tags: { amenity: 'drinking_water' } },
+			{ type: 'way', id: 2, nodes: [1], center: { lat: 56.9, lon: 24.1 } },
+			{ type: 'relation', id: 3, members: [{ type: 'way', ref: 2, role: 'outer' }] },
+		]);
+
+		expect(decoded.elements.map((e) => `${e.type}/${e.id}`)).toEqual([
+			'node/1',
+			'way/2',
+			'relation/3',
+		]);
+		expect(decoded.warnings).toEqual([]);
+	});
+
+	it('should drop elements with unknown type, missing id or invalid position', () => {
+		const decoded = decodeElements([
+			null,
+			{ type: 'area', id: 1 },
+			{ type: 'node', lat: 56.9, lon: 24.1 },
+			{ type: 'node', id: 2, lat: 156.9, lon: 24.1 },
+			{ type: 'node', id: 3, lat: Number.NaN, lon: 24.1 },
+		]);
+
+		expect(decoded.elements).toEqual([]);
+		expect(decoded.warnings.map((w) => w.error.type)).toEqual([
+			'invalid_format',
+			'missing_required_field',
+			'missing_required_field',
+			'invalid_coordinates',
+			'invalid_coordinates',
+		]);
+		expect(decoded.warnings.every((w) => w.action === 'dropped')).toBe(true);
+	});
+
+	it('should repair numeric strings and non-string tag values', () => {
+		const decoded = decodeElements([
+			{
+				type: 'node',
+				id: '4',
+				lat: '56.9',
+				lon: 24.1,
+				tags: { amenity: 'toilets', level: 0, x: {} },
+			},
+		]);
+
+		expect(decoded.elements).toEqual([
+			{ type: 'node', id: 4, lat: 56.9, lon: 24.1, tags: { amenity: 'toilets', level: '0' } },
+		]);
+		expect(decoded.warnings.map((w) => [w.action, w.element])).toEqual([
+			['repaired', 'node/4'],
+			['repaired', 'node/4'],
+		]);
+	});
+
+	it('should ignore an invalid centre and bad references of ways and relations', () => {
+		const decoded = decodeElements([
+			{ type: 'way', id: 5, nodes: [1, 'x', 2], center: { lat: 'north' } },
+			{ type: 'relation', id: 6, members: [{ type: 'way', ref: 5 }, { ref: 'bad' }] },
+		]);
+
+		expect(decoded.elements).toEqual([
+			{ type: 'way', id: 5, nodes: [1, 2] },
+			{ type: 'relation', id: 6, members: [{ type: 'way', ref: 5, role: '' }] },
+		]);
+		expect(decoded.warnings).toHaveLength(3);
+	});
+});
+
+describe('summarizeWarnings', () => {
+	it('should count warnings per action and error type', () => {
+		const { warnings } = decodeElements([
+			{ type: 'node', id: 1, lat: 200, lon: 0 },
+			{ type: 'node', id: 2, lat: '1', lon: 0 },
+		]);
+
+		expect(summarizeWarnings(warnings)).toEqual({
+			dropped: 1,
+			repaired: 1,
+			byType: { invalid_coordinates: 2 },
+		});
+	});
+});
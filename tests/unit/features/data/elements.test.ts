@@ -0,0 +1,119 @@
+/**
+ * Unit tests for Overpass element normalisation
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	normalizeElements,
+	osmElementUrl,
+	outlineCenter,
+} from '../../../../src/features/data/elements';
+import type { RawElement } from '../../../../src/types/overpass';
+
+const skeleton = (id: number, lat: number, lon: number): RawElement => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+});
+
+// Square toilet building: nodes 1-4, closed way 10
+const square: RawElement[] = [
+	skeleton(1, 56.0, 24.0),
+	skeleton(2, 56.0, 24.002),
+	skeleton(3, 56.002, 24.002),
+	skeleton(4, 56.002, 24.0),
+];
+
+describe('normalizeElements', () => {
+	it('should keep tagged nodes and drop tagless skeleton nodes', () => {
+		const elements = normalizeElements([
+			{ type: 'node', id: 1, lat: 56.9, lon: 24.1, tags: { amenity: 'drinking_water' } },
+			skeleton(2, 56.9, 24.1),
+		]);
+
+		expect(elements).toEqual([
+			{ type: 'node', id: 1, lat: 56.9, lon: 24.1, tags: { amenity: 'drinking_water' } },
+		]);
+	});
+
+	it('should place ways at their Overpass centre with a resolved outline', () => {
+		const elements = normalizeElements([
+			{
+				type: 'way',
+				id: 10,
+				nodes: [1, 2, 3, 4, 1],
+				center: { lat: 56.001, lon: 24.001 },
+				tags: { amenity: 'toilets' },
+			},
+			...square,
+		]);
+
+		expect(elements).toHaveLength(1);
+		expect(elements[0]).toMatchObject({ type: 'way', id: 10, lat: 56.001, lon: 24.001 });
+		expect(elements[0]?.outline?.[0]).toHaveLength(5);
+	});
+
+	it('should compute the centre when Overpass returned none', () => {
+		const [way] = normalizeElements([
+			{ type: 'way', id: 10, nodes: [1, 2, 3, 4, 1], tags: { amenity: 'toilets' } },
+			...square,
+		]);
+
+		expect(way?.lat).toBeCloseTo(56.001);
+		expect(way?.lon).toBeCloseTo(24.001);
+	});
+
+	it('should build relation outlines from outer member ways only', () => {
+		const [relation] = normalizeElements([
+			{
+				type: 'relation',
+				id: 20,
+				members: [
+					{ type: 'way', ref: 10, role: 'outer' },
+					{ type: 'way', ref: 11, role: 'inner' },
+					{ type: 'node', ref: 1, role: '' },
+				],
+				center: { lat: 56.001, lon: 24.001 },
+				tags: { amenity: 'toilets' },
+			},
+			{ type: 'way', id: 10, nodes: [1, 2, 3, 4, 1] },
+			{ type: 'way', id: 11, nodes: [1, 3] },
+			...square,
+		]);
+
+		expect(relation).toMatchObject({ type: 'relation', id: 20 });
+		expect(relation?.outline).toHaveLength(1);
+	});
+
+	it('should drop areas without a centre or resolvable geometry', () => {
+		const elements = normalizeElements([
+			{ type: 'way', id: 10, nodes: [99, 98], tags: { amenity: 'toilets' } },
+		]);
+
+		expect(elements).toEqual([]);
+	});
+});
+
+describe('outlineCenter', () => {
+	it('should return the centre of the rings bounding box', () => {
+		expect(
+			outlineCenter([
+				[
+					{ lat: 0, lon: 0 },
+					{ lat: 2, lon: 4 },
+				],
+			])
+		).toEqual({ lat: 1, lon: 2 });
+	});
+
+	it('should return null for empty rings', () => {
+		expect(outlineCenter([])).toBeNull();
+	});
+});
+
+describe('osmElementUrl', () => {
+	it('should use the element type in the path', () => {
+		expect(osmElementUrl({ type: 'way', id: 5 })).toBe('https://www.openstreetmap.org/way/5');
+	});
+});
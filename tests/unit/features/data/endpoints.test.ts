@@ -0,0 +1,81 @@
+/**
+ * Unit tests for Overpass endpoint health tracking
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { OVERPASS_ENDPOINT_HEALTH } from '../../../../src/core/config';
+import {
+	getEndpointHealth,
+	getEndpointOrder,
+	isEndpointDemoted,
+	markEndpointFailure,
+	markEndpointSuccess,
+	resetEndpointHealth,
+} from '../../../../src/features/data/endpoints';
+
+const ENDPOINTS = ['https://a.example/api', 'https://b.example/api', 'https://c.example/api'];
+
+describe('endpoint health', () => {
+	beforeEach(() => {
+		resetEndpointHealth();
+	});
+
+	it('should keep configured order when all endpoints are healthy', () => {
+		expect(getEndpointOrder(ENDPOINTS, 1000)).toEqual(ENDPOINTS);
+	});
+
+	it('should move a failed endpoint to the end', () => {
+		markEndpointFailure('https://a.example/api', 'HTTP 504', 1000);
+
+		expect(getEndpointOrder(ENDPOINTS, 1000)).toEqual([
+			'https://b.example/api',
+			'https://c.example/api',
+			'https://a.example/api',
+		]);
+	});
+
+	it('should order demoted endpoints by recovery time', () => {
+		markEndpointFailure('https://a.example/api', 'timeout', 1000);
+		markEndpointFailure('https://a.example/api', 'timeout', 1000);
+		markEndpointFailure('https://b.example/api', 'timeout', 1000);
+
+		expect(getEndpointOrder(ENDPOINTS, 1000)).toEqual([
+			'https://c.example/api',
+			'https://b.example/api',
+			'https://a.example/api',
+		]);
+	});
+
+	it('should double the cooldown per consecutive failure up to the maximum', () => {
+		const first = markEndpointFailure('https://a.example/api', 'timeout', 0);
+		const second = markEndpointFailure('https://a.example/api', 'timeout', 0);
+
+		expect(first.demotedUntil).toBe(OVERPASS_ENDPOINT_HEALTH.baseCooldownMs);
+		expect(second.demotedUntil).toBe(OVERPASS_ENDPOINT_HEALTH.baseCooldownMs * 2);
+
+		for (let i = 0; i < 20; i++) {
+			markEndpointFailure('https://a.example/api', 'timeout', 0);
+		}
+		expect(getEndpointHealth('https://a.example/api').demotedUntil).toBe(
+			OVERPASS_ENDPOINT_HEALTH.maxCooldownMs
+		);
+	});
+
+	it('should restore an endpoint after its cooldown expires', () => {
+		markEndpointFailure('https://a.example/api', 'timeout', 0);
+
+		expect(isEndpointDemoted('https://a.example/api', 1)).toBe(true);
+		expect(
+			isEndpointDemoted('https://a.example/api', OVERPASS_ENDPOINT_HEALTH.baseCooldownMs)
+		).toBe(false);
+	});
+
+	it('should clear the failure record on success', () => {
+		markEndpointFailure('https://a.example/api', 'timeout', 0);
+		markEndpointSuccess('https://a.example/api');
+
+		const health = getEndpointHealth('https://a.example/api');
+		expect(health.consecutiveFailures).toBe(0);
+		expect(health.lastFailureReason).toBeNull();
+	});
+});
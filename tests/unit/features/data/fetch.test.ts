@@ -0,0 +1,166 @@
+/**
+ * Unit tests for Overpass fetching with mirror failover
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEndpointOrder, resetEndpointHealth } from '../../../../src/features/data/endpoints';
+import { fetchFacilities } from '../../../../src/features/data/fetch';
+import { isErr, isOk } from '../../../../src/types/result';
+import { createMockFetchResponse } from '../../../helpers';
+
+const ENDPOINTS = ['https://a.example/api', 'https://b.example/api'];
+
+const overpassBody = JSON.stringify({
+	version: 0.6,
+	generator: 'test',
+	osm3s: { timestamp_osm_base: '2025-01-01T00:00:00Z', copyright: 'test' },
+	elements: [{ type: 'node', id: 1, lat: 56.95, lon: 24.1, tags: { amenity: 'drinking_water' } }],
+});
+
+describe('fetchFacilities', () => {
+	const fetchMock = vi.fn();
+
+	beforeEach(() => {
+		resetEndpointHealth();
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		fetchMock.mockReset();
+	});
+
+	it('should return elements and the serving endpoint', async () => {
+		fetchMock.mockResolvedValueOnce(createMockFetchResponse(overpassBody));
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(isOk(result)).toBe(true);
+		if (isOk(result)) {
+			expect(result.value.elements).toHaveLength(1);
+			expect(result.value.endpoint).toBe('https://a.example/api');
+		}
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should fail over to the next mirror on overload status', async () => {
+		fetchMock
+			.mockResolvedValueOnce(createMockFetchResponse('', { ok: false, status: 504 }))
+			.mockResolvedValueOnce(createMockFetchResponse(overpassBody));
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(isOk(result) && result.value.endpoint).toBe('https://b.example/api');
+		expect(fetchMock.mock.calls.map((call) => call[0])).toEqual(ENDPOINTS);
+	});
+
+	it('should fail over on network error and demote the failed endpoint', async () => {
+		fetchMock
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockResolvedValueOnce(createMockFetchResponse(overpassBody));
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(isOk(result)).toBe(true);
+		expect(getEndpointOrder(ENDPOINTS)).toEqual(['https://b.example/api', 'https://a.example/api']);
+	});
+
+	it('should not fail over on client errors', async () => {
+		fetchMock.mockResolvedValueOnce(createMockFetchResponse('', { ok: false, status: 400 }));
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(isErr(result)).toBe(true);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(getEndpointOrder(ENDPOINTS)).toEqual(ENDPOINTS);
+	});
+
+	it('should return the last error when every endpoint fails', async () => {
+		fetchMock
+			.mockResolvedValueOnce(createMockFetchResponse('', { ok: false, status: 502 }))
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(isErr(result)).toBe(true);
+		if (isErr(result)) {
+			expect(result.error).toEqual({ type: 'network', message: 'Failed to fetch' });
+		}
+	});
+
+	it('should fail over when a mirror returns a malformed payload', async () => {
+		fetchMock
+			.mockResolvedValueOnce(createMockFetchResponse(JSON.stringify({ remark: 'runtime error' })))
+			.mockResolvedValueOnce(createMockFetchResponse('{}'));
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(isErr(result) && result.error).toMatchObject({
+			type: 'parse',
+			cause: { type: 'missing_required_field', field: 'elements' },
+		});
+	});
+
+	it('should report rate limiting with the shortest Retry-After once every mirror is busy', async () => {
+		fetchMock
+			.mockResolvedValueOnce(
+				createMockFetchResponse('', {
+					ok: false,
+					status: 429,
+					headers: new Headers({ 'Retry-After': '30' }),
+				})
+			)
+			.mockResolvedValueOnce(
+				createMockFetchResponse('', {
+					ok: false,
+					status: 504,
+					headers: new Headers({ 'Retry-After': '12' }),
+				})
+			);
+
+		const result = await fetchFacilities('query', { endpoints: ENDPOINTS });
+
+		expect(isErr(result) && result.error).toEqual({
+			type: 'rate_limited',
+			message: 'All Overpass servers are busy',
+			retryAfterMs: 12000,
+		});
+	});
+
+	it('should ask the status page when to retry without Retry-After', async () => {
+		fetchMock
+			.mockResolvedValueOnce(createMockFetchResponse('', { ok: false, status: 429 }))
+			.mockResolvedValueOnce(
+				createMockFetchResponse(
+					'Rate limit: 2\nSlot available after: 2025-01-01T10:00:08Z, in 8 seconds.'
+				)
+			);
+
+		const result = await fetchFacilities('query', {
+			endpoints: ['https://a.example/api/interpreter'],
+		});
+
+		expect(fetchMock.mock.calls[1]?.[0]).toBe('https://a.example/api/status');
+		expect(isErr(result) && result.error.type === 'rate_limited' && result.error.retryAfterMs).toBe(
+			8000
+		);
+	});
+
+	it('should stop without failover when cancelled by the caller', async () => {
+		const controller = new AbortController();
+		fetchMock.mockImplementationOnce(() => {
+			controller.abort();
+			return Promise.reject(new DOMException('Aborted', 'AbortError'));
+		});
+
+		const result = await fetchFacilities('query', {
+			endpoints: ENDPOINTS,
+			signal: controller.signal,
+		});
+
+		expect(isErr(result) && result.error.type).toBe('aborted');
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(getEndpointOrder(ENDPOINTS)).toEqual(ENDPOINTS);
+	});
+});
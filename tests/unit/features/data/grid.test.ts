@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the fixed tile grid
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	cellBounds,
+	cellForPoint,
+	cellKey,
+	cellsForBounds,
+	countCellsForBounds,
+	enclosingBounds,
+	enclosingCells,
+} from '../../../../src/features/data/grid';
+
+describe('grid', () => {
+	it('should compute the standard slippy tile for a point', () => {
+		// Riga old town at zoom 14
+		expect(cellForPoint(56.9496, 24.1052, 14)).toEqual({ x: 9289, y: 5023, z: 14 });
+	});
+
+	it('should produce cell bounds containing the cell point', () => {
+		const cell = cellForPoint(56.9496, 24.1052, 14);
+		const bounds = cellBounds(cell);
+
+		expect(bounds.south).toBeLessThan(56.9496);
+		expect(bounds.north).toBeGreaterThan(56.9496);
+		expect(bounds.west).toBeLessThan(24.1052);
+		expect(bounds.east).toBeGreaterThan(24.1052);
+	});
+
+	it('should format cell keys as z/x/y', () => {
+		expect(cellKey({ x: 1, y: 2, z: 3 })).toBe('3/1/2');
+	});
+
+	it('should list all cells covering a bounding box', () => {
+		const bbox = { south: 56.94, west: 24.09, north: 56.96, east: 24.12 };
+		const cells = cellsForBounds(bbox, 14);
+
+		expect(cells.length).toBe(countCellsForBounds(bbox, 14));
+		expect(cells.length).toBeGreaterThan(1);
+		for (const cell of cells) {
+			const b = cellBounds(cell);
+			expect(b.north).toBeGreaterThan(bbox.south);
+			expect(b.south).toBeLessThan(bbox.north);
+			expect(b.east).toBeGreaterThan(bbox.west);
+			expect(b.west).toBeLessThan(bbox.east);
+		}
+	});
+
+	it('should return a single cell for a box inside one cell', () => {
+		const cell = cellForPoint(56.9496, 24.1052, 14);
+		const b = cellBounds(cell);
+		const inner = {
+			south: b.south + 0.001,
+			west: b.west + 0.001,
+			north: b.north - 0.001,
+			east: b.east - 0.001,
+		};
+
+		expect(cellsForBounds(inner, 14)).toEqual([cell]);
+	});
+
+	it('should enclose a set of cells', () => {
+		const cells = [
+			{ x: 10, y: 10, z: 14 },
+			{ x: 12, y: 11, z: 14 },
+		];
+		const enclosing = enclosingBounds(cells);
+
+		expect(enclosing).toEqual({
+			south: cellBounds({ x: 12, y: 11, z: 14 }).south,
+			west: cellBounds({ x: 10, y: 10, z: 14 }).west,
+			north: cellBounds({ x: 10, y: 10, z: 14 }).north,
+			east: cellBounds({ x: 12, y: 11, z: 14 }).east,
+		});
+		expect(enclosingBounds([])).toBeNull();
+	});
+
+	it('should fill the rectangle spanned by a set of cells', () => {
+		const cells = enclosingCells([
+			{ x: 10, y: 10, z: 14 },
+			{ x: 11, y: 11, z: 14 },
+		]);
+
+		expect(cells).toEqual([
+			{ x: 10, y: 10, z: 14 },
+			{ x: 11, y: 10, z: 14 },
+			{ x: 10, y: 11, z: 14 },
+			{ x: 11, y: 11, z: 14 },
+		]);
+		expect(enclosingCells([])).toEqual([]);
+	});
+});
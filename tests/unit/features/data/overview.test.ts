@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the low-zoom facility overview
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { OVERVIEW } from '../../../../src/core/config';
+import { cellBounds, cellForPoint } from '../../../../src/features/data/grid';
+import { createOverviewLoader, overviewCellZoom } from '../../../../src/features/data/overview';
+import type { FacilityDataSource } from '../../../../src/features/data/sources/types';
+import type { Element } from '../../../../src/types/overpass';
+import { Err, isErr, isOk, Ok } from '../../../../src/types/result';
+
+const WATER = { key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' };
+const TOILET = { key: 'toilet', oql: 'node["amenity"="toilets"]([bbox]);' };
+
+const node = (id: number, lat: number, lon: number): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+	tags: { amenity: 'drinking_water' },
+});
+
+// One overview cell at the deepest overview zoom
+const mapZoom = OVERVIEW.maxZoom;
+const overviewCell = cellForPoint(56.9496, 24.1052, mapZoom + OVERVIEW.cellZoomOffset);
+const overviewBox = cellBounds(overviewCell);
+const insideBox = {
+	south: overviewBox.south + 0.001,
+	west: overviewBox.west + 0.001,
+	north: overviewBox.north - 0.001,
+	east: overviewBox.east - 0.001,
+};
+
+describe('overviewCellZoom', () => {
+	it('should use cells one level finer than the map', () => {
+		expect(overviewCellZoom(insideBox, 10)).toBe(10 + OVERVIEW.cellZoomOffset);
+	});
+
+	it('should use coarser cells for large viewports', () => {
+		const latvia = { south: 55.6, west: 20.9, north: 58.1, east: 28.3 };
+		const zoom = overviewCellZoom(latvia, 10);
+
+		expect(zoom).toBeLessThan(10 + OVERVIEW.cellZoomOffset);
+		expect(zoom).toBeGreaterThan(0);
+	});
+});
+
+describe('createOverviewLoader', () => {
+	it('should count through the source and remember the counts', async () => {
+		const countCells = vi
+			.fn<NonNullable<FacilityDataSource['countCells']>>()
+			.mockResolvedValue(Ok([7, 2]));
+		const loader = createOverviewLoader({
+			source: { name: 'counting', queryBounds: vi.fn(), countCells },
+		});
+
+		const result = await loader.load([WATER, TOILET], insideBox, mapZoom);
+
+		expect(isOk(result) && result.value).toEqual([
+			{ cell: overviewCell, bbox: overviewBox, counts: { water: 7, toilet: 2 } },
+		]);
+		expect(countCells).toHaveBeenCalledWith(
+			[
+				{ cell: overviewCell, query: WATER },
+				{ cell: overviewCell, query: TOILET },
+			],
+			{}
+		);
+
+		await loader.load([WATER, TOILET], insideBox, mapZoom);
+		expect(countCells).toHaveBeenCalledTimes(1);
+	});
+
+	it('should count the elements of sources that cannot count', async () => {
+		const queryBounds = vi.fn<FacilityDataSource['queryBounds']>().mockResolvedValue(
+			Ok({
+				elementsByKey: new Map([
+					[
+						'water',
+						[
+							node(1, insideBox.south, insideBox.west),
+							node(2, insideBox.north, insideBox.east),
+							// Returned with a neighbouring cell, outside this one
+							node(3, overviewBox.north + 0.01, insideBox.east),
+						],
+					],
+				]),
+				endpoint: null,
+				cachedAt: null,
+			})
+		);
+
+		const result = await createOverviewLoader({ source: { name: 'file', queryBounds } }).load(
+			[WATER, TOILET],
+			insideBox,
+			mapZoom
+		);
+
+		expect(isOk(result) && result.value[0]?.counts).toEqual({ water: 2, toilet: 0 });
+		expect(queryBounds).toHaveBeenCalledTimes(1);
+		expect(queryBounds).toHaveBeenCalledWith([WATER, TOILET], overviewBox, {});
+	});
+
+	it('should return source errors', async () => {
+		const result = await createOverviewLoader({
+			source: {
+				name: 'failing',
+				queryBounds: async () => Err({ type: 'network', message: 'offline' }),
+			},
+		}).load([WATER], insideBox, mapZoom);
+
+		expect(isErr(result) && result.error.type).toBe('network');
+	});
+});
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the facility processing pipeline
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+	decodeResponse,
+	handlePipelineRequest,
+	rankFacilities,
+	withNearest,
+} from '../../../../src/features/data/pipeline';
+import type { Element } from '../../../../src/types/overpass';
+import { isErr, isOk } from '../../../../src/types/result';
+
+const node = (id: number, lat: number, lon: number): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+	tags: { amenity: 'drinking_water' },
+});
+
+describe('decodeResponse', () => {
+	it('should parse, decode and normalise a response', () => {
+		const result = decodeResponse(
+			JSON.stringify({
+				elements: [
+					{ type: 'node', id: 1, lat: 56.95, lon: 24.1, tags: { amenity: 'drinking_water' } },
+					{ type: 'node', id: 2, lat: '56.96', lon: 24.1, tags: { amenity: 'drinking_water' } },
+					{ type: 'node', id: 3, lat: 56.97, lon: 24.1 },
+				],
+			})
+		);
+		if (!isOk(result)) throw new Error('decode failed');
+
+		// The tagless node is geometry only and dropped by normalisation
+		expect(result.value.elements.map((e) => e.id)).toEqual([1, 2]);
+		expect(result.value.summary.repaired).toBe(1);
+	});
+
+	it('should reject responses that are not JSON', () => {
+		const result = decodeResponse('<html>Too many requests</html>');
+
+		expect(isErr(result) && result.error.type).toBe('invalid_format');
+	});
+});
+
+describe('rankFacilities', () => {
+	const reference = { lat: 56.95, lon: 24.1 };
+
+	it('should sort by distance and flag the nearest', () => {
+		const ranked = rankFacilities(
+			[node(1, 56.97, 24.1), node(2, 56.951, 24.1), node(3, 56.96, 24.1)],
+			reference
+		);
+
+		expect(ranked.elements.map((e) => e.id)).toEqual([2, 3, 1]);
+		expect(ranked.elements.map((e) => e.isNearest)).toEqual([true, false, false]);
+		expect(ranked.nearest?.id).toBe(2);
+		expect(ranked.elements[0]?.distanceFromUser).toBeCloseTo(111, 0);
+	});
+
+	it('should not flag a facility likely off for winter as nearest', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 0, 15));
+		const winterised = {
+			...node(1, 56.951, 24.1),
+			tags: { amenity: 'drinking_water', seasonal: 'yes' },
+		};
+		const ranked = rankFacilities([node(2, 56.96, 24.1), winterised], reference);
+
+		expect(ranked.elements.map((e) => e.id)).toEqual([2, 1]);
+		expect(ranked.nearest?.id).toBe(2);
+		vi.useRealTimers();
+	});
+
+	it('should leave elements unranked without a reference point', () => {
+		const elements = [node(1, 56.97, 24.1), node(2, 56.951, 24.1)];
+		const ranked = rankFacilities(elements, null);
+
+		expect(ranked.elements).toEqual(elements);
+		expect(ranked.nearest).toBeNull();
+	});
+
+	it('should handle an empty list', () => {
+		expect(rankFacilities([], reference)).toEqual({ elements: [], nearest: null });
+	});
+});
+
+describe('handlePipelineRequest', () => {
+	it('should answer with the request id and type', () => {
+		expect(handlePipelineRequest({ id: 7, type: 'rank', elements: [], reference: null })).toEqual({
+			id: 7,
+			type: 'rank',
+			result: { elements: [], nearest: null },
+		});
+		expect(handlePipelineRequest({ id: 8, type: 'decode', text: '{}' })).toMatchObject({
+			id: 8,
+			type: 'decode',
+			result: { kind: 'error' },
+		});
+	});
+});
+
+describe('withNearest', () => {
+	it('should move an already ranked facility to the front', () => {
+		const ranked = rankFacilities([node(1, 56.95, 24.1), node(2, 56.96, 24.1)], {
+			lat: 56.95,
+			lon: 24.1,
+		});
+		const result = withNearest(ranked, node(2, 56.96, 24.1), 5);
+
+		expect(result.elements.map((element) => element.id)).toEqual([2, 1]);
+		expect(result.elements.map((element) => element.isNearest)).toEqual([true, false]);
+		expect(result.nearest?.distanceFromUser).toBe(5);
+	});
+
+	it('should add a nearest facility from outside the ranked list', () => {
+		const ranked = rankFacilities([node(1, 56.95, 24.1)], { lat: 56.95, lon: 24.1 });
+		const result = withNearest(ranked, node(9, 56.9, 24.1), 1);
+
+		expect(result.elements).toHaveLength(2);
+		expect(result.nearest?.id).toBe(9);
+	});
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for the facility pipeline client
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { PipelineRequest } from '../../../../src/features/data/pipeline';
+import { handlePipelineRequest } from '../../../../src/features/data/pipeline';
+import { createPipeline } from '../../../../src/features/data/pipelineClient';
+import { isOk } from '../../../../src/types/result';
+
+const elements = [
+	{ type: 'node' as const, id: 1, lat: 56.97, lon: 24.1, tags: {} },
+	{ type: 'node' as const, id: 2, lat: 56.951, lon: 24.1, tags: {} },
+];
+const reference = { lat: 56.95, lon: 24.1 };
+
+/**
+ * Worker stand-in answering asynchronously like a real worker, unless it is broken
+ */
+function createFakeWorker(options: { broken?: boolean } = {}) {
+	const worker = {
+		onmessage: null as ((event: MessageEvent) => void) | null,
+		onerror: null as ((event: ErrorEvent) => void) | null,
+		postMessage: vi.fn((request: PipelineRequest) => {
+			setTimeout(() => {
+				if (options.broken) {
+					worker.onerror?.({ message: 'boom', preventDefault: vi.fn() } as ErrorEvent);
+				} else {
+					worker.onmessage?.({ data: handlePipelineRequest(request) } as MessageEvent);
+				}
+			}, 0);
+		}),
+		terminate: vi.fn(),
+	};
+	return worker;
+}
+
+describe('createPipeline', () => {
+	it('should process requests in the worker', async () => {
+		const worker = createFakeWorker();
+		const pipeline = createPipeline(() => worker as unknown as Worker);
+
+		const [ranked, decoded] = await Promise.all([
+			pipeline.rank(elements, reference),
+			pipeline.decode('{"elements":[]}'),
+		]);
+
+		expect(worker.postMessage).toHaveBeenCalledTimes(2);
+		expect(ranked.nearest?.id).toBe(2);
+		expect(isOk(decoded) && decoded.value.elements).toEqual([]);
+	});
+
+	it('should run on the main thread when workers are unavailable', async () => {
+		const pipeline = createPipeline(() => null);
+
+		const ranked = await pipeline.rank(elements, reference);
+
+		expect(ranked.elements.map((e) => e.id)).toEqual([2, 1]);
+	});
+
+	it('should run on the main thread when the worker cannot start', async () => {
+		const pipeline = createPipeline(() => {
+			throw new Error('blocked by CSP');
+		});
+
+		const ranked = await pipeline.rank(elements, reference);
+
+		expect(ranked.nearest?.id).toBe(2);
+	});
+
+	it('should finish pending requests on the main thread when the worker fails', async () => {
+		const worker = createFakeWorker({ broken: true });
+		const pipeline = createPipeline(() => worker as unknown as Worker);
+
+		const ranked = await pipeline.rank(elements, reference);
+		const again = await pipeline.rank(elements, reference);
+
+		expect(ranked.nearest?.id).toBe(2);
+		expect(again.nearest?.id).toBe(2);
+		expect(worker.terminate).toHaveBeenCalled();
+		expect(worker.postMessage).toHaveBeenCalledTimes(1);
+	});
+});
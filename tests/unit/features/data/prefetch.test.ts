@@ -0,0 +1,172 @@
+/**
+ * Unit tests for predictive prefetching
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { FACILITY_GRID_ZOOM, PREFETCH } from '../../../../src/core/config';
+import type { GridCell } from '../../../../src/features/data/grid';
+import { cellBounds, cellForPoint } from '../../../../src/features/data/grid';
+import type { PrefetchTask } from '../../../../src/features/data/prefetch';
+import { cellsAhead, createPrefetcher } from '../../../../src/features/data/prefetch';
+
+// A viewport inside a single grid cell
+const cell = cellForPoint(56.9496, 24.1052, FACILITY_GRID_ZOOM);
+const box = cellBounds(cell);
+const viewport = {
+	south: box.south + 0.001,
+	west: box.west + 0.001,
+	north: box.north - 0.001,
+	east: box.east - 0.001,
+};
+
+const EAST = { dx: 1, dy: 0, speed: 500 };
+const FAST_EAST = { dx: 1, dy: 0, speed: PREFETCH.fastSpeed };
+
+/**
+ * Idle scheduler run by hand
+ */
+function manualIdle() {
+	let pending: (() => void)[] = [];
+	return {
+		requestIdle: (callback: () => void) => {
+			pending.push(callback);
+			return () => {
+				pending = pending.filter((entry) => entry !== callback);
+			};
+		},
+		flush: () => {
+			const callbacks = pending;
+			pending = [];
+			for (const callback of callbacks) callback();
+		},
+		size: () => pending.length,
+	};
+}
+
+describe('cellsAhead', () => {
+	it('should pick the neighbouring cells in the pan direction, straight ahead first', () => {
+		const cells = cellsAhead(viewport, EAST);
+
+		expect(cells[0]).toEqual({ x: cell.x + 1, y: cell.y, z: FACILITY_GRID_ZOOM });
+		expect(cells).toHaveLength(3);
+		expect(cells.every((ahead) => ahead.x === cell.x + 1)).toBe(true);
+	});
+
+	it('should follow diagonal pans', () => {
+		const cells = cellsAhead(viewport, { dx: Math.SQRT1_2, dy: Math.SQRT1_2, speed: 500 });
+
+		expect(cells[0]).toEqual({ x: cell.x + 1, y: cell.y + 1, z: FACILITY_GRID_ZOOM });
+		expect(cells.some((ahead) => ahead.x < cell.x || ahead.y < cell.y)).toBe(false);
+	});
+
+	it('should look further ahead for fast pans', () => {
+		const cells = cellsAhead(viewport, FAST_EAST, 20);
+
+		expect(cells.some((ahead) => ahead.x === cell.x + 2)).toBe(true);
+		// The nearer ring comes first
+		expect(cells[0]?.x).toBe(cell.x + 1);
+	});
+
+	it('should not prefetch for slow pans', () => {
+		expect(cellsAhead(viewport, { dx: 1, dy: 0, speed: PREFETCH.minSpeed - 1 })).toEqual([]);
+	});
+});
+
+describe('createPrefetcher', () => {
+	it('should prefetch at idle time, once per scheduled pan', async () => {
+		const idle = manualIdle();
+		const prefetch = vi.fn<PrefetchTask>().mockResolvedValue(true);
+		const prefetcher = createPrefetcher({ prefetch, requestIdle: idle.requestIdle });
+
+		prefetcher.schedule(viewport, EAST);
+		prefetcher.schedule(viewport, EAST);
+		expect(prefetch).not.toHaveBeenCalled();
+
+		idle.flush();
+		await vi.waitFor(() => expect(prefetch).toHaveBeenCalledTimes(1));
+		expect(prefetch.mock.calls[0]?.[0]).toEqual(cellsAhead(viewport, EAST));
+	});
+
+	it('should skip cells prefetched before and retry failed ones', async () => {
+		const idle = manualIdle();
+		const prefetch = vi.fn<PrefetchTask>().mockResolvedValueOnce(false).mockResolvedValue(true);
+		const prefetcher = createPrefetcher({ prefetch, requestIdle: idle.requestIdle });
+
+		for (let i = 0; i < 3; i++) {
+			prefetcher.schedule(viewport, EAST);
+			idle.flush();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+
+		// Failed, retried, then nothing left to prefetch
+		expect(prefetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should postpone prefetching while the app is busy', async () => {
+		const idle = manualIdle();
+		const prefetch = vi.fn<PrefetchTask>().mockResolvedValue(true);
+		let busy = true;
+		const prefetcher = createPrefetcher({
+			prefetch,
+			requestIdle: idle.requestIdle,
+			isIdle: () => !busy,
+		});
+
+		prefetcher.schedule(viewport, EAST);
+		idle.flush();
+		expect(prefetch).not.toHaveBeenCalled();
+		expect(idle.size()).toBe(1);
+
+		busy = false;
+		idle.flush();
+		expect(prefetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('should stay within the request budget', async () => {
+		const idle = manualIdle();
+		let time = 0;
+		const prefetch = vi.fn<PrefetchTask>().mockResolvedValue(true);
+		const prefetcher = createPrefetcher({
+			prefetch,
+			requestIdle: idle.requestIdle,
+			now: () => time,
+		});
+
+		// Pan east across new cells each time
+		const panFrom = (offset: number) => {
+			const from: GridCell = { ...cell, x: cell.x + offset * 4 };
+			const bbox = cellBounds(from);
+			return { ...bbox, west: bbox.west + 0.001, east: bbox.east - 0.001 };
+		};
+
+		for (let i = 0; i <= PREFETCH.maxRequests; i++) {
+			prefetcher.schedule(panFrom(i), EAST);
+			idle.flush();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+		expect(prefetch).toHaveBeenCalledTimes(PREFETCH.maxRequests);
+
+		time += PREFETCH.windowMs;
+		prefetcher.schedule(panFrom(PREFETCH.maxRequests + 1), EAST);
+		idle.flush();
+		expect(prefetch).toHaveBeenCalledTimes(PREFETCH.maxRequests + 1);
+	});
+
+	it('should abort the running prefetch on cancel', () => {
+		const idle = manualIdle();
+		let signal: AbortSignal | undefined;
+		const prefetch = vi.fn<PrefetchTask>((_cells, taskSignal) => {
+			signal = taskSignal;
+			return new Promise<boolean>(() => {
+				// Never settles
+			});
+		});
+		const prefetcher = createPrefetcher({ prefetch, requestIdle: idle.requestIdle });
+
+		prefetcher.schedule(viewport, EAST);
+		idle.flush();
+		prefetcher.cancel();
+
+		expect(signal?.aborted).toBe(true);
+	});
+});
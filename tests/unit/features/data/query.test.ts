@@ -0,0 +1,95 @@
+/**
+ * Unit tests for Overpass query composition
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	composeLayerQuery,
+	elementMatchesFilters,
+	extractQueryParts,
+	extractTagFilters,
+	splitElementsByQuery,
+} from '../../../../src/features/data/query';
+import drinkingWater from '../../../../src/oql/drinking_water.overpassql?raw';
+import publicToilets from '../../../../src/oql/public_toilets.overpassql?raw';
+import type { Element } from '../../../../src/types/overpass';
+
+const element = (id: number, tags: Record<string, string>): Element =>
+	({ type: 'node', id, lat: 56.95, lon: 24.1, tags }) as unknown as Element;
+
+describe('extractQueryParts', () => {
+	it('should extract union statements from the layer queries', () => {
+		const parts = extractQueryParts(publicToilets);
+
+		expect(parts.length).toBeGreaterThan(0);
+		expect(parts).toContain('node["amenity"="toilets"]([bbox]);');
+		expect(parts.every((part) => !part.startsWith('//'))).toBe(true);
+	});
+});
+
+describe('composeLayerQuery', () => {
+	it('should union statements of all layers into one query', () => {
+		const query = composeLayerQuery([
+			{ key: 'water', oql: drinkingWater },
+			{ key: 'toilet', oql: publicToilets },
+		]);
+
+		expect(query.startsWith('[out:json]')).toBe(true);
+		for (const part of [...extractQueryParts(drinkingWater), ...extractQueryParts(publicToilets)]) {
+			expect(query).toContain(part);
+		}
+	});
+
+	it('should not repeat identical statements', () => {
+		const query = composeLayerQuery([
+			{ key: 'a', oql: publicToilets },
+			{ key: 'b', oql: publicToilets },
+		]);
+
+		expect(query.split('node["amenity"="toilets"]').length).toBe(2);
+	});
+});
+
+describe('extractTagFilters', () => {
+	it('should parse key/value and key-only conditions', () => {
+		expect(extractTagFilters('node["amenity"="toilets"]["fee"]([bbox]);')).toEqual([
+			[
+				{ key: 'amenity', value: 'toilets' },
+				{ key: 'fee', value: null },
+			],
+		]);
+	});
+});
+
+describe('splitElementsByQuery', () => {
+	const queries = [
+		{ key: 'water', oql: drinkingWater },
+		{ key: 'toilet', oql: publicToilets },
+	];
+
+	it('should assign elements to layers by their tags', () => {
+		const split = splitElementsByQuery(
+			[
+				element(1, { amenity: 'drinking_water' }),
+				element(2, { natural: 'spring' }),
+				element(3, { amenity: 'toilets' }),
+			],
+			queries
+		);
+
+		expect(split.get('water')?.map((e) => e.id)).toEqual([1, 2]);
+		expect(split.get('toilet')?.map((e) => e.id)).toEqual([3]);
+	});
+
+	it('should drop tagless skeleton nodes', () => {
+		const skeleton = { type: 'node', id: 9, lat: 56.95, lon: 24.1 } as unknown as Element;
+		const split = splitElementsByQuery([skeleton], queries);
+
+		expect(split.get('water')).toEqual([]);
+		expect(split.get('toilet')).toEqual([]);
+	});
+
+	it('should match every element when a query has no statements', () => {
+		expect(elementMatchesFilters(element(1, {}), [])).toBe(true);
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for Overpass rate-limit handling
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OVERPASS_RETRY } from '../../../../src/core/config';
+import {
+	backoffDelay,
+	createRetryScheduler,
+	parseRetryAfter,
+	parseSlotStatus,
+	retryDelay,
+	statusUrl,
+} from '../../../../src/features/data/rateLimit';
+
+describe('parseRetryAfter', () => {
+	it('should parse delays in seconds', () => {
+		expect(parseRetryAfter('15')).toBe(15000);
+	});
+
+	it('should parse HTTP dates relative to now', () => {
+		const now = Date.parse('2025-01-01T10:00:00Z');
+		expect(parseRetryAfter('Wed, 01 Jan 2025 10:00:20 GMT', now)).toBe(20000);
+	});
+
+	it('should return null for missing or invalid values', () => {
+		expect(parseRetryAfter(null)).toBeNull();
+		expect(parseRetryAfter('soon')).toBeNull();
+	});
+});
+
+describe('parseSlotStatus', () => {
+	it('should report no wait when slots are available', () => {
+		expect(parseSlotStatus('Rate limit: 2\n2 slots available now.\n')).toBe(0);
+	});
+
+	it('should report the earliest slot', () => {
+		const text = [
+			'Rate limit: 2',
+			'Slot available after: 2025-01-01T10:00:40Z, in 40 seconds.',
+			'Slot available after: 2025-01-01T10:00:12Z, in 12 seconds.',
+		].join('\n');
+
+		expect(parseSlotStatus(text)).toBe(12000);
+	});
+
+	it('should return null without slot information', () => {
+		expect(parseSlotStatus('<html>Not found</html>')).toBeNull();
+	});
+});
+
+describe('statusUrl', () => {
+	it('should derive the status page from the interpreter URL', () => {
+		expect(statusUrl('https://overpass-api.de/api/interpreter')).toBe(
+			'https://overpass-api.de/api/status'
+		);
+		expect(statusUrl('https://example.com/overpass')).toBeNull();
+	});
+});
+
+describe('backoffDelay', () => {
+	it('should grow exponentially with jitter between half and full delay', () => {
+		expect(backoffDelay(0, () => 0)).toBe(OVERPASS_RETRY.baseDelayMs / 2);
+		expect(backoffDelay(0, () => 0.999)).toBeLessThanOrEqual(OVERPASS_RETRY.baseDelayMs);
+		expect(backoffDelay(2, () => 0)).toBe(OVERPASS_RETRY.baseDelayMs * 2);
+	});
+
+	it('should cap the delay', () => {
+		expect(backoffDelay(20, () => 0.999)).toBeLessThanOrEqual(OVERPASS_RETRY.maxDelayMs);
+	});
+
+	it('should never retry before the server hint', () => {
+		expect(retryDelay(0, 60000, () => 0)).toBe(60000);
+	});
+});
+
+describe('createRetryScheduler', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should run the task after the delay', () => {
+		const scheduler = createRetryScheduler(() => 0);
+		const task = vi.fn();
+
+		const retry = scheduler.schedule(null, task);
+		expect(retry?.attempt).toBe(0);
+		expect(scheduler.isPending()).toBe(true);
+
+		vi.advanceTimersByTime(retry?.delayMs ?? 0);
+		expect(task).toHaveBeenCalledTimes(1);
+		expect(scheduler.isPending()).toBe(false);
+	});
+
+	it('should not run a cancelled task', () => {
+		const scheduler = createRetryScheduler(() => 0);
+		const task = vi.fn();
+
+		scheduler.schedule(null, task);
+		scheduler.cancel();
+		vi.runAllTimers();
+
+		expect(task).not.toHaveBeenCalled();
+	});
+
+	it('should give up after the maximum attempts until reset', () => {
+		const scheduler = createRetryScheduler(() => 0);
+		for (let i = 0; i < OVERPASS_RETRY.maxAttempts; i++) {
+			expect(scheduler.schedule(null, vi.fn())).not.toBeNull();
+		}
+
+		expect(scheduler.schedule(null, vi.fn())).toBeNull();
+		scheduler.reset();
+		expect(scheduler.schedule(null, vi.fn())?.attempt).toBe(0);
+	});
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the facility request manager
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createRequestManager } from '../../../../src/features/data/requests';
+
+/**
+ * Create a task whose completion is controlled by the test
+ */
+function deferredTask<T>() {
+	let resolve: (value: T) => void = () => undefined;
+	let signal: AbortSignal | null = null;
+	const task = vi.fn((s: AbortSignal) => {
+		signal = s;
+		return new Promise<T>((r) => {
+			resolve = r;
+		});
+	});
+	return { task, resolve: (value: T) => resolve(value), signal: () => signal };
+}
+
+describe('createRequestManager', () => {
+	it('should complete a single request', async () => {
+		const manager = createRequestManager<string>();
+
+		const outcome = await manager.run('water', 'a', async () => 'done');
+
+		expect(outcome).toEqual({ kind: 'completed', value: 'done' });
+	});
+
+	it('should abort and discard an older request on the same channel', async () => {
+		const manager = createRequestManager<string>();
+		const first = deferredTask<string>();
+		const second = deferredTask<string>();
+
+		const firstOutcome = manager.run('water', 'a', first.task);
+		const secondOutcome = manager.run('water', 'b', second.task);
+
+		expect(first.signal()?.aborted).toBe(true);
+
+		second.resolve('new');
+		first.resolve('old');
+
+		expect(await firstOutcome).toEqual({ kind: 'superseded' });
+		expect(await secondOutcome).toEqual({ kind: 'completed', value: 'new' });
+	});
+
+	it('should not affect requests on other channels', async () => {
+		const manager = createRequestManager<string>();
+		const water = deferredTask<string>();
+		const toilets = deferredTask<string>();
+
+		const waterOutcome = manager.run('water', 'a', water.task);
+		const toiletOutcome = manager.run('toilet', 'a', toilets.task);
+
+		water.resolve('w');
+		toilets.resolve('t');
+
+		expect(await waterOutcome).toEqual({ kind: 'completed', value: 'w' });
+		expect(await toiletOutcome).toEqual({ kind: 'completed', value: 't' });
+	});
+
+	it('should share identical in-flight requests', async () => {
+		const manager = createRequestManager<string>();
+		const deferred = deferredTask<string>();
+
+		const first = manager.run('water', 'a', deferred.task);
+		const second = manager.run('water', 'a', deferred.task);
+		deferred.resolve('shared');
+
+		expect(deferred.task).toHaveBeenCalledTimes(1);
+		expect(await first).toEqual({ kind: 'completed', value: 'shared' });
+		expect(await second).toEqual({ kind: 'completed', value: 'shared' });
+	});
+
+	it('should report superseded after an explicit abort', async () => {
+		const manager = createRequestManager<string>();
+		const deferred = deferredTask<string>();
+
+		const outcome = manager.run('toilet', 'a', deferred.task);
+		manager.abort('toilet');
+		deferred.resolve('late');
+
+		expect(await outcome).toEqual({ kind: 'superseded' });
+		expect(manager.isBusy()).toBe(false);
+	});
+
+	it('should notify activity changes once per busy period', async () => {
+		const onActivityChange = vi.fn();
+		const manager = createRequestManager<string>({ onActivityChange });
+		const water = deferredTask<string>();
+		const toilets = deferredTask<string>();
+
+		const a = manager.run('water', 'a', water.task);
+		const b = manager.run('toilet', 'a', toilets.task);
+		water.resolve('w');
+		await a;
+		expect(onActivityChange.mock.calls).toEqual([[true]]);
+
+		toilets.resolve('t');
+		await b;
+		expect(onActivityChange.mock.calls).toEqual([[true], [false]]);
+	});
+
+	it('should propagate task errors and release the channel', async () => {
+		const manager = createRequestManager<string>();
+
+		await expect(
+			manager.run('water', 'a', async () => {
+				throw new Error('boom');
+			})
+		).rejects.toThrow('boom');
+		expect(manager.isBusy()).toBe(false);
+	});
+});
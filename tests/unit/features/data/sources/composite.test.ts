@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the composite data source
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createCompositeSource } from '../../../../../src/features/data/sources/composite';
+import { countSourceCells } from '../../../../../src/features/data/sources/counts';
+import type {
+	FacilityDataSource,
+	SourceResult,
+} from '../../../../../src/features/data/sources/types';
+import type { FetchError } from '../../../../../src/types/errors';
+import type { Element } from '../../../../../src/types/overpass';
+import { Err, isErr, isOk, Ok } from '../../../../../src/types/result';
+
+const WATER = { key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' };
+const QUERIES = [WATER];
+const bbox = { south: 56.9, west: 24.0, north: 57.0, east: 24.2 };
+
+const node = (id: number, name: string): Element => ({
+	type: 'node',
+	id,
+	lat: 56.95,
+	lon: 24.1,
+	tags: { amenity: 'drinking_water', name },
+});
+
+const okSource = (name: string, result: Partial<SourceResult> & { water: Element[] }) =>
+	({
+		name,
+		queryBounds: async () =>
+			Ok({
+				elementsByKey: new Map([['water', result.water]]),
+				endpoint: result.endpoint ?? null,
+				cachedAt: result.cachedAt ?? null,
+			}),
+	}) satisfies FacilityDataSource;
+
+const failingSource = (error: FetchError): FacilityDataSource => ({
+	name: 'failing',
+	queryBounds: async () => Err(error),
+});
+
+describe('createCompositeSource', () => {
+	it('should merge elements with earlier sources winning on duplicates', async () => {
+		const source = createCompositeSource([
+			okSource('curated', { water: [node(1, 'Curated')] }),
+			okSource('overpass', { water: [node(1, 'OSM'), node(2, 'OSM')], endpoint: 'https://x' }),
+		]);
+
+		const result = await source.queryBounds(QUERIES, bbox);
+		if (!isOk(result)) throw new Error('query failed');
+
+		expect(result.value.elementsByKey.get('water')?.map((e) => e.tags.name)).toEqual([
+			'Curated',
+			'OSM',
+		]);
+		expect(result.value.endpoint).toBe('https://x');
+	});
+
+	it('should date the result by its oldest cached part', async () => {
+		const source = createCompositeSource([
+			okSource('live', { water: [] }),
+			okSource('old', { water: [], cachedAt: 500 }),
+			okSource('older', { water: [], cachedAt: 100 }),
+		]);
+
+		const result = await source.queryBounds(QUERIES, bbox);
+
+		expect(isOk(result) && result.value.cachedAt).toBe(100);
+	});
+
+	it('should skip failed sources while one succeeds', async () => {
+		const source = createCompositeSource([
+			failingSource({ type: 'network', message: 'offline' }),
+			okSource('snapshot', { water: [node(1, 'Stored')] }),
+		]);
+
+		const result = await source.queryBounds(QUERIES, bbox);
+
+		expect(isOk(result) && result.value.elementsByKey.get('water')).toHaveLength(1);
+	});
+
+	it('should fail when every source fails', async () => {
+		const source = createCompositeSource([
+			failingSource({ type: 'timeout', message: 'slow' }),
+			failingSource({ type: 'network', message: 'offline' }),
+		]);
+
+		const result = await source.queryBounds(QUERIES, bbox);
+
+		expect(isErr(result) && result.error.type).toBe('timeout');
+	});
+
+	it('should report cancellation even when another source succeeded', async () => {
+		const source = createCompositeSource([
+			okSource('snapshot', { water: [] }),
+			failingSource({ type: 'aborted', message: 'cancelled' }),
+		]);
+
+		const result = await source.queryBounds(QUERIES, bbox);
+
+		expect(isErr(result) && result.error.type).toBe('aborted');
+	});
+
+	it('should count with the largest count of any source', async () => {
+		const targets = [
+			{ cell: { x: 0, y: 0, z: 10 }, query: WATER },
+			{ cell: { x: 1, y: 0, z: 10 }, query: WATER },
+		];
+		const counting = (name: string, counts: number[]): FacilityDataSource => ({
+			...failingSource({ type: 'network', message: 'not listed' }),
+			name,
+			countCells: async () => Ok(counts),
+		});
+		const source = createCompositeSource([
+			failingSource({ type: 'network', message: 'offline' }),
+			counting('osm', [3, 1]),
+			counting('curated', [2, 4]),
+		]);
+
+		const result = await countSourceCells(source, targets);
+
+		expect(isOk(result) && result.value).toEqual([3, 4]);
+	});
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the GeoJSON data source
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	createGeoJsonSource,
+	decodeGeoJson,
+} from '../../../../../src/features/data/sources/geojson';
+import { isErr, isOk } from '../../../../../src/types/result';
+import { createMockFetchResponse } from '../../../../helpers';
+
+const QUERIES = [
+	{ key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' },
+	{ key: 'toilet', oql: 'node["amenity"="toilets"]([bbox]);' },
+];
+
+const collection = {
+	type: 'FeatureCollection',
+	features: [
+		{
+			type: 'Feature',
+			id: 'node/1',
+			properties: { amenity: 'drinking_water', bottle: 'yes', '@timestamp': 'x' },
+			geometry: { type: 'Point', coordinates: [24.1052, 56.9496] },
+		},
+		{
+			type: 'Feature',
+			properties: { '@id': 'way/2', amenity: 'toilets', level: 0 },
+			geometry: {
+				type: 'Polygon',
+				coordinates: [
+					[
+						[24.1, 56.9],
+						[24.2, 56.9],
+						[24.2, 57.0],
+						[24.1, 56.9],
+					],
+				],
+			},
+		},
+		{
+			type: 'Feature',
+			id: 3,
+			properties: { amenity: 'drinking_water' },
+			geometry: { type: 'Point', coordinates: [10, 50] },
+		},
+	],
+};
+
+const bbox = { south: 56.8, west: 24.0, north: 57.1, east: 24.3 };
+
+describe('decodeGeoJson', () => {
+	it('should decode points and areas with their OSM identity', () => {
+		const result = decodeGeoJson(collection);
+		if (!isOk(result)) throw new Error('decode failed');
+
+		expect(result.value.map((e) => `${e.type}/${e.id}`)).toEqual(['node/1', 'way/2', 'node/3']);
+		expect(result.value[0]).toMatchObject({ lat: 56.9496, lon: 24.1052 });
+		expect(result.value[0]?.tags).toEqual({ amenity: 'drinking_water', bottle: 'yes' });
+		expect(result.value[1]).toMatchObject({ lat: 56.95, tags: { level: '0' } });
+		expect(result.value[1]?.outline?.[0]).toHaveLength(4);
+	});
+
+	it('should drop features without an id or with invalid geometry', () => {
+		const result = decodeGeoJson({
+			type: 'FeatureCollection',
+			features: [
+				{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [24, 56] } },
+				{ type: 'Feature', id: 'node/5', geometry: { type: 'Point', coordinates: [24, 95] } },
+				{ type: 'Feature', id: 'node/6', geometry: null },
+			],
+		});
+
+		expect(isOk(result) && result.value).toEqual([]);
+	});
+
+	it('should reject payloads that are not a FeatureCollection', () => {
+		expect(isErr(decodeGeoJson({ type: 'Feature' }))).toBe(true);
+		expect(isErr(decodeGeoJson({ type: 'FeatureCollection' }))).toBe(true);
+	});
+});
+
+describe('createGeoJsonSource', () => {
+	const fetchMock = vi.fn();
+
+	beforeEach(() => {
+		vi.stubGlobal('fetch', fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		fetchMock.mockReset();
+	});
+
+	it('should filter by bounds and split by layer tags', async () => {
+		fetchMock.mockResolvedValueOnce(createMockFetchResponse(JSON.stringify(collection)));
+		const source = createGeoJsonSource({ url: '/facilities.geojson' });
+
+		const result = await source.queryBounds(QUERIES, bbox);
+		if (!isOk(result)) throw new Error('query failed');
+
+		expect(result.value.elementsByKey.get('water')?.map((e) => e.id)).toEqual([1]);
+		expect(result.value.elementsByKey.get('toilet')?.map((e) => e.id)).toEqual([2]);
+		expect(result.value.endpoint).toBe('/facilities.geojson');
+	});
+
+	it('should download the file only once', async () => {
+		fetchMock.mockResolvedValueOnce(createMockFetchResponse(JSON.stringify(collection)));
+		const source = createGeoJsonSource({ url: '/facilities.geojson' });
+
+		await source.queryBounds(QUERIES, bbox);
+		await source.queryBounds(QUERIES, { south: 49, west: 9, north: 51, east: 11 });
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should retry a failed download on the next query', async () => {
+		fetchMock
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockResolvedValueOnce(createMockFetchResponse(JSON.stringify(collection)));
+		const source = createGeoJsonSource({ url: '/facilities.geojson' });
+
+		const first = await source.queryBounds(QUERIES, bbox);
+		const second = await source.queryBounds(QUERIES, bbox);
+
+		expect(isErr(first) && first.error.type).toBe('network');
+		expect(isOk(second)).toBe(true);
+	});
+});
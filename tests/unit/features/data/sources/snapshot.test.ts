@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the snapshot data source
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FACILITY_GRID_ZOOM } from '../../../../../src/core/config';
+import { createMemoryCellStore } from '../../../../../src/features/data/cellCache';
+import { cellBounds, cellForPoint, cellKey } from '../../../../../src/features/data/grid';
+import { createSnapshotSource } from '../../../../../src/features/data/sources/snapshot';
+import { isOk } from '../../../../../src/types/result';
+
+const QUERIES = [
+	{ key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' },
+	{ key: 'toilet', oql: 'node["amenity"="toilets"]([bbox]);' },
+];
+
+const cell = cellForPoint(56.9496, 24.1052, FACILITY_GRID_ZOOM);
+const bbox = cellBounds(cell);
+
+describe('createSnapshotSource', () => {
+	it('should serve stored cells regardless of age', async () => {
+		const store = createMemoryCellStore();
+		await store.put([
+			{
+				queryKey: 'water',
+				cellKey: cellKey(cell),
+				elements: [
+					{ type: 'node', id: 1, lat: 56.9496, lon: 24.1052, tags: { amenity: 'drinking_water' } },
+				],
+				fetchedAt: 1000,
+			},
+		]);
+
+		const result = await createSnapshotSource({ store }).queryBounds(QUERIES, bbox);
+		if (!isOk(result)) throw new Error('query failed');
+
+		expect(result.value.elementsByKey.get('water')?.map((e) => e.id)).toEqual([1]);
+		expect(result.value.elementsByKey.get('toilet')).toEqual([]);
+		expect(result.value.cachedAt).toBe(1000);
+		expect(result.value.endpoint).toBeNull();
+	});
+
+	it('should return empty layers when nothing is stored', async () => {
+		const result = await createSnapshotSource({ store: createMemoryCellStore() }).queryBounds(
+			QUERIES,
+			bbox
+		);
+
+		expect(isOk(result) && result.value.cachedAt).toBeNull();
+		expect(isOk(result) && result.value.elementsByKey.get('water')).toEqual([]);
+	});
+});
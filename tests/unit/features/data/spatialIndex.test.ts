@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the facility spatial index
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSpatialIndex } from '../../../../src/features/data/spatialIndex';
+import type { Element, LatLon } from '../../../../src/types/overpass';
+import { elementKey } from '../../../../src/types/overpass';
+import { haversineDistance } from '../../../../src/utils/geometry';
+
+const node = (
+	id: number,
+	lat: number,
+	lon: number,
+	tags: Record<string, string> = {}
+): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+	tags,
+});
+
+const createIndex = () =>
+	createSpatialIndex<Element>({ getKey: elementKey, getPosition: (element) => element });
+
+/**
+ * Deterministic pseudo-random points around Riga
+ */
+function scatter(count: number): Element[] {
+	let seed = 42;
+	const random = (): number => {
+		seed = (seed * 16807) % 2147483647;
+		return seed / 2147483647;
+	};
+	return Array.from({ length: count }, (_, i) =>
+		node(i + 1, 56.85 + random() * 0.2, 23.95 + random() * 0.35)
+	);
+}
+
+const bruteForce = (elements: readonly Element[], point: LatLon): number[] =>
+	elements
+		.map((element) => ({
+			id: element.id,
+			distance: haversineDistance(point.lat, point.lon, element.lat, element.lon),
+		}))
+		.sort((a, b) => a.distance - b.distance)
+		.map((entry) => entry.id);
+
+describe('createSpatialIndex', () => {
+	const elements = scatter(500);
+	const index = createIndex();
+	index.insert(elements);
+
+	it('should count inserted items', () => {
+		expect(index.size()).toBe(500);
+	});
+
+	it('should return the k nearest items like a linear scan', () => {
+		for (const point of [
+			{ lat: 56.95, lon: 24.1 },
+			{ lat: 56.86, lon: 23.96 },
+			{ lat: 57.3, lon: 24.5 }, // Outside the data
+		]) {
+			const found = index.nearest(point, 5);
+			expect(found.map((neighbour) => neighbour.item.id)).toEqual(
+				bruteForce(elements, point).slice(0, 5)
+			);
+			expect(found[0]?.distance).toBeLessThanOrEqual(found[4]?.distance ?? 0);
+		}
+	});
+
+	it('should return fewer items when fewer exist', () => {
+		const small = createIndex();
+		small.insert([node(1, 56.95, 24.1)]);
+		expect(small.nearest({ lat: 56.9, lon: 24 }, 3)).toHaveLength(1);
+		expect(createIndex().nearest({ lat: 56.9, lon: 24 })).toEqual([]);
+	});
+
+	it('should apply the filter before ranking', () => {
+		const filtered = createIndex();
+		filtered.insert([
+			node(1, 56.95, 24.1),
+			node(2, 56.96, 24.1, { wheelchair: 'yes' }),
+			node(3, 57.0, 24.1, { wheelchair: 'yes' }),
+		]);
+
+		const found = filtered.nearest(
+			{ lat: 56.95, lon: 24.1 },
+			1,
+			(e) => e.tags.wheelchair === 'yes'
+		);
+		expect(found.map((neighbour) => neighbour.item.id)).toEqual([2]);
+	});
+
+	it('should find items within a radius, nearest first', () => {
+		const point = { lat: 56.95, lon: 24.1 };
+		const found = index.withinRadius(point, 2000);
+		const expected = elements.filter(
+			(element) => haversineDistance(point.lat, point.lon, element.lat, element.lon) <= 2000
+		);
+
+		expect(found).toHaveLength(expected.length);
+		expect(found.every((neighbour) => neighbour.distance <= 2000)).toBe(true);
+		expect(found.map((neighbour) => neighbour.distance)).toEqual(
+			found.map((neighbour) => neighbour.distance).sort((a, b) => a - b)
+		);
+	});
+
+	it('should find items within bounds', () => {
+		const bbox = { south: 56.9, west: 24.0, north: 56.95, east: 24.1 };
+		const found = index.withinBounds(bbox);
+		const expected = elements.filter(
+			(e) => e.lat >= bbox.south && e.lat <= bbox.north && e.lon >= bbox.west && e.lon <= bbox.east
+		);
+
+		expect(found.map((e) => e.id).sort((a, b) => a - b)).toEqual(expected.map((e) => e.id));
+	});
+
+	it('should replace items with the same key on insert', () => {
+		const moving = createIndex();
+		moving.insert([node(1, 56.95, 24.1)]);
+		moving.insert([node(1, 57.1, 24.3)]);
+
+		expect(moving.size()).toBe(1);
+		expect(moving.nearest({ lat: 56.95, lon: 24.1 })[0]?.item.lat).toBe(57.1);
+	});
+
+	it('should replace only the items inside reloaded bounds', () => {
+		const reloaded = createIndex();
+		reloaded.insert([node(1, 56.95, 24.1), node(2, 56.96, 24.11), node(3, 57.2, 24.5)]);
+		reloaded.replaceInBounds({ south: 56.9, west: 24.0, north: 57.0, east: 24.2 }, [
+			node(4, 56.955, 24.105),
+		]);
+
+		expect(
+			reloaded.withinBounds({ south: 56, west: 23, north: 58, east: 25 }).map((e) => e.id)
+		).toEqual(expect.arrayContaining([3, 4]));
+		expect(reloaded.size()).toBe(2);
+	});
+
+	it('should remove items by key and clear', () => {
+		const removable = createIndex();
+		removable.insert([node(1, 56.95, 24.1), node(2, 56.96, 24.1)]);
+		removable.remove(['node/1', 'node/404']);
+
+		expect(removable.nearest({ lat: 56.95, lon: 24.1 })[0]?.item.id).toBe(2);
+
+		removable.clear();
+		expect(removable.size()).toBe(0);
+		expect(removable.withinRadius({ lat: 56.95, lon: 24.1 }, 5000)).toEqual([]);
+	});
+});
@@ -5,9 +5,11 @@
 
 import { describe, expect, it } from 'vitest';
 import {
+	elementToRefillFacility,
 	elementToToiletFacility,
 	elementToWaterFacility,
 	isAccessible,
+	wheelchairOf,
 } from '../../../../src/features/data/transformers';
 import type { Element } from '../../../../src/types/overpass';
 
@@ -71,6 +73,22 @@ describe('elementToWaterFacility', () => {
 
 		expect(facility.sourceType).toBe('unknown');
 	});
+
+	it('should read bottle refill, dog and wheelchair tags', () => {
+		const element: Element = {
+			type: 'node',
+			id: 5,
+			lat: 56.9496,
+			lon: 24.1052,
+			tags: { amenity: 'drinking_water', bottle: 'yes', dog: 'no', wheelchair: 'limited' },
+		};
+
+		const facility = elementToWaterFacility(element);
+
+		expect(facility.bottleRefill).toBe(true);
+		expect(facility.dogFriendly).toBe(false);
+		expect(facility.wheelchair).toBe('limited');
+	});
 });
 
 describe('elementToToiletFacility', () => {
@@ -204,6 +222,48 @@ describe('elementToToiletFacility', () => {
 	});
 });
 
+describe('elementToRefillFacility', () => {
+	it('should transform a café refilling bottles to RefillFacility', () => {
+		const element: Element = {
+			type: 'node',
+			id: 1,
+			lat: 56.9496,
+			lon: 24.1052,
+			tags: {
+				amenity: 'cafe',
+				name: 'Kafejnīca',
+				'drinking_water:refill': 'yes',
+				access: 'customers',
+				wheelchair: 'limited',
+			},
+		};
+
+		const facility = elementToRefillFacility(element);
+
+		expect(facility.kind).toBe('refill');
+		expect(facility.venue).toBe('Kafejnīca');
+		expect(facility.customersOnly).toBe(true);
+		expect(facility.fee).toBe('unknown');
+		expect(wheelchairOf(facility)).toBe('limited');
+	});
+
+	it('should default to an unnamed venue open to anyone', () => {
+		const element: Element = {
+			type: 'node',
+			id: 2,
+			lat: 56.9496,
+			lon: 24.1052,
+			tags: { shop: 'bakery', 'refill:drinking_water': 'yes' },
+		};
+
+		const facility = elementToRefillFacility(element);
+
+		expect(facility.venue).toBe(null);
+		expect(facility.customersOnly).toBe(false);
+		expect(facility.wheelchair).toBe('unknown');
+	});
+});
+
 describe('isAccessible', () => {
 	it('should return true for wheelchair=yes', () => {
 		const element: Element = {
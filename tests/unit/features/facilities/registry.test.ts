@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the facility type registry
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	FACILITY_DEFINITIONS,
+	facilityDefinition,
+} from '../../../../src/features/facilities/registry';
+import type { Element } from '../../../../src/types/overpass';
+
+const node = (id: number, tags: Record<string, string>): Element => ({
+	type: 'node',
+	id,
+	lat: 56.95,
+	lon: 24.1,
+	tags,
+});
+
+describe('FACILITY_DEFINITIONS', () => {
+	it('should key each query, layer and analytics kind by a distinct kind', () => {
+		const kinds = FACILITY_DEFINITIONS.map((def) => def.kind);
+		expect(new Set(kinds).size).toBe(kinds.length);
+		expect(new Set(FACILITY_DEFINITIONS.map((def) => def.layerName)).size).toBe(kinds.length);
+		for (const def of FACILITY_DEFINITIONS) {
+			expect(def.query.key).toBe(def.kind);
+			expect(def.analyticsKind).toBe(def.kind);
+			expect(facilityDefinition(def.kind)).toBe(def);
+		}
+	});
+
+	it('should show water by default and keep the other layers hidden', () => {
+		expect(facilityDefinition('water').shownByDefault).toBe(true);
+		expect(facilityDefinition('toilet').shownByDefault).toBe(false);
+		expect(facilityDefinition('refill').shownByDefault).toBe(false);
+	});
+
+	it('should transform elements into facilities of their kind', () => {
+		const toilet = node(1, { amenity: 'toilets', fee: 'no' });
+		const facility = facilityDefinition('toilet').toFacility(toilet);
+		expect(facility.kind).toBe('toilet');
+		expect(facilityDefinition('water').toFacility(node(2, { natural: 'spring' })).kind).toBe(
+			'water'
+		);
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for facility filters
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { FACILITY_FILTERS_STORAGE_KEY } from '../../../../src/core/config';
+import type { FilterId } from '../../../../src/features/filters/filters';
+import {
+	countMatches,
+	filterElements,
+	loadActiveFilters,
+	passesFilters,
+	saveActiveFilters,
+	toFacility,
+} from '../../../../src/features/filters/filters';
+import type { Element } from '../../../../src/types/overpass';
+
+/**
+ * Minimal in-memory Storage
+ */
+function createStorage(): Storage {
+	const items: Map<string, string> = new Map();
+	return {
+		get length() {
+			return items.size;
+		},
+		clear: () => items.clear(),
+		getItem: (key) => items.get(key) ?? null,
+		key: (index) => [...items.keys()][index] ?? null,
+		removeItem: (key) => {
+			items.delete(key);
+		},
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+	};
+}
+
+const element = (id: number, tags: Record<string, string>): Element => ({
+	type: 'node',
+	id,
+	lat: 56.9496,
+	lon: 24.1052,
+	tags,
+});
+
+const tap = element(1, { amenity: 'drinking_water', bottle: 'yes', wheelchair: 'yes' });
+const fountain = element(2, { amenity: 'drinking_water', dog: 'yes' });
+const freeToilet = element(3, { amenity: 'toilets', fee: 'no', unisex: 'yes' });
+const paidToilet = element(4, { amenity: 'toilets', fee: 'yes', wheelchair: 'yes' });
+const refillCafe = element(5, { amenity: 'cafe', 'drinking_water:refill': 'yes' });
+
+const active = (...ids: FilterId[]): ReadonlySet<FilterId> => new Set(ids);
+
+describe('passesFilters', () => {
+	it('should pass everything without active filters', () => {
+		expect(passesFilters(toFacility('toilet', paidToilet), active())).toBe(true);
+	});
+
+	it('should require every active filter of the facility kind', () => {
+		expect(passesFilters(toFacility('water', tap), active('bottle', 'wheelchair'))).toBe(true);
+		expect(passesFilters(toFacility('water', fountain), active('bottle', 'dog'))).toBe(false);
+	});
+
+	it('should ignore filters of other kinds', () => {
+		expect(passesFilters(toFacility('water', fountain), active('free', 'unisex'))).toBe(true);
+		expect(passesFilters(toFacility('toilet', freeToilet), active('dog'))).toBe(true);
+	});
+
+	it('should let refill stations through the bottle and free filters', () => {
+		const facility = toFacility('refill', refillCafe);
+		expect(passesFilters(facility, active('bottle', 'free', 'drinkable'))).toBe(true);
+		expect(passesFilters(facility, active('wheelchair'))).toBe(false);
+	});
+});
+
+describe('filterElements', () => {
+	it('should keep the elements passing the filters', () => {
+		expect(filterElements('toilet', [freeToilet, paidToilet], active('free'))).toEqual([
+			freeToilet,
+		]);
+		expect(filterElements('toilet', [freeToilet, paidToilet], active('wheelchair'))).toEqual([
+			paidToilet,
+		]);
+	});
+});
+
+describe('open now filter', () => {
+	it('should hide facilities closed now and keep those without readable hours', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 9, 19, 20, 0));
+		const dayTime = element(5, { amenity: 'toilets', opening_hours: 'Mo-Fr 08:00-18:00' });
+
+		expect(filterElements('toilet', [dayTime, freeToilet], active('open_now'))).toEqual([
+			freeToilet,
+		]);
+		vi.useRealTimers();
+	});
+});
+
+describe('in season filter', () => {
+	it('should hide facilities likely off for winter', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 0, 15));
+		const winterised = element(6, { amenity: 'drinking_water', seasonal: 'yes' });
+
+		expect(filterElements('water', [winterised, tap], active('in_season'))).toEqual([tap]);
+		vi.useRealTimers();
+	});
+});
+
+describe('countMatches', () => {
+	const facilities = [
+		toFacility('water', tap),
+		toFacility('water', fountain),
+		toFacility('toilet', freeToilet),
+		toFacility('toilet', paidToilet),
+	];
+
+	it('should count the facilities each filter matches', () => {
+		const counts = countMatches(facilities, active());
+
+		expect(counts.drinkable).toBe(2);
+		expect(counts.bottle).toBe(1);
+		expect(counts.wheelchair).toBe(2);
+		expect(counts.free).toBe(1);
+		expect(counts.changing_table).toBe(0);
+	});
+
+	it('should combine each count with the other active filters', () => {
+		const counts = countMatches(facilities, active('free'));
+
+		expect(counts.wheelchair).toBe(1); // The tap; the accessible toilet isn't free
+		expect(counts.unisex).toBe(1);
+	});
+});
+
+describe('active filter persistence', () => {
+	it('should remember the active filters', () => {
+		const storage = createStorage();
+		saveActiveFilters(active('dog', 'free'), storage);
+
+		expect(loadActiveFilters(storage)).toEqual(new Set(['dog', 'free']));
+	});
+
+	it('should ignore unknown and unreadable entries', () => {
+		const storage = createStorage();
+		storage.setItem(FACILITY_FILTERS_STORAGE_KEY, JSON.stringify(['dog', 'sauna']));
+		expect(loadActiveFilters(storage)).toEqual(new Set(['dog']));
+
+		storage.setItem(FACILITY_FILTERS_STORAGE_KEY, '{');
+		expect(loadActiveFilters(storage)).toEqual(new Set());
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for holiday calendars
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+	createHolidayCalendar,
+	dateKey,
+	easterSunday,
+	getHolidayCalendar,
+	latvianPublicHolidays,
+	registerHolidayCalendar,
+} from '../../../../src/features/hours/holidays';
+import * as logger from '../../../../src/utils/logger';
+
+describe('easterSunday', () => {
+	it('should compute Easter Sunday', () => {
+		expect(dateKey(easterSunday(2024))).toBe('2024-03-31');
+		expect(dateKey(easterSunday(2026))).toBe('2026-04-05');
+		expect(dateKey(easterSunday(2027))).toBe('2027-03-28');
+	});
+});
+
+describe('latvianPublicHolidays', () => {
+	it('should include the Easter-based holidays', () => {
+		const keys = latvianPublicHolidays(2026).map(dateKey);
+
+		expect(keys).toContain('2026-04-03'); // Good Friday
+		expect(keys).toContain('2026-04-06'); // Easter Monday
+		expect(keys).toContain('2026-05-24'); // Whitsunday
+	});
+
+	it('should add the following Monday when 4 May or 18 November falls on a weekend', () => {
+		expect(latvianPublicHolidays(2025).map(dateKey)).toContain('2025-05-05');
+		expect(latvianPublicHolidays(2028).map(dateKey)).toContain('2028-11-20');
+		expect(latvianPublicHolidays(2026).map(dateKey)).not.toContain('2026-05-05');
+	});
+});
+
+describe('createHolidayCalendar', () => {
+	it('should answer public holidays from the holiday list', () => {
+		const calendar = createHolidayCalendar({ code: 'LV', publicHolidays: latvianPublicHolidays });
+
+		expect(calendar.isPublicHoliday(new Date(2026, 5, 24))).toBe(true);
+		expect(calendar.isPublicHoliday(new Date(2026, 5, 25))).toBe(false);
+	});
+
+	it('should answer school holidays only within the listed school years', () => {
+		const calendar = createHolidayCalendar({
+			code: 'LV',
+			schoolYears: [
+				{
+					from: '2026-09-01',
+					to: '2027-05-31',
+					holidays: [{ from: '2026-12-22', to: '2027-01-03' }],
+				},
+			],
+		});
+
+		expect(calendar.isSchoolHoliday(new Date(2026, 11, 30))).toBe(true);
+		expect(calendar.isSchoolHoliday(new Date(2026, 9, 1))).toBe(false);
+		expect(calendar.isSchoolHoliday(new Date(2027, 6, 1))).toBeNull();
+		expect(calendar.isPublicHoliday(new Date(2026, 11, 25))).toBeNull();
+	});
+});
+
+describe('getHolidayCalendar', () => {
+	it('should provide the Latvian calendar by default', () => {
+		expect(getHolidayCalendar().code).toBe('LV');
+		expect(getHolidayCalendar().isPublicHoliday(new Date(2026, 10, 18))).toBe(true);
+	});
+
+	it('should use registered calendars', () => {
+		registerHolidayCalendar('EE', () =>
+			createHolidayCalendar({ code: 'EE', publicHolidays: (year) => [new Date(year, 1, 24)] })
+		);
+
+		expect(getHolidayCalendar('EE').isPublicHoliday(new Date(2026, 1, 24))).toBe(true);
+	});
+
+	it('should fall back to a calendar without data for unknown countries', () => {
+		const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {
+			// Silence the missing calendar warning
+		});
+		const calendar = getHolidayCalendar('ZZ');
+
+		expect(calendar.isPublicHoliday(new Date(2026, 0, 1))).toBeNull();
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
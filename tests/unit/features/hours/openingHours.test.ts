@@ -0,0 +1,233 @@
+/**
+ * Unit tests for opening_hours evaluation
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createHolidayCalendar } from '../../../../src/features/hours/holidays';
+import type { OpeningHours } from '../../../../src/features/hours/openingHours';
+import {
+	formatOpeningStatus,
+	isClosedAt,
+	openingStateAt,
+	openingStatusAt,
+	parseOpeningHours,
+	weeklySchedule,
+} from '../../../../src/features/hours/openingHours';
+import type { Element } from '../../../../src/types/overpass';
+import { isErr, isOk } from '../../../../src/types/result';
+
+// Monday 19 October 2026
+const monday = (hour: number, minute = 0) => new Date(2026, 9, 19, hour, minute);
+const day = (date: number, hour: number, minute = 0) => new Date(2026, 9, date, hour, minute);
+
+const parse = (value: string): OpeningHours => {
+	const result = parseOpeningHours(value);
+	if (!isOk(result)) throw new Error(result.error.message);
+	return result.value;
+};
+
+describe('parseOpeningHours', () => {
+	it('should read weekday, month and time selectors', () => {
+		const hours = parse('Apr-Oct Mo-Fr 08:00-12:00, 13:00-17:00; Sa off "lunch break"');
+
+		expect(hours.rules[0]).toEqual({
+			months: [3, 4, 5, 6, 7, 8, 9],
+			weekdays: [0, 1, 2, 3, 4],
+			holidays: [],
+			during: null,
+			state: 'open',
+			ranges: [
+				{ from: 480, to: 720 },
+				{ from: 780, to: 1020 },
+			],
+			comment: null,
+		});
+		expect(hours.rules[1]).toMatchObject({
+			weekdays: [5],
+			state: 'closed',
+			comment: 'lunch break',
+		});
+	});
+
+	it('should wrap weekday and month ranges', () => {
+		expect(parse('Sa-Mo 10:00-14:00').rules[0]?.weekdays).toEqual([0, 5, 6]);
+		expect(parse('Nov-Feb off').rules[0]?.months).toEqual([0, 1, 10, 11]);
+	});
+
+	it('should read ranges past midnight', () => {
+		expect(parse('Fr 22:00-02:00').rules[0]?.ranges).toEqual([{ from: 1320, to: 1560 }]);
+	});
+
+	it('should read holiday selectors', () => {
+		expect(parse('Mo-Fr,PH 10:00-14:00').rules[0]).toMatchObject({
+			weekdays: [0, 1, 2, 3, 4],
+			holidays: ['PH'],
+			during: null,
+		});
+		expect(parse('PH off').rules[0]).toMatchObject({ weekdays: [], holidays: ['PH'] });
+		expect(parse('SH Mo-Fr 10:00-14:00').rules[0]).toMatchObject({
+			weekdays: [0, 1, 2, 3, 4],
+			holidays: [],
+			during: 'SH',
+		});
+	});
+
+	it('should flag values it cannot read', () => {
+		expect(isErr(parseOpeningHours('Mo-Fr 08:00+'))).toBe(true);
+		expect(isErr(parseOpeningHours('sunrise-sunset'))).toBe(true);
+		expect(isErr(parseOpeningHours('Mo[1] 10:00-12:00'))).toBe(true);
+		expect(isErr(parseOpeningHours('Mo-Fr 08:00-18:00 || "by appointment"'))).toBe(true);
+		expect(isErr(parseOpeningHours('daily 9-5'))).toBe(true);
+		expect(isErr(parseOpeningHours(' ; '))).toBe(true);
+	});
+});
+
+describe('openingStateAt', () => {
+	it('should let later rules replace earlier ones', () => {
+		const hours = parse('Mo-Su 08:00-20:00; Mo off');
+
+		expect(openingStateAt(hours, monday(12)).state).toBe('closed');
+		expect(openingStateAt(hours, day(20, 12)).state).toBe('open');
+	});
+
+	it('should keep a late range open into the next day', () => {
+		const hours = parse('Su 20:00-02:00');
+
+		expect(openingStateAt(hours, monday(1)).state).toBe('open');
+		expect(openingStateAt(hours, monday(3)).state).toBe('closed');
+	});
+
+	it('should only apply month rules in their months', () => {
+		const hours = parse('May-Sep 08:00-22:00');
+
+		expect(openingStateAt(hours, monday(12)).state).toBe('closed');
+		expect(openingStateAt(hours, new Date(2026, 6, 1, 12)).state).toBe('open');
+	});
+
+	it('should report comment-only rules as unknown', () => {
+		const hours = parse('"by appointment"');
+
+		expect(openingStateAt(hours, monday(12))).toEqual({
+			state: 'unknown',
+			comment: 'by appointment',
+		});
+	});
+});
+
+describe('holiday rules', () => {
+	const calendar = createHolidayCalendar({
+		code: 'XX',
+		publicHolidays: (year) => [new Date(year, 10, 18)],
+		schoolYears: [
+			{
+				from: '2026-09-01',
+				to: '2027-05-31',
+				holidays: [{ from: '2026-10-19', to: '2026-10-23' }],
+			},
+		],
+	});
+	const unknown = createHolidayCalendar({ code: 'XX' });
+
+	it('should apply PH rules on public holidays only', () => {
+		const hours = parse('Mo-Fr 08:00-18:00; PH off');
+
+		expect(openingStateAt(hours, day(20, 12), calendar).state).toBe('open');
+		expect(openingStateAt(hours, new Date(2026, 10, 18, 12), calendar).state).toBe('closed');
+	});
+
+	it('should apply SH weekday rules during school holidays only', () => {
+		const hours = parse('Mo-Fr 08:00-18:00; SH Mo-Fr 10:00-14:00');
+
+		expect(openingStateAt(hours, monday(9), calendar).state).toBe('closed');
+		expect(openingStateAt(hours, day(26, 9), calendar).state).toBe('open');
+	});
+
+	it('should report days with unknown holiday status as unknown', () => {
+		const hours = parse('Mo-Fr 08:00-18:00; SH off');
+
+		expect(openingStateAt(hours, monday(12), unknown).state).toBe('unknown');
+		expect(openingStateAt(parse('Mo-Fr 08:00-18:00; Sa,PH off'), day(24, 12), unknown).state).toBe(
+			'closed'
+		);
+	});
+
+	it('should let a later definite rule replace an unknown holiday', () => {
+		const hours = parse('PH off; Mo 08:00-18:00');
+
+		expect(openingStateAt(hours, monday(12), unknown).state).toBe('open');
+	});
+});
+
+describe('openingStatusAt', () => {
+	it('should find when an open facility closes', () => {
+		const status = openingStatusAt(parse('Mo-Fr 08:00-22:00'), monday(12));
+
+		expect(status.state).toBe('open');
+		expect(status.nextChange).toEqual(monday(22));
+	});
+
+	it('should find when a closed facility opens on a later day', () => {
+		const status = openingStatusAt(parse('Mo-Fr 08:00-18:00'), day(24, 12)); // Saturday
+
+		expect(status.state).toBe('closed');
+		expect(status.nextChange).toEqual(day(26, 8));
+	});
+
+	it('should follow opening hours across midnight', () => {
+		const status = openingStatusAt(parse('Mo 18:00-24:00; Tu 00:00-03:00'), monday(20));
+
+		expect(status.nextChange).toEqual(day(20, 3));
+	});
+
+	it('should never change for 24/7', () => {
+		expect(openingStatusAt(parse('24/7'), monday(12))).toEqual({
+			state: 'open',
+			comment: null,
+			nextChange: null,
+		});
+	});
+});
+
+describe('formatOpeningStatus', () => {
+	it('should describe the next change', () => {
+		const hours = parse('Mo-Fr 08:00-22:00');
+
+		expect(formatOpeningStatus(openingStatusAt(hours, monday(12)), monday(12))).toBe(
+			'Open now, closes 22:00'
+		);
+		expect(formatOpeningStatus(openingStatusAt(hours, day(24, 12)), day(24, 12))).toBe(
+			'Closed, opens Mon 08:00'
+		);
+		expect(formatOpeningStatus(openingStatusAt(parse('24/7'), monday(12)), monday(12))).toBe(
+			'Open now, 24/7'
+		);
+	});
+});
+
+describe('weeklySchedule', () => {
+	it('should list Monday to Sunday of the current week', () => {
+		const week = weeklySchedule(parse('Mo-Fr 08:00-18:00; Sa 10:00-14:00'), day(22, 9));
+
+		expect(week).toHaveLength(7);
+		expect(week[0]?.date).toEqual(monday(0));
+		expect(week[5]?.ranges).toEqual([{ from: 600, to: 840 }]);
+		expect(week[6]?.state).toBe('closed');
+	});
+});
+
+describe('isClosedAt', () => {
+	const toilet = (tags: Record<string, string>): Element => ({
+		type: 'node',
+		id: 1,
+		lat: 56.95,
+		lon: 24.1,
+		tags: { amenity: 'toilets', ...tags },
+	});
+
+	it('should only treat readable closed hours as closed', () => {
+		expect(isClosedAt(toilet({ opening_hours: 'Mo-Fr 08:00-18:00' }), monday(20))).toBe(true);
+		expect(isClosedAt(toilet({ opening_hours: 'Mo-Fr 08:00-18:00' }), monday(12))).toBe(false);
+		expect(isClosedAt(toilet({ opening_hours: 'sunrise-sunset' }), monday(20))).toBe(false);
+		expect(isClosedAt(toilet({}), monday(20))).toBe(false);
+	});
+});
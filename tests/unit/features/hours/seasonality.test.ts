@@ -0,0 +1,80 @@
+/**
+ * Unit tests for seasonal availability
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+	formatSeasonalStatus,
+	isLikelyAvailable,
+	seasonalityOf,
+	seasonalStatusAt,
+} from '../../../../src/features/hours/seasonality';
+import type { Element } from '../../../../src/types/overpass';
+
+const tap = (tags: Record<string, string>): Element => ({
+	type: 'node',
+	id: 1,
+	lat: 56.95,
+	lon: 24.1,
+	tags: { amenity: 'drinking_water', ...tags },
+});
+
+const january = new Date(2026, 0, 15);
+const july = new Date(2026, 6, 15);
+
+describe('seasonalityOf', () => {
+	it('should use the regional season for seasonal=yes', () => {
+		expect(seasonalityOf({ seasonal: 'yes' })).toEqual({
+			months: [3, 4, 5, 6, 7, 8, 9],
+			source: 'tag',
+		});
+	});
+
+	it('should read seasons and months', () => {
+		expect(seasonalityOf({ seasonal: 'spring;summer' })?.months).toEqual([2, 3, 4, 5, 6, 7]);
+		expect(seasonalityOf({ seasonal: 'May-Sep' })?.months).toEqual([4, 5, 6, 7, 8]);
+		expect(seasonalityOf({ seasonal: 'whenever' })?.months).toBeNull();
+	});
+
+	it('should read notes saying the facility is off in winter', () => {
+		expect(seasonalityOf({ note: 'Turned off during winter' })?.source).toBe('note');
+		expect(seasonalityOf({ note: 'Ziemā nestrādā' })?.source).toBe('note');
+		expect(seasonalityOf({ note: 'Behind the building' })).toBeNull();
+	});
+
+	it('should apply operator defaults unless the tag says otherwise', () => {
+		expect(seasonalityOf({ operator: 'Rīgas ūdens' })?.source).toBe('operator');
+		expect(seasonalityOf({ operator: 'Rīgas ūdens', seasonal: 'no' })).toBeNull();
+	});
+});
+
+describe('seasonalStatusAt', () => {
+	it('should evaluate the season against the date', () => {
+		expect(seasonalStatusAt(tap({ seasonal: 'yes' }), july)).toBe('available');
+		expect(seasonalStatusAt(tap({ seasonal: 'yes' }), january)).toBe('off_season');
+		expect(seasonalStatusAt(tap({ seasonal: 'whenever' }), january)).toBe('unknown');
+		expect(seasonalStatusAt(tap({}), january)).toBe('available');
+	});
+
+	it('should only rule out facilities likely off', () => {
+		expect(isLikelyAvailable(tap({ seasonal: 'yes' }), january)).toBe(false);
+		expect(isLikelyAvailable(tap({ seasonal: 'whenever' }), january)).toBe(true);
+	});
+});
+
+describe('formatSeasonalStatus', () => {
+	it('should describe the status and the season', () => {
+		const seasonality = seasonalityOf({ seasonal: 'yes' });
+		if (!seasonality) throw new Error('not seasonal');
+
+		expect(formatSeasonalStatus(seasonality, 'off_season')).toBe(
+			'Likely off for winter (usually on Apr–Oct)'
+		);
+		expect(formatSeasonalStatus({ months: [10, 11, 0], source: 'tag' }, 'available')).toBe(
+			'Likely available (usually on Nov–Jan)'
+		);
+		expect(formatSeasonalStatus({ months: null, source: 'tag' }, 'unknown')).toBe(
+			'Seasonal, availability unknown'
+		);
+	});
+});
@@ -0,0 +1,241 @@
+/**
+ * Unit tests for marker clustering
+ */
+
+import * as L from 'leaflet';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { facilityDefinition } from '../../../../src/features/facilities/registry';
+import {
+	clusterBadgeHtml,
+	clusterLabel,
+	countByKind,
+	createMarkerClusters,
+	groupIntoClusters,
+	spiderfyOffsets,
+} from '../../../../src/features/markers/clustering';
+import type { MarkerReconciler } from '../../../../src/features/markers/reconcile';
+import { createMarkerReconciler } from '../../../../src/features/markers/reconcile';
+import type { Element } from '../../../../src/types/overpass';
+
+// Clustering moves real markers between layers, so use real Leaflet
+vi.unmock('leaflet');
+
+const facility = (id: number, lat: number, lon: number, amenity: string): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon,
+	tags: { amenity },
+});
+
+describe('groupIntoClusters', () => {
+	const position = (point: { lat: number; lon: number }) => point;
+	const identity = (point: { lat: number; lon: number }) => ({ x: point.lon, y: point.lat });
+
+	it('should group items by grid cell with their mean position', () => {
+		const clusters = groupIntoClusters(
+			[
+				{ lat: 10, lon: 10 },
+				{ lat: 30, lon: 30 },
+				{ lat: 70, lon: 10 },
+			],
+			position,
+			identity,
+			60
+		);
+
+		expect(clusters).toHaveLength(2);
+		expect(clusters[0]?.members).toHaveLength(2);
+		expect(clusters[0]?.center).toEqual({ lat: 20, lon: 20 });
+	});
+});
+
+describe('cluster badges', () => {
+	it('should count members per kind', () => {
+		expect(countByKind([{ kind: 'water' }, { kind: 'toilet' }, { kind: 'water' }])).toEqual({
+			water: 2,
+			toilet: 1,
+		});
+	});
+
+	it('should split the ring by kind and show the total', () => {
+		const html = clusterBadgeHtml({ water: 3, toilet: 1 });
+
+		expect(html).toContain('<span>4</span>');
+		expect(html).toContain('#0078ff 0deg 270deg');
+		expect(html).toContain('#795548 270deg 360deg');
+	});
+
+	it('should describe the counts', () => {
+		expect(clusterLabel({ water: 12, toilet: 1 })).toBe('12 water points, 1 toilet');
+		expect(clusterLabel({ toilet: 2 })).toBe('2 toilets');
+	});
+});
+
+describe('spiderfyOffsets', () => {
+	it('should spread markers evenly on a circle', () => {
+		const offsets = spiderfyOffsets(4, 20);
+
+		expect(offsets).toHaveLength(4);
+		for (const { x, y } of offsets) {
+			expect(Math.hypot(x, y)).toBeCloseTo(20);
+		}
+		expect(offsets[0]?.y).toBeCloseTo(-20); // First marker straight above
+	});
+
+	it('should grow the circle for many markers', () => {
+		const [first] = spiderfyOffsets(16, 20);
+		expect(Math.hypot(first?.x ?? 0, first?.y ?? 0)).toBeCloseTo(40);
+	});
+});
+
+describe('createMarkerClusters', () => {
+	let container: HTMLElement;
+	let map: L.Map;
+	let water: MarkerReconciler;
+	let toilet: MarkerReconciler;
+
+	beforeEach(() => {
+		container = document.createElement('div');
+		container.style.height = '400px';
+		document.body.appendChild(container);
+
+		map = L.map(container, { zoomAnimation: false }).setView([56.95, 24.1], 12);
+		water = createMarkerReconciler(L.featureGroup().addTo(map), map, facilityDefinition('water'));
+		toilet = createMarkerReconciler(L.featureGroup().addTo(map), map, facilityDefinition('toilet'));
+	});
+
+	afterEach(() => {
+		map.remove();
+		container.remove();
+	});
+
+	const clusterBadges = () =>
+		container.querySelectorAll('.facility-cluster-badge') as NodeListOf<HTMLElement>;
+
+	it('should replace overlapping markers with one badge counting both kinds', () => {
+		const nearby = [
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		];
+		water.update(nearby);
+		toilet.update([facility(3, 56.9502, 24.1, 'toilets')]);
+
+		createMarkerClusters(map, { water, toilet }).refresh();
+
+		expect(water.layer.getLayers()).toHaveLength(0);
+		expect(toilet.layer.getLayers()).toHaveLength(0);
+		expect(clusterBadges()).toHaveLength(1);
+		expect(clusterBadges()[0]?.textContent).toBe('3');
+	});
+
+	it('should keep the nearest facility unclustered', () => {
+		const nearby = [
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		];
+		water.update(nearby, nearby[0]);
+		toilet.update([]);
+
+		createMarkerClusters(map, { water, toilet }).refresh();
+
+		// The other facility has nothing left to cluster with
+		expect(water.layer.getLayers()).toHaveLength(2);
+		expect(clusterBadges()).toHaveLength(0);
+	});
+
+	it('should show all markers again above the clustering zoom', () => {
+		water.update([
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		]);
+		toilet.update([]);
+		const clusters = createMarkerClusters(map, { water, toilet });
+		clusters.refresh();
+
+		map.setZoom(16, { animate: false });
+
+		expect(water.layer.getLayers()).toHaveLength(2);
+		expect(clusterBadges()).toHaveLength(0);
+	});
+
+	it('should not show markers of facilities dropped while clustered', () => {
+		water.update([
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		]);
+		toilet.update([]);
+		const clusters = createMarkerClusters(map, { water, toilet });
+		clusters.refresh();
+
+		water.update([facility(1, 56.95, 24.1, 'drinking_water')]);
+		clusters.refresh();
+
+		expect(water.layer.getLayers()).toHaveLength(1);
+	});
+
+	it('should spread a small cluster out on click and collapse it on a map click', () => {
+		water.update([
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		]);
+		toilet.update([]);
+		createMarkerClusters(map, { water, toilet }).refresh();
+
+		clusterBadges()[0]?.click();
+
+		const spread = water.layer.getLayers() as L.CircleMarker[];
+		expect(spread).toHaveLength(2);
+		expect(spread[0]?.getLatLng().equals(spread[1]?.getLatLng() ?? [0, 0])).toBe(false);
+		expect(clusterBadges()).toHaveLength(0);
+
+		map.fire('click', { sourceTarget: map });
+
+		expect(water.layer.getLayers()).toHaveLength(0);
+		expect(clusterBadges()).toHaveLength(1);
+	});
+
+	it('should keep a spread cluster and its open popup across refreshes', () => {
+		const nearby = [
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		];
+		water.update(nearby);
+		toilet.update([]);
+		const clusters = createMarkerClusters(map, { water, toilet });
+		clusters.refresh();
+		clusterBadges()[0]?.click();
+		const [spread] = water.layer.getLayers() as L.CircleMarker[];
+		spread?.openPopup();
+
+		// Periodic restyle: same markers
+		water.update(nearby);
+		clusters.refresh();
+		// Another facility loaded elsewhere
+		water.update([...nearby, facility(3, 57.05, 24.3, 'drinking_water')]);
+		clusters.refresh();
+
+		expect(water.layer.getLayers()).toHaveLength(3);
+		expect(spread?.isPopupOpen()).toBe(true);
+		expect(clusterBadges()).toHaveLength(0);
+	});
+
+	it('should collapse a spread cluster whose members changed', () => {
+		const nearby = [
+			facility(1, 56.95, 24.1, 'drinking_water'),
+			facility(2, 56.9501, 24.1, 'drinking_water'),
+		];
+		water.update(nearby);
+		toilet.update([]);
+		const clusters = createMarkerClusters(map, { water, toilet });
+		clusters.refresh();
+		clusterBadges()[0]?.click();
+
+		water.update([...nearby, facility(3, 56.9502, 24.1, 'drinking_water')]);
+		clusters.refresh();
+
+		expect(water.layer.getLayers()).toHaveLength(0);
+		expect(clusterBadges()).toHaveLength(1);
+		expect(clusterBadges()[0]?.textContent).toBe('3');
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for keyed marker reconciliation
+ */
+
+import * as L from 'leaflet';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { facilityDefinition } from '../../../../src/features/facilities/registry';
+import type { FacilityLayer } from '../../../../src/features/markers/markers';
+import type { MarkerReconciler } from '../../../../src/features/markers/reconcile';
+import { createMarkerReconciler } from '../../../../src/features/markers/reconcile';
+import { FacilityColors } from '../../../../src/features/markers/styling';
+import type { Element } from '../../../../src/types/overpass';
+
+// Reconciliation is about real layer membership and popups, so use real Leaflet
+vi.unmock('leaflet');
+
+const water = (id: number, tags: Record<string, string> = {}): Element => ({
+	type: 'node',
+	id,
+	lat: 56.95 + id * 0.001,
+	lon: 24.1,
+	tags: { amenity: 'drinking_water', ...tags },
+});
+
+describe('createMarkerReconciler', () => {
+	let map: L.Map;
+	let layer: FacilityLayer;
+	let markers: MarkerReconciler;
+
+	beforeEach(() => {
+		const container = document.createElement('div');
+		container.style.height = '400px';
+		document.body.appendChild(container);
+
+		map = L.map(container).setView([56.95, 24.1], 14);
+		layer = L.featureGroup().addTo(map);
+		markers = createMarkerReconciler(layer, map, facilityDefinition('water'));
+	});
+
+	it('should add a marker per facility', () => {
+		markers.update([water(1), water(2), water(2)]);
+
+		expect(markers.size()).toBe(2);
+		expect(layer.getLayers()).toHaveLength(2);
+	});
+
+	it('should keep unchanged markers and only add and remove the difference', () => {
+		markers.update([water(1), water(2)]);
+		const [first] = layer.getLayers();
+
+		markers.update([water(1), water(3)]);
+
+		expect(markers.size()).toBe(2);
+		expect(layer.getLayers()).toHaveLength(2);
+		expect(layer.hasLayer(first as L.Layer)).toBe(true);
+	});
+
+	it('should restyle a marker in place when the nearest facility changes', () => {
+		markers.update([water(1), water(2)], water(1));
+		const [first] = layer.getLayers() as L.CircleMarker[];
+		expect(first?.options.fillColor).toBe(FacilityColors.ui.nearest);
+
+		markers.update([water(1), water(2)], water(2));
+
+		expect(layer.hasLayer(first as L.Layer)).toBe(true);
+		expect(first?.options.fillColor).toBe(FacilityColors.water.drinkingWater);
+	});
+
+	it('should rebuild a marker whose tags changed', () => {
+		markers.update([water(1)]);
+		const [before] = layer.getLayers();
+
+		markers.update([water(1, { drinking_water: 'no' })]);
+
+		const [after] = layer.getLayers();
+		expect(after).not.toBe(before);
+		expect(after).toBeInstanceOf(L.Marker);
+	});
+
+	it('should keep an open popup across refreshes', () => {
+		markers.update([water(1), water(2)]);
+		const [first] = layer.getLayers() as L.CircleMarker[];
+		first?.openPopup();
+
+		markers.update([water(1), water(2), water(3)], water(1));
+
+		expect(first?.isPopupOpen()).toBe(true);
+	});
+
+	it('should skip facilities with invalid coordinates', () => {
+		markers.update([{ ...water(1), lat: Number.NaN }, water(2)]);
+
+		expect(markers.size()).toBe(1);
+	});
+
+	it('should clear all markers', () => {
+		markers.update([water(1), water(2)]);
+		markers.clear();
+
+		expect(markers.size()).toBe(0);
+		expect(layer.getLayers()).toHaveLength(0);
+	});
+});
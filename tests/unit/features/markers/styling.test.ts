@@ -2,9 +2,12 @@
  * Unit tests for marker styling functions
  */
 
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MARKER_STYLE } from '../../../../src/core/config';
 import {
 	createGenericMarker,
+	FacilityColors,
+	getRefillMarkerStyle,
 	getToiletMarkerStyle,
 	getWaterMarkerStyle,
 	type MarkerStyle,
@@ -86,20 +89,52 @@ describe('getWaterMarkerStyle', () => {
 		expect(style.radius).toBe(8); // Bottle radius
 	});
 
-	it('should reduce opacity for seasonal markers', () => {
+	it('should reduce opacity for markers with an unknown season', () => {
 		const element: Element = {
 			type: 'node',
 			id: 6,
 			lat: 56.9496,
 			lon: 24.1052,
-			tags: { amenity: 'drinking_water', seasonal: 'yes' },
+			tags: { amenity: 'drinking_water', seasonal: 'sometimes' },
 		};
 
-		const style = getWaterMarkerStyle(element, { isSeasonal: true });
+		const style = getWaterMarkerStyle(element);
 
 		expect(style.fillOpacity).toBe(0.3); // Seasonal opacity
 	});
 
+	it('should dim seasonal markers only outside their season', () => {
+		const element: Element = {
+			type: 'node',
+			id: 6,
+			lat: 56.9496,
+			lon: 24.1052,
+			tags: { amenity: 'drinking_water', seasonal: 'yes' },
+		};
+
+		expect(getWaterMarkerStyle(element, { seasonalStatus: 'available' }).fillOpacity).toBe(0.6);
+		const winter = getWaterMarkerStyle(element, { seasonalStatus: 'off_season' });
+		expect(winter.fillOpacity).toBe(MARKER_STYLE.fillOpacity.closed);
+		expect(winter.color).toBe(FacilityColors.ui.disabled);
+	});
+
+	it('should outline the recommended marker and keep its fill', () => {
+		const element: Element = {
+			type: 'node',
+			id: 8,
+			lat: 56.9496,
+			lon: 24.1052,
+			tags: { amenity: 'drinking_water' },
+			recommendation: ['120 m'],
+		};
+
+		const style = getWaterMarkerStyle(element);
+
+		expect(style.color).toBe(FacilityColors.ui.recommended);
+		expect(style.fillColor).toBe(FacilityColors.water.drinkingWater);
+		expect(style.weight).toBe(3);
+	});
+
 	it('should highlight nearest marker with gold color', () => {
 		const element: Element = {
 			type: 'node',
@@ -192,6 +227,74 @@ describe('getToiletMarkerStyle', () => {
 		// Accessible color takes precedence
 		expect(style.fillColor).toBe('#8D6E63');
 	});
+
+	describe('opening hours', () => {
+		const element: Element = {
+			type: 'node',
+			id: 6,
+			lat: 56.9496,
+			lon: 24.1052,
+			tags: { amenity: 'toilets', opening_hours: 'Mo-Fr 08:00-18:00' },
+		};
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should dim toilets that are closed now', () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date(2026, 9, 19, 20, 0)); // Monday evening
+
+			const style = getToiletMarkerStyle(element);
+
+			expect(style.fillOpacity).toBe(0.2);
+			expect(style.color).toBe('#9E9E9E');
+		});
+
+		it('should not dim toilets that are open now', () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date(2026, 9, 19, 12, 0));
+
+			expect(getToiletMarkerStyle(element).fillOpacity).toBe(0.7);
+		});
+	});
+});
+
+describe('getRefillMarkerStyle', () => {
+	const cafe: Element = {
+		type: 'node',
+		id: 1,
+		lat: 56.9496,
+		lon: 24.1052,
+		tags: { amenity: 'cafe', 'drinking_water:refill': 'yes' },
+	};
+
+	it('should style refill stations apart from water points', () => {
+		const style = getRefillMarkerStyle(cafe);
+
+		expect(style.fillColor).toBe(FacilityColors.refill.open);
+		expect(style.color).toBe(FacilityColors.refill.border);
+		expect(style.radius).toBe(8);
+		expect(style.weight).toBe(2);
+		expect(style.fillColor).not.toBe(getWaterMarkerStyle(cafe).fillColor);
+	});
+
+	it('should lighten stations that only refill for customers', () => {
+		const style = getRefillMarkerStyle({ ...cafe, tags: { ...cafe.tags, access: 'customers' } });
+
+		expect(style.fillColor).toBe(FacilityColors.refill.customersOnly);
+	});
+
+	it('should highlight the nearest station', () => {
+		expect(getRefillMarkerStyle(cafe, { isNearest: true }).fillColor).toBe('#FFD700');
+	});
+
+	it('should dim stations that are closed', () => {
+		const style = getRefillMarkerStyle(cafe, { isClosed: true });
+
+		expect(style.fillOpacity).toBe(MARKER_STYLE.fillOpacity.closed);
+		expect(style.color).toBe(FacilityColors.ui.disabled);
+	});
 });
 
 describe('createGenericMarker', () => {
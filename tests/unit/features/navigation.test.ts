@@ -2,6 +2,7 @@ import * as L from 'leaflet';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
 	hasMovedSignificantly,
+	measurePan,
 	setupMapNavigationHandlers,
 } from '../../../src/features/navigation/navigation';
 
@@ -63,6 +64,20 @@ describe('navigation', () => {
 		});
 	});
 
+	describe('measurePan', () => {
+		it('should return the unit direction and speed of the centre', () => {
+			const motion = measurePan({ x: 0, y: 0 }, { x: 300, y: -400 }, 500);
+
+			expect(motion?.dx).toBeCloseTo(0.6);
+			expect(motion?.dy).toBeCloseTo(-0.8);
+			expect(motion?.speed).toBeCloseTo(1000);
+		});
+
+		it('should ignore tiny moves', () => {
+			expect(measurePan({ x: 0, y: 0 }, { x: 3, y: 4 }, 100)).toBeNull();
+		});
+	});
+
 	describe('setupMapNavigationHandlers', () => {
 		let map: L.Map;
 		let container: HTMLElement;
@@ -142,6 +157,33 @@ describe('navigation', () => {
 			cleanup();
 		});
 
+		it('should report pans with their direction', async () => {
+			const onPan = vi.fn();
+			const cleanup = setupMapNavigationHandlers(map, vi.fn(), { onPan });
+
+			map.panBy([100, 0], { animate: false });
+			await new Promise((resolve) => setTimeout(resolve, 350));
+
+			expect(onPan).toHaveBeenCalledTimes(1);
+			const [motion] = onPan.mock.calls[0] ?? [];
+			expect(motion.dx).toBeCloseTo(1);
+			expect(motion.dy).toBeCloseTo(0);
+
+			cleanup();
+		});
+
+		it('should not report zooms as pans', async () => {
+			const onPan = vi.fn();
+			const cleanup = setupMapNavigationHandlers(map, vi.fn(), { onPan });
+
+			map.setZoom(15, { animate: false });
+			await new Promise((resolve) => setTimeout(resolve, 350));
+
+			expect(onPan).not.toHaveBeenCalled();
+
+			cleanup();
+		});
+
 		it('should clean up event listeners on cleanup', async () => {
 			const callback = vi.fn();
 			const cleanup = setupMapNavigationHandlers(map, callback);
@@ -0,0 +1,314 @@
+/**
+ * Unit tests for offline area downloads
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FACILITY_GRID_ZOOM, OFFLINE_AREAS } from '../../../../src/core/config';
+import type { CellStore } from '../../../../src/features/data/cellCache';
+import { createMemoryCellStore } from '../../../../src/features/data/cellCache';
+import { resetEndpointHealth } from '../../../../src/features/data/endpoints';
+import { cellBounds, cellForPoint, cellKey } from '../../../../src/features/data/grid';
+import { createOverpassSource } from '../../../../src/features/data/sources/overpass';
+import type { FacilityDataSource } from '../../../../src/features/data/sources/types';
+import { createOfflineAreaManager, estimateArea } from '../../../../src/features/offline/areas';
+import type { Element } from '../../../../src/types/overpass';
+import { isErr, isOk, Ok } from '../../../../src/types/result';
+import { createMockFetchResponse } from '../../../helpers';
+
+const QUERIES = [
+	{ key: 'water', oql: 'node["amenity"="drinking_water"]([bbox]);' },
+	{ key: 'toilet', oql: 'node["amenity"="toilets"]([bbox]);' },
+];
+
+const overpassResponse = (elements: Element[]) =>
+	createMockFetchResponse(
+		JSON.stringify({
+			version: 0.6,
+			generator: 'test',
+			osm3s: { timestamp_osm_base: '2025-01-01T00:00:00Z', copyright: 'test' },
+			elements,
+		})
+	);
+
+// A box strictly inside a single grid cell
+const cell = cellForPoint(56.9496, 24.1052, FACILITY_GRID_ZOOM);
+const cellBox = cellBounds(cell);
+const bbox = {
+	south: cellBox.south + 0.001,
+	west: cellBox.west + 0.001,
+	north: cellBox.north - 0.001,
+	east: cellBox.east - 0.001,
+};
+const zooms = { min: 14, max: 15 };
+
+/**
+ * Minimal in-memory Storage
+ */
+function createStorage(): Storage {
+	const items: Map<string, string> = new Map();
+	return {
+		get length() {
+			return items.size;
+		},
+		clear: () => items.clear(),
+		getItem: (key) => items.get(key) ?? null,
+		key: (index) => [...items.keys()][index] ?? null,
+		removeItem: (key) => {
+			items.delete(key);
+		},
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+	};
+}
+
+describe('estimateArea', () => {
+	it('should estimate tiles and facility data', () => {
+		const estimate = estimateArea(bbox, zooms, 2);
+
+		expect(estimate.cells).toBe(1);
+		expect(estimate.tiles).toBeGreaterThanOrEqual(2);
+		expect(estimate.bytes).toBe(
+			estimate.tiles * OFFLINE_AREAS.estimatedTileBytes + 2 * OFFLINE_AREAS.estimatedCellBytes
+		);
+		expect(estimate.error).toBeNull();
+	});
+
+	it('should reject areas over the tile limit', () => {
+		expect(estimateArea(bbox, { min: 13, max: 19 }, 2).error?.type).toBe('too_large');
+	});
+
+	it('should reject areas with too many facility cells', () => {
+		const country = { south: 55.6, west: 20.9, north: 58.1, east: 28.3 };
+		expect(estimateArea(country, { min: 5, max: 6 }, 2).error?.type).toBe('too_large');
+	});
+});
+
+describe('createOfflineAreaManager', () => {
+	const fetchMock = vi.fn();
+	let store: CellStore;
+	let storage: Storage;
+
+	beforeEach(() => {
+		resetEndpointHealth();
+		store = createMemoryCellStore();
+		storage = createStorage();
+		vi.stubGlobal('fetch', fetchMock);
+		fetchMock.mockResolvedValue(
+			overpassResponse([
+				{ type: 'node', id: 1, lat: 56.9496, lon: 24.1052, tags: { amenity: 'drinking_water' } },
+			])
+		);
+	});
+
+	afterEach(() => {
+		fetchMock.mockReset();
+		vi.unstubAllGlobals();
+	});
+
+	it('should download and pin the facility cells of every layer', async () => {
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+
+		const result = await manager.download('Old Town', bbox, zooms);
+
+		expect(isOk(result)).toBe(true);
+		for (const query of QUERIES) {
+			const cached = await store.get(query.key, [cellKey(cell)]);
+			expect(cached.get(cellKey(cell))?.pinned).toBe(true);
+		}
+		expect(manager.list().map((area) => area.name)).toEqual(['Old Town']);
+		expect(manager.list()[0]?.layers).toEqual(['water', 'toilet']);
+	});
+
+	it('should download facilities from the source the map uses', async () => {
+		const queryBounds = vi
+			.fn<FacilityDataSource['queryBounds']>()
+			.mockResolvedValue(
+				Ok({ elementsByKey: new Map(), endpoint: 'facilities.geojson', cachedAt: null })
+			);
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: { name: 'geojson', queryBounds },
+			store,
+			storage,
+		});
+
+		const result = await manager.download('Old Town', bbox, zooms);
+
+		expect(isOk(result)).toBe(true);
+		expect(queryBounds).toHaveBeenCalledWith(QUERIES, bbox, { ttl: 0 });
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('should keep the area list across instances', async () => {
+		await createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		}).download('Old Town', bbox, zooms);
+
+		const reloaded = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+		expect(reloaded.list()).toHaveLength(1);
+	});
+
+	it('should not save areas that are too large', async () => {
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+
+		const result = await manager.download('Everything', bbox, { min: 13, max: 19 });
+
+		expect(isErr(result) && result.error.type).toBe('too_large');
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(manager.list()).toHaveLength(0);
+	});
+
+	it('should report failed facility downloads', async () => {
+		fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+
+		const result = await manager.download('Old Town', bbox, zooms);
+
+		expect(isErr(result) && result.error.type).toBe('fetch_failed');
+		expect(manager.list()).toHaveLength(0);
+	});
+
+	it('should not save or pin areas whose download was cancelled', async () => {
+		const controller = new AbortController();
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+
+		const result = await manager.download(
+			'Old Town',
+			bbox,
+			zooms,
+			(progress) => {
+				if (progress.phase === 'facilities' && progress.done === 1) controller.abort();
+			},
+			controller.signal
+		);
+
+		expect(isErr(result) && result.error.type).toBe('aborted');
+		expect(manager.list()).toHaveLength(0);
+		const cached = await store.get('water', [cellKey(cell)]);
+		expect(cached.get(cellKey(cell))?.pinned).toBe(false);
+	});
+
+	it('should report downloads cancelled while fetching facilities as cancelled', async () => {
+		const controller = new AbortController();
+		fetchMock.mockImplementation(() => {
+			controller.abort();
+			return Promise.reject(new DOMException('Aborted', 'AbortError'));
+		});
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+
+		const result = await manager.download('Old Town', bbox, zooms, undefined, controller.signal);
+
+		expect(isErr(result) && result.error.type).toBe('aborted');
+		expect(manager.list()).toHaveLength(0);
+	});
+
+	it('should keep a refreshed area pinned when its refresh is cancelled', async () => {
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+		const downloaded = await manager.download('Old Town', bbox, zooms);
+		if (!isOk(downloaded)) throw new Error('download failed');
+
+		const controller = new AbortController();
+		const result = await manager.refresh(
+			downloaded.value.id,
+			(progress) => {
+				if (progress.phase === 'facilities' && progress.done === 1) controller.abort();
+			},
+			controller.signal
+		);
+
+		expect(isErr(result) && result.error.type).toBe('aborted');
+		expect(manager.list()).toEqual([downloaded.value]);
+		const cached = await store.get('water', [cellKey(cell)]);
+		expect(cached.get(cellKey(cell))?.pinned).toBe(true);
+	});
+
+	it('should refresh an area in place', async () => {
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+		const downloaded = await manager.download('Old Town', bbox, zooms);
+		if (!isOk(downloaded)) throw new Error('download failed');
+
+		const refreshed = await manager.refresh(downloaded.value.id);
+
+		expect(isOk(refreshed)).toBe(true);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(manager.list()).toHaveLength(1);
+	});
+
+	it('should fail to refresh an unknown area', async () => {
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+
+		const result = await manager.refresh('missing');
+
+		expect(isErr(result) && result.error.type).toBe('not_found');
+	});
+
+	it('should unpin cells no other area covers on delete', async () => {
+		const manager = createOfflineAreaManager({
+			queries: QUERIES,
+			source: createOverpassSource({ store }),
+			store,
+			storage,
+		});
+		const first = await manager.download('First', bbox, zooms);
+		const second = await manager.download('Second', bbox, zooms);
+		if (!isOk(first) || !isOk(second)) throw new Error('download failed');
+
+		await manager.remove(first.value.id);
+		let cached = await store.get('water', [cellKey(cell)]);
+		expect(cached.get(cellKey(cell))?.pinned).toBe(true);
+
+		await manager.remove(second.value.id);
+		cached = await store.get('water', [cellKey(cell)]);
+		expect(cached.get(cellKey(cell))?.pinned).toBe(false);
+		expect(manager.list()).toHaveLength(0);
+	});
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for offline tile helpers
+ */
+
+import { describe, expect, it } from 'vitest';
+import { OFFLINE_AREAS } from '../../../../src/core/config';
+import { cellBounds, cellForPoint } from '../../../../src/features/data/grid';
+import {
+	countTiles,
+	isTileDownloadAllowed,
+	tileUrl,
+	tileUrlsForBounds,
+} from '../../../../src/features/offline/tiles';
+
+// A box strictly inside a single zoom 14 tile
+const tile = cellForPoint(56.9496, 24.1052, 14);
+const tileBox = cellBounds(tile);
+const bbox = {
+	south: tileBox.south + 0.001,
+	west: tileBox.west + 0.001,
+	north: tileBox.north - 0.001,
+	east: tileBox.east - 0.001,
+};
+
+describe('tileUrl', () => {
+	it('should fill in the template like Leaflet does', () => {
+		expect(tileUrl(1, 2, 3)).toBe('https://a.tile.openstreetmap.org/3/1/2.png');
+		expect(tileUrl(2, 2, 3)).toBe('https://b.tile.openstreetmap.org/3/2/2.png');
+		expect(tileUrl(3, 2, 3)).toBe('https://c.tile.openstreetmap.org/3/3/2.png');
+	});
+});
+
+describe('countTiles', () => {
+	it('should count the tiles at every zoom in the range', () => {
+		expect(countTiles(bbox, { min: 14, max: 14 })).toBe(1);
+		// Each zoom level splits a tile in four
+		expect(countTiles(bbox, { min: 14, max: 15 })).toBeGreaterThanOrEqual(2);
+		expect(countTiles(bbox, { min: 14, max: 15 })).toBeLessThanOrEqual(5);
+	});
+
+	it('should match the number of tile URLs', () => {
+		const zooms = { min: 12, max: 16 };
+		expect(tileUrlsForBounds(bbox, zooms)).toHaveLength(countTiles(bbox, zooms));
+	});
+});
+
+describe('isTileDownloadAllowed', () => {
+	it('should allow small downloads', () => {
+		expect(isTileDownloadAllowed(bbox, { min: 13, max: 16 })).toBe(true);
+	});
+
+	it('should reject downloads over the policy limit at high zoom', () => {
+		expect(countTiles(bbox, { min: 13, max: 19 })).toBeGreaterThan(OFFLINE_AREAS.maxTiles);
+		expect(isTileDownloadAllowed(bbox, { min: 13, max: 19 })).toBe(false);
+	});
+
+	it('should not limit low zoom tiles', () => {
+		const country = { south: 55.6, west: 20.9, north: 58.1, east: 28.3 };
+		expect(isTileDownloadAllowed(country, { min: 5, max: 8 })).toBe(true);
+	});
+});
@@ -4,6 +4,7 @@
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { facilityDefinition } from '../../../src/features/facilities/registry';
 import { attachPopupHandlers, createPopupContent } from '../../../src/features/markers/popup';
 import type { Element } from '../../../src/types/overpass';
 
@@ -12,12 +13,22 @@ vi.mock('../../../src/features/navigation/navigation', () => ({
 	openNavigation: vi.fn(),
 }));
 
+vi.mock('../../../src/analytics', () => ({
+	trackMarkerClicked: vi.fn(),
+	trackNavigationStarted: vi.fn(),
+}));
+
 vi.mock('../../../src/utils/logger', () => ({
 	info: vi.fn(),
 }));
 
+import { trackMarkerClicked } from '../../../src/analytics';
 import { openNavigation } from '../../../src/features/navigation/navigation';
 
+const WATER = facilityDefinition('water');
+const TOILET = facilityDefinition('toilet');
+const REFILL = facilityDefinition('refill');
+
 describe('Popup', () => {
 	describe('createPopupContent', () => {
 		let basicElement: Element;
@@ -35,14 +46,14 @@ describe('Popup', () => {
 		});
 
 		it('should create basic popup content', () => {
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Drinking Water');
 			expect(content).toContain('123456789');
 		});
 
 		it('should include navigate button', () => {
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('navigate-btn');
 			expect(content).toContain('data-lat="56.9496"');
@@ -50,16 +61,24 @@ describe('Popup', () => {
 		});
 
 		it('should include OSM link', () => {
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('https://www.openstreetmap.org/node/123456789');
 			expect(content).toContain('target="_blank"');
 			expect(content).toContain('rel="noreferrer"');
 		});
 
+		it('should link ways and relations to their own OSM pages', () => {
+			const way = createPopupContent({ ...basicElement, type: 'way' }, WATER);
+			const relation = createPopupContent({ ...basicElement, type: 'relation' }, WATER);
+
+			expect(way).toContain('https://www.openstreetmap.org/way/123456789');
+			expect(relation).toContain('https://www.openstreetmap.org/relation/123456789');
+		});
+
 		it('should include operator if present', () => {
 			basicElement.tags.operator = 'City Water Department';
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Operator:');
 			expect(content).toContain('City Water Department');
@@ -67,7 +86,7 @@ describe('Popup', () => {
 
 		it('should include note if present', () => {
 			basicElement.tags.note = 'Behind the building';
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Note:');
 			expect(content).toContain('Behind the building');
@@ -75,15 +94,44 @@ describe('Popup', () => {
 
 		it('should include seasonal if present', () => {
 			basicElement.tags.seasonal = 'yes';
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Seasonal:');
 			expect(content).toContain('yes');
 		});
 
+		it('should describe the seasonal availability', () => {
+			basicElement.tags.seasonal = 'yes';
+
+			expect(createPopupContent(basicElement, WATER, new Date(2026, 0, 15))).toContain(
+				'Likely off for winter (usually on Apr–Oct)'
+			);
+			expect(createPopupContent(basicElement, WATER, new Date(2026, 6, 15))).toContain(
+				'Likely available'
+			);
+		});
+
+		it('should mark the nearest toilet', () => {
+			const content = createPopupContent(
+				{ ...basicElement, tags: { amenity: 'toilets' }, isNearest: true },
+				TOILET
+			);
+
+			expect(content).toContain('Nearest toilet');
+		});
+
+		it('should explain a recommendation', () => {
+			const content = createPopupContent(
+				{ ...basicElement, recommendation: ['120 m', 'drinkable', 'free', 'open'] },
+				WATER
+			);
+
+			expect(content).toContain('Recommended: 120 m, drinkable, free, open');
+		});
+
 		it('should include bottle if present', () => {
 			basicElement.tags.bottle = 'yes';
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Bottle refill:');
 			expect(content).toContain('yes');
@@ -91,7 +139,7 @@ describe('Popup', () => {
 
 		it('should include wheelchair accessibility if present', () => {
 			basicElement.tags.wheelchair = 'yes';
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Wheelchair:');
 			expect(content).toContain('yes');
@@ -107,7 +155,7 @@ describe('Popup', () => {
 				wheelchair: 'yes',
 			};
 
-			const content = createPopupContent(basicElement);
+			const content = createPopupContent(basicElement, WATER);
 
 			expect(content).toContain('Operator: City');
 			expect(content).toContain('Note: Test note');
@@ -116,10 +164,93 @@ describe('Popup', () => {
 			expect(content).toContain('Wheelchair: yes');
 		});
 
+		describe('opening hours', () => {
+			// Saturday 24 October 2026, noon
+			const saturday = new Date(2026, 9, 24, 12, 0);
+
+			it('should show the current status and the weekly table', () => {
+				const content = createPopupContent(
+					{ ...basicElement, tags: { amenity: 'toilets', opening_hours: 'Mo-Fr 08:00-18:00' } },
+					TOILET,
+					saturday
+				);
+
+				expect(content).toContain('Closed, opens Mon 08:00');
+				expect(content).toContain('<th scope="row">Mon</th><td>08:00–18:00</td>');
+				expect(content).toContain('<th scope="row">Sat</th><td>Closed</td>');
+			});
+
+			it('should flag opening hours it cannot read', () => {
+				const content = createPopupContent(
+					{ ...basicElement, tags: { amenity: 'toilets', opening_hours: 'sunrise-sunset' } },
+					TOILET,
+					saturday
+				);
+
+				expect(content).toContain('Hours: sunrise-sunset');
+				expect(content).toContain('opening-hours-unreadable');
+			});
+
+			it('should not assume toilets without opening hours are always open', () => {
+				const content = createPopupContent(
+					{ ...basicElement, tags: { amenity: 'toilets' } },
+					TOILET
+				);
+
+				expect(content).toContain('Hours not specified');
+				expect(content).not.toContain('24/7');
+			});
+		});
+
+		describe('refill stations', () => {
+			const cafe = (tags: Record<string, string>): Element => ({
+				...basicElement,
+				tags: { amenity: 'cafe', 'drinking_water:refill': 'yes', ...tags },
+			});
+
+			it('should show the venue, its hours and who may refill', () => {
+				const content = createPopupContent(
+					cafe({ name: 'Kafejnīca', access: 'customers', opening_hours: 'Mo-Su 08:00-20:00' }),
+					REFILL,
+					new Date(2026, 9, 19, 12, 0)
+				);
+
+				expect(content).toContain('🥤 Kafejnīca');
+				expect(content).toContain('Refill station, ID: 123456789');
+				expect(content).toContain('Customers only');
+				expect(content).toContain('Open now, closes 20:00');
+				expect(content).toContain('aria-label="Navigate to refill station 123456789"');
+			});
+
+			it('should name unnamed venues and show no conditions when anyone may refill', () => {
+				const content = createPopupContent(cafe({}), REFILL);
+
+				expect(content).toContain('Refill Station');
+				expect(content).not.toContain('refill-conditions');
+				expect(content).toContain('Hours not specified');
+			});
+
+			it('should render tags matching several kinds as the layer they are shown in', () => {
+				const tap = {
+					...basicElement,
+					tags: { amenity: 'drinking_water', 'drinking_water:refill': 'yes' },
+				};
+
+				expect(createPopupContent(tap, REFILL)).toContain('🥤 Refill Station');
+				expect(createPopupContent(tap, WATER)).toContain('🚰 Drinking Water');
+			});
+
+			it('should mark the nearest refill station', () => {
+				const content = createPopupContent({ ...cafe({}), isNearest: true }, REFILL);
+
+				expect(content).toContain('⭐ Nearest refill station');
+			});
+		});
+
 		describe('XSS prevention', () => {
 			it('should escape HTML in operator', () => {
 				basicElement.tags.operator = '<script>alert(1)</script>';
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).not.toContain('<script>');
 				expect(content).toContain('&lt;script&gt;');
@@ -127,7 +258,7 @@ describe('Popup', () => {
 
 			it('should escape HTML in note', () => {
 				basicElement.tags.note = '<img src=x onerror=alert(1)>';
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).not.toContain('<img src=x');
 				expect(content).toContain('&lt;img');
@@ -135,14 +266,14 @@ describe('Popup', () => {
 
 			it('should escape quotes in tags', () => {
 				basicElement.tags.note = 'Test "quoted" text';
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).toContain('&quot;');
 			});
 
 			it('should handle malicious seasonal tag', () => {
 				basicElement.tags.seasonal = '"><script>alert(1)</script>';
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).not.toContain('"><script>');
 				expect(content).toContain('&quot;&gt;&lt;script&gt;');
@@ -151,25 +282,25 @@ describe('Popup', () => {
 
 		describe('accessibility', () => {
 			it('should include aria-label on navigate button', () => {
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).toContain('aria-label="Navigate to drinking water 123456789"');
 			});
 
 			it('should include aria-hidden on icon', () => {
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).toContain('aria-hidden="true"');
 			});
 
 			it('should use button type', () => {
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).toContain('type="button"');
 			});
 
 			it('should have visible label text', () => {
-				const content = createPopupContent(basicElement);
+				const content = createPopupContent(basicElement, WATER);
 
 				expect(content).toContain('<span class="label">Navigate</span>');
 			});
@@ -197,7 +328,7 @@ describe('Popup', () => {
 
 			// Create actual DOM elements for testing
 			popupElement = document.createElement('div');
-			popupElement.innerHTML = createPopupContent(element);
+			popupElement.innerHTML = createPopupContent(element, WATER);
 			document.body.appendChild(popupElement);
 
 			mockMarker = {
@@ -210,13 +341,13 @@ describe('Popup', () => {
 		});
 
 		it('should attach popupopen event handler', () => {
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			expect(mockMarker.on).toHaveBeenCalledWith('popupopen', expect.any(Function));
 		});
 
 		it('should call openNavigation when navigate button is clicked', () => {
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			// Get the popupopen handler
 			const popupopenHandler = mockMarker.on.mock.calls[0][1];
@@ -240,7 +371,7 @@ describe('Popup', () => {
 		});
 
 		it('should not attach handler twice', () => {
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			const popupopenHandler = mockMarker.on.mock.calls[0][1];
 			const mockEvent = {
@@ -260,7 +391,7 @@ describe('Popup', () => {
 		});
 
 		it('should set accessibility attributes on navigate button', () => {
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			const popupopenHandler = mockMarker.on.mock.calls[0][1];
 			const mockEvent = {
@@ -275,7 +406,7 @@ describe('Popup', () => {
 		});
 
 		it('should set accessibility attributes on OSM link', () => {
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			const popupopenHandler = mockMarker.on.mock.calls[0][1];
 			const mockEvent = {
@@ -289,8 +420,21 @@ describe('Popup', () => {
 			expect(osmLink?.getAttribute('tabindex')).toBe('0');
 		});
 
+		it('should track and navigate as the kind of the layer, not the first matching kind', () => {
+			const toilet = { ...element, tags: { amenity: 'toilets', 'refill:drinking_water': 'yes' } };
+			popupElement.innerHTML = createPopupContent(toilet, REFILL);
+			attachPopupHandlers(mockMarker, toilet, REFILL);
+
+			const popupopenHandler = mockMarker.on.mock.calls[0][1];
+			popupopenHandler({ popup: { getElement: () => popupElement } });
+			(popupElement.querySelector('.navigate-btn') as HTMLButtonElement).click();
+
+			expect(trackMarkerClicked).toHaveBeenCalledWith('refill');
+			expect(openNavigation).toHaveBeenCalledWith('56.9496', '24.1052', 'refill_station 123456789');
+		});
+
 		it('should handle missing popup element gracefully', () => {
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			const popupopenHandler = mockMarker.on.mock.calls[0][1];
 			const mockEvent = {
@@ -304,7 +448,7 @@ describe('Popup', () => {
 		it('should handle missing navigate button gracefully', () => {
 			popupElement.innerHTML = '<div>No button here</div>';
 
-			attachPopupHandlers(mockMarker, element);
+			attachPopupHandlers(mockMarker, element, WATER);
 
 			const popupopenHandler = mockMarker.on.mock.calls[0][1];
 			const mockEvent = {
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for quick actions
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSpatialIndex } from '../../../../src/features/data/spatialIndex';
+import type { QuickAction, QuickActionId } from '../../../../src/features/ranking/quickActions';
+import {
+	findQuickActionTarget,
+	QUICK_ACTIONS,
+} from '../../../../src/features/ranking/quickActions';
+import type { Element } from '../../../../src/types/overpass';
+import { elementKey } from '../../../../src/types/overpass';
+
+const node = (id: number, lat: number, tags: Record<string, string>): Element => ({
+	type: 'node',
+	id,
+	lat,
+	lon: 24.1,
+	tags,
+});
+
+const action = (id: QuickActionId): QuickAction => {
+	const found = QUICK_ACTIONS.find((candidate) => candidate.id === id);
+	if (!found) throw new Error(`No quick action ${id}`);
+	return found;
+};
+
+const user = { lat: 56.95, lon: 24.1 };
+// Monday 19 October 2026, 20:00
+const evening = new Date(2026, 9, 19, 20);
+
+function indexOf(elements: Element[]) {
+	const index = createSpatialIndex<Element>({
+		getKey: elementKey,
+		getPosition: (element) => element,
+	});
+	index.replaceInBounds({ south: 56.9, west: 24, north: 57, east: 24.2 }, elements);
+	return index;
+}
+
+describe('findQuickActionTarget', () => {
+	const toilets = indexOf([
+		node(1, 56.951, { amenity: 'toilets', opening_hours: 'Mo-Fr 08:00-18:00' }),
+		node(2, 56.952, { amenity: 'toilets' }),
+		node(3, 56.955, { amenity: 'toilets', wheelchair: 'yes' }),
+	]);
+
+	it('should skip facilities closed now', () => {
+		const target = findQuickActionTarget(
+			action('nearest_toilet'),
+			toilets,
+			user,
+			undefined,
+			evening
+		);
+
+		expect(target?.item.id).toBe(2);
+	});
+
+	it('should only lead to accessible toilets for the accessible action', () => {
+		const target = findQuickActionTarget(
+			action('nearest_accessible_toilet'),
+			toilets,
+			user,
+			undefined,
+			evening
+		);
+
+		expect(target?.item.id).toBe(3);
+	});
+
+	it('should skip non-drinkable and winterised water', () => {
+		const water = indexOf([
+			node(1, 56.951, { natural: 'spring', drinking_water: 'no' }),
+			node(2, 56.952, { amenity: 'drinking_water', seasonal: 'yes' }),
+			node(3, 56.953, { amenity: 'drinking_water' }),
+		]);
+
+		const target = findQuickActionTarget(
+			action('nearest_water'),
+			water,
+			user,
+			undefined,
+			new Date(2026, 0, 15, 12)
+		);
+
+		expect(target?.item.id).toBe(3);
+	});
+
+	it('should apply a further condition and return null without a match', () => {
+		expect(
+			findQuickActionTarget(action('nearest_toilet'), toilets, user, () => false, evening)
+		).toBeNull();
+	});
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for best facility scoring
+ */
+
+import { describe, expect, it } from 'vitest';
+import { toFacility } from '../../../../src/features/filters/filters';
+import type { ScoringContext } from '../../../../src/features/ranking/scoring';
+import {
+	formatRecommendation,
+	pickBest,
+	scoreFacility,
+	withBest,
+} from '../../../../src/features/ranking/scoring';
+import type { Element } from '../../../../src/types/overpass';
+
+const element = (id: number, tags: Record<string, string>): Element => ({
+	type: 'node',
+	id,
+	lat: 56.95,
+	lon: 24.1,
+	tags,
+});
+
+const water = (id: number, tags: Record<string, string> = {}) =>
+	toFacility('water', element(id, { amenity: 'drinking_water', ...tags }));
+const toilet = (id: number, tags: Record<string, string> = {}) =>
+	toFacility('toilet', element(id, { amenity: 'toilets', ...tags }));
+
+// Monday 19 October 2026, noon
+const context: ScoringContext = { now: new Date(2026, 9, 19, 12), needsWheelchair: false };
+const january: ScoringContext = { ...context, now: new Date(2026, 0, 15, 12) };
+
+describe('scoreFacility', () => {
+	it('should explain the strengths of a facility', () => {
+		const score = scoreFacility(water(1, { opening_hours: '24/7' }), 120, context);
+
+		expect(score?.reasons).toEqual(['120 m', 'drinkable', 'free', 'open']);
+		expect(formatRecommendation(score?.reasons ?? [])).toBe(
+			'Recommended: 120 m, drinkable, free, open'
+		);
+	});
+
+	it('should add penalties for drawbacks', () => {
+		const plain = scoreFacility(toilet(1), 100, context);
+		const paid = scoreFacility(toilet(2, { fee: 'yes' }), 100, context);
+
+		expect(paid?.cost).toBeGreaterThan(plain?.cost ?? 0);
+		expect(paid?.reasons).toContain('fee');
+	});
+
+	it('should never recommend private or winterised facilities', () => {
+		expect(scoreFacility(water(1, { access: 'private' }), 50, context)).toBeNull();
+		expect(scoreFacility(water(1, { seasonal: 'yes' }), 50, january)).toBeNull();
+	});
+
+	it('should only weigh wheelchair access when a wheelchair is needed', () => {
+		const needs = { ...context, needsWheelchair: true };
+
+		expect(scoreFacility(toilet(1, { wheelchair: 'no' }), 50, context)).not.toBeNull();
+		expect(scoreFacility(toilet(1, { wheelchair: 'no' }), 50, needs)).toBeNull();
+		expect(scoreFacility(toilet(1, { wheelchair: 'yes' }), 50, needs)?.reasons).toContain(
+			'wheelchair accessible'
+		);
+	});
+
+	it('should prefer recently checked facilities', () => {
+		const checked = scoreFacility(water(1, { check_date: '2026-06-01' }), 100, context);
+		const stale = scoreFacility(water(2, { check_date: '2019-06-01' }), 100, context);
+
+		expect(checked?.reasons).toContain('recently checked');
+		expect(checked?.cost).toBeLessThan(stale?.cost ?? 0);
+	});
+});
+
+describe('pickBest', () => {
+	it('should prefer a drinkable fountain over a nearer non-drinkable spring', () => {
+		const spring = toFacility('water', element(1, { natural: 'spring', drinking_water: 'no' }));
+		const best = pickBest(
+			[
+				{ item: spring, distance: 70 },
+				{ item: water(2), distance: 120 },
+			],
+			context
+		);
+
+		expect(best?.facility.element.id).toBe(2);
+	});
+
+	it('should return null when nothing may be recommended', () => {
+		expect(pickBest([{ item: water(1, { access: 'no' }), distance: 10 }], context)).toBeNull();
+	});
+});
+
+describe('withBest', () => {
+	it('should mark the recommended facility and keep the nearest', () => {
+		const nearest = { ...element(1, { amenity: 'drinking_water' }), isNearest: true };
+		const other = element(2, { amenity: 'drinking_water' });
+		const best = scoreFacility(water(2), 120, context);
+		if (!best) throw new Error('not scored');
+
+		const ranked = withBest({ elements: [nearest, other], nearest }, best);
+
+		expect(ranked.nearest).toBe(nearest);
+		expect(ranked.elements[1]?.recommendation).toEqual(best.reasons);
+		expect(ranked.elements[1]?.distanceFromUser).toBe(120);
+	});
+
+	it('should add a recommended facility outside the list', () => {
+		const best = scoreFacility(water(3), 400, context);
+		if (!best) throw new Error('not scored');
+
+		const ranked = withBest({ elements: [], nearest: null }, best);
+
+		expect(ranked.elements.map((e) => e.id)).toEqual([3]);
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for service worker caching strategies
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OFFLINE_CACHE } from '../../../src/core/config';
+import {
+	cacheNames,
+	classifyRequest,
+	isObsoleteCache,
+	serveOverpass,
+	serveTile,
+	trimCache,
+	withCachedAt,
+} from '../../../src/sw/strategies';
+
+const SCOPE = 'https://gribudzert.example/';
+const PRECACHED = new Set([`${SCOPE}assets/index-abc.js`]);
+
+const request = (url: string, method = 'GET', mode: RequestMode = 'cors') =>
+	({ url, method, mode }) as Request;
+
+describe('classifyRequest', () => {
+	it('should recognise Overpass queries by endpoint and method', () => {
+		expect(
+			classifyRequest(request('https://overpass-api.de/api/interpreter', 'POST'), SCOPE, PRECACHED)
+		).toBe('overpass');
+		expect(classifyRequest(request('https://example.com/api', 'POST'), SCOPE, PRECACHED)).toBe(
+			'other'
+		);
+	});
+
+	it('should recognise OSM tiles on any tile subdomain', () => {
+		expect(
+			classifyRequest(
+				request('https://b.tile.openstreetmap.org/14/9282/5023.png'),
+				SCOPE,
+				PRECACHED
+			)
+		).toBe('tile');
+	});
+
+	it('should recognise navigations and precached shell files', () => {
+		expect(classifyRequest(request(SCOPE, 'GET', 'navigate'), SCOPE, PRECACHED)).toBe('navigation');
+		expect(classifyRequest(request(`${SCOPE}assets/index-abc.js`), SCOPE, PRECACHED)).toBe('shell');
+		expect(classifyRequest(request('https://cloud.umami.is/script.js'), SCOPE, PRECACHED)).toBe(
+			'other'
+		);
+	});
+});
+
+describe('isObsoleteCache', () => {
+	it('should only flag this app caches from other versions', () => {
+		const names = cacheNames('v2');
+
+		expect(isObsoleteCache('gribudzert-shell-v1', names)).toBe(true);
+		expect(isObsoleteCache('gribudzert-shell-v2', names)).toBe(false);
+		expect(isObsoleteCache(names.tiles, names)).toBe(false);
+		expect(isObsoleteCache('other-app', names)).toBe(false);
+	});
+});
+
+describe('trimCache', () => {
+	it('should delete the oldest entries over the limit', async () => {
+		const keys = ['a', 'b', 'c', 'd'].map((key) => new Request(`https://x.example/${key}`));
+		const cache = {
+			keys: vi.fn(async () => keys),
+			delete: vi.fn(async () => true),
+		} as unknown as Cache;
+
+		await trimCache(cache, 2);
+
+		expect(cache.delete).toHaveBeenCalledTimes(2);
+		expect(cache.delete).toHaveBeenCalledWith(keys[0]);
+		expect(cache.delete).toHaveBeenCalledWith(keys[1]);
+	});
+});
+
+describe('withCachedAt', () => {
+	it('should stamp the cache time and expose it to cross-origin callers', async () => {
+		const response = await withCachedAt(
+			new Response('{"elements":[]}', {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' },
+			}),
+			1700000000000
+		);
+
+		expect(response.headers.get(OFFLINE_CACHE.cachedAtHeader)).toBe('1700000000000');
+		expect(response.headers.get('Access-Control-Expose-Headers')).toBe(
+			OFFLINE_CACHE.cachedAtHeader
+		);
+		expect(response.headers.get('Content-Type')).toBe('application/json');
+		expect(await response.text()).toBe('{"elements":[]}');
+	});
+});
+
+/**
+ * Cache whose writes fail, e.g. when the storage quota is exceeded
+ */
+function fullCache() {
+	return {
+		match: vi.fn(async () => undefined),
+		put: vi.fn(async () => {
+			throw new DOMException('Quota exceeded', 'QuotaExceededError');
+		}),
+		delete: vi.fn(async () => true),
+		keys: vi.fn(async () => []),
+	};
+}
+
+describe('cache writes', () => {
+	const names = cacheNames('test');
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should serve a tile when storing it fails', async () => {
+		const cache = fullCache();
+		vi.stubGlobal('caches', { open: vi.fn(async () => cache) });
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('tile', { status: 200 }))
+		);
+
+		const response = await serveTile(
+			new Request('https://a.tile.openstreetmap.org/14/1/1.png'),
+			names
+		);
+
+		expect(cache.put).toHaveBeenCalled();
+		expect(await response.text()).toBe('tile');
+	});
+
+	it('should not cache opaque tiles', async () => {
+		const cache = fullCache();
+		const opaque = { ok: false, type: 'opaque', clone: vi.fn() } as unknown as Response;
+		vi.stubGlobal('caches', { open: vi.fn(async () => cache) });
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => opaque)
+		);
+
+		const response = await serveTile(
+			new Request('https://a.tile.openstreetmap.org/14/1/1.png'),
+			names
+		);
+
+		expect(response).toBe(opaque);
+		expect(cache.put).not.toHaveBeenCalled();
+	});
+
+	it('should serve an Overpass response when storing it fails', async () => {
+		const cache = fullCache();
+		vi.stubGlobal('caches', { open: vi.fn(async () => cache) });
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async () => new Response('{"elements":[]}', { status: 200 }))
+		);
+
+		const response = await serveOverpass(
+			new Request('https://overpass-api.de/api/interpreter', { method: 'POST', body: 'q' }),
+			names.overpass
+		);
+
+		expect(cache.put).toHaveBeenCalled();
+		expect(await response.text()).toBe('{"elements":[]}');
+	});
+});
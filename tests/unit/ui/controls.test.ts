@@ -0,0 +1,48 @@
+/**
+ * Unit tests for map control buttons
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { createControlButton } from '../../../src/ui/controls';
+
+describe('createControlButton', () => {
+	const create = () => {
+		const container = document.createElement('div');
+		const onActivate = vi.fn();
+		const link = createControlButton(container, { label: 'Filters', icon: '☰', onActivate });
+		return { container, link, onActivate };
+	};
+
+	it('should add an accessible button to the container', () => {
+		const { container, link } = create();
+
+		expect(link.parentElement).toBe(container);
+		expect(link.title).toBe('Filters');
+		expect(link.getAttribute('aria-label')).toBe('Filters');
+		expect(link.getAttribute('role')).toBe('button');
+		expect(link.textContent).toBe('☰');
+	});
+
+	it('should activate on click without the click reaching the map', () => {
+		const { container, link, onActivate } = create();
+		const mapClick = vi.fn();
+		container.addEventListener('click', mapClick);
+
+		const click = new MouseEvent('click', { bubbles: true, cancelable: true });
+		link.dispatchEvent(click);
+
+		expect(onActivate).toHaveBeenCalledTimes(1);
+		expect(click.defaultPrevented).toBe(true);
+		expect(mapClick).not.toHaveBeenCalled();
+	});
+
+	it('should activate on Enter and Space only', () => {
+		const { link, onActivate } = create();
+
+		for (const key of ['Enter', ' ', 'Tab']) {
+			link.dispatchEvent(new KeyboardEvent('keydown', { key, cancelable: true }));
+		}
+
+		expect(onActivate).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for the cached data badge
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatDataStatus, showDataStatus } from '../../../src/ui/dataStatus';
+
+describe('Data status', () => {
+	describe('formatDataStatus', () => {
+		it('should flag offline data with its cache time', () => {
+			const cachedAt = new Date();
+			cachedAt.setHours(9, 5);
+
+			expect(formatDataStatus(cachedAt.getTime(), false)).toMatch(
+				/^Offline \/ cached as of .*0?9.05/
+			);
+		});
+
+		it('should describe cached data while online', () => {
+			expect(formatDataStatus(Date.now(), true)).toMatch(/^Showing cached data as of /);
+		});
+	});
+
+	describe('showDataStatus', () => {
+		it('should show the badge for cached data and hide it for live data', () => {
+			showDataStatus(Date.now());
+			const badge = document.querySelector('.data-status');
+			expect(badge?.classList.contains('data-status-visible')).toBe(true);
+
+			showDataStatus(null);
+			expect(badge?.classList.contains('data-status-visible')).toBe(false);
+		});
+	});
+});
@@ -3,7 +3,7 @@
  * Tests basic functionality and error handling
  */
 
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { dismissNotification, showNotification } from '../../../src/ui/notifications';
 
 describe('Notifications', () => {
@@ -33,6 +33,19 @@ describe('Notifications', () => {
 			expect(() => showNotification('Test', 'info', 5000)).not.toThrow();
 		});
 
+		it('should run the action and dismiss when the action button is clicked', () => {
+			const onClick = vi.fn();
+			showNotification('Retrying soon', 'warning', 0, { label: 'Cancel', onClick });
+
+			const buttons = document.querySelectorAll<HTMLButtonElement>('.notification-action');
+			const button = buttons[buttons.length - 1];
+			expect(button?.textContent).toBe('Cancel');
+
+			button?.click();
+			expect(onClick).toHaveBeenCalledTimes(1);
+			expect(button?.closest('.notification')?.classList.contains('notification-exit')).toBe(true);
+		});
+
 		it('should return unique IDs for multiple notifications', () => {
 			const id1 = showNotification('First');
 			const id2 = showNotification('Second');
@@ -3,8 +3,7 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import type { Element } from '../../../src/types/overpass';
-import { findNearestWaterPoint, haversineDistance } from '../../../src/utils/geometry';
+import { haversineDistance } from '../../../src/utils/geometry';
 
 describe('haversineDistance', () => {
 	it('should return 0 for the same point', () => {
@@ -52,102 +51,3 @@ describe('haversineDistance', () => {
 		expect(distanceAB).toBe(distanceBA);
 	});
 });
-
-describe('findNearestWaterPoint', () => {
-	it('should return null for empty array', () => {
-		const nearest = findNearestWaterPoint(56.9496, 24.1052, []);
-		expect(nearest).toBeNull();
-	});
-
-	it('should return the only point when array has one element', () => {
-		const singlePoint: Element = {
-			type: 'node',
-			id: 1,
-			lat: 56.95,
-			lon: 24.11,
-			tags: { amenity: 'drinking_water' },
-		};
-
-		const nearest = findNearestWaterPoint(56.9496, 24.1052, [singlePoint]);
-		expect(nearest).toBe(singlePoint);
-	});
-
-	it('should find the nearest point among multiple options', () => {
-		const userLat = 56.9496;
-		const userLon = 24.1052;
-
-		const nearPoint: Element = {
-			type: 'node',
-			id: 1,
-			lat: 56.95,
-			lon: 24.106, // Close to user
-			tags: { amenity: 'drinking_water' },
-		};
-
-		const farPoint: Element = {
-			type: 'node',
-			id: 2,
-			lat: 57.0,
-			lon: 24.5, // Far from user
-			tags: { amenity: 'drinking_water' },
-		};
-
-		const mediumPoint: Element = {
-			type: 'node',
-			id: 3,
-			lat: 56.96,
-			lon: 24.15,
-			tags: { amenity: 'drinking_water' },
-		};
-
-		const points = [farPoint, mediumPoint, nearPoint];
-		const nearest = findNearestWaterPoint(userLat, userLon, points);
-
-		expect(nearest).toBe(nearPoint);
-		expect(nearest?.id).toBe(1);
-	});
-
-	it('should handle points at equal distances', () => {
-		const userLat = 56.9496;
-		const userLon = 24.1052;
-
-		// Two points equidistant from user (north and south)
-		const northPoint: Element = {
-			type: 'node',
-			id: 1,
-			lat: 56.96,
-			lon: 24.1052,
-			tags: { amenity: 'drinking_water' },
-		};
-
-		const southPoint: Element = {
-			type: 'node',
-			id: 2,
-			lat: 56.94,
-			lon: 24.1052,
-			tags: { amenity: 'drinking_water' },
-		};
-
-		const points = [northPoint, southPoint];
-		const nearest = findNearestWaterPoint(userLat, userLon, points);
-
-		// Should return one of them (first in reduce logic)
-		expect(nearest).toBeDefined();
-		expect([1, 2]).toContain(nearest?.id);
-	});
-
-	it('should work with readonly array', () => {
-		const points: readonly Element[] = [
-			{
-				type: 'node',
-				id: 1,
-				lat: 56.95,
-				lon: 24.11,
-				tags: { amenity: 'drinking_water' },
-			},
-		];
-
-		const nearest = findNearestWaterPoint(56.9496, 24.1052, points);
-		expect(nearest).toBeDefined();
-	});
-});
@@ -0,0 +1,112 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { build, defineConfig } from 'vite';
+import { buildSnapshot } from './src/features/data/bundled';
+import { isOk } from './src/types/result';
+
+/**
+ * Files served from public/ that belong to the app shell
+ */
+const PUBLIC_SHELL_FILES = ['manifest.json'];
+
+/**
+ * Checked-in Overpass export (JSON or XML) bundled as the startup snapshot
+ */
+const SNAPSHOT_EXPORT = 'src/points.xml';
+const SNAPSHOT_MODULE = 'virtual:facility-snapshot';
+
+/**
+ * Short stable hash of the precache list, used as the cache version
+ */
+function hashManifest(files: readonly string[]): string {
+	let hash = 5381;
+	for (const char of files.join('\n')) {
+		hash = ((hash << 5) + hash + char.charCodeAt(0)) >>> 0;
+	}
+	return hash.toString(36);
+}
+
+/**
+ * Build src/sw/sw.ts into sw.js alongside the app
+ * The service worker is bundled on its own (no shared chunks) with the list of
+ * emitted files injected as its precache manifest
+ */
+function serviceWorker(): Plugin {
+	let config: ResolvedConfig;
+
+	return {
+		name: 'gribudzert-service-worker',
+		apply: 'build',
+		configResolved(resolved) {
+			config = resolved;
+		},
+		async generateBundle(_options, bundle) {
+			const emitted = Object.keys(bundle).filter((file) => !file.endsWith('.map'));
+			const manifest = ['./', ...emitted.filter((file) => file !== 'index.html'), ...PUBLIC_SHELL_FILES];
+
+			const output = await build({
+				configFile: false,
+				root: config.root,
+				logLevel: 'warn',
+				define: {
+					__PRECACHE_MANIFEST__: JSON.stringify(manifest),
+					__CACHE_VERSION__: JSON.stringify(hashManifest(manifest)),
+				},
+				build: {
+					write: false,
+					minify: config.build.minify,
+					lib: { entry: 'src/sw/sw.ts', formats: ['iife'], name: 'sw' },
+				},
+			});
+
+			const results = Array.isArray(output) ? output : [output];
+			const chunk = results
+				.flatMap((result) => ('output' in result ? result.output : []))
+				.find((file) => file.type === 'chunk');
+			if (!chunk || chunk.type !== 'chunk') {
+				this.error('Service worker build produced no output');
+			}
+
+			this.emitFile({ type: 'asset', fileName: 'sw.js', source: chunk.code });
+		},
+	};
+}
+
+/**
+ * Compact the snapshot export into the virtual:facility-snapshot module
+ * A broken export fails the build rather than shipping an empty snapshot
+ */
+function facilitySnapshot(): Plugin {
+	const resolvedId = `\0${SNAPSHOT_MODULE}`;
+	let root: string;
+
+	return {
+		name: 'gribudzert-facility-snapshot',
+		configResolved(resolved) {
+			root = resolved.root;
+		},
+		resolveId(id) {
+			return id === SNAPSHOT_MODULE ? resolvedId : null;
+		},
+		async load(id) {
+			if (id !== resolvedId) return null;
+
+			const file = path.resolve(root, SNAPSHOT_EXPORT);
+			this.addWatchFile(file);
+			const result = buildSnapshot(
+				await readFile(file, 'utf8'),
+				file.endsWith('.xml') ? 'xml' : 'json'
+			);
+			if (!isOk(result)) {
+				this.error(`Invalid facility snapshot ${SNAPSHOT_EXPORT}: ${result.error.message}`);
+			}
+
+			return `export default ${JSON.stringify(result.value)};`;
+		},
+	};
+}
+
+export default defineConfig({
+	plugins: [facilitySnapshot(), serviceWorker()],
+});